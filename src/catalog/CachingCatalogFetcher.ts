@@ -0,0 +1,129 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { utils } from 'pddl-workspace';
+import { CatalogFetcher } from './CatalogFetcher';
+
+/** Cached catalog response as stored on disk. */
+interface CacheEntry {
+    url: string;
+    /** Time the content was fetched (milliseconds since epoch). */
+    fetched: number;
+    content: any;
+}
+
+/**
+ * Catalog fetcher that persists the responses to a local folder.
+ * Fresh responses (younger than the time-to-live) are served from the cache.
+ * When the catalog cannot be reached (e.g. when offline or behind a proxy), stale responses are served.
+ */
+export class CachingCatalogFetcher implements CatalogFetcher {
+
+    /** Responses fetched before this time are considered stale. */
+    private refreshed = 0;
+
+    /**
+     * @param fetcher fetcher used when the cached response is missing or stale
+     * @param cacheFolder folder to persist the responses to
+     * @param getTimeToLive time-to-live of the cached responses in milliseconds
+     * @param onOffline called when the `fetcher` failed and a stale response is served instead
+     */
+    constructor(private readonly fetcher: CatalogFetcher, private readonly cacheFolder: string,
+        private readonly getTimeToLive: () => number,
+        private readonly onOffline?: (url: string, error: Error) => void) { }
+
+    getJson(url: string): Promise<any> {
+        // catalog error responses are not cached
+        return this.get(url, () => this.fetcher.getJson(url), json => !json?.["error"]);
+    }
+
+    getText(url: string): Promise<string> {
+        return this.get(url, () => this.fetcher.getText(url));
+    }
+
+    /**
+     * @returns cached response regardless of its age, or `undefined` if the `url` was never fetched
+     */
+    async getCached(url: string): Promise<any> {
+        return (await this.read(this.getCacheFile(url)))?.content;
+    }
+
+    /**
+     * @returns fetcher that only serves the cached responses and never connects to the catalog
+     */
+    cacheOnly(): CatalogFetcher {
+        const getCachedOrThrow = async (url: string): Promise<any> => {
+            const content = await this.getCached(url);
+            if (content === undefined) { throw new Error(`Not cached: ${url}`); }
+            return content;
+        };
+        return { getJson: getCachedOrThrow, getText: getCachedOrThrow };
+    }
+
+    /**
+     * Marks all cached responses as stale. They are re-fetched on next use, but still served if the catalog is offline.
+     */
+    refresh(): void {
+        this.refreshed = Date.now();
+    }
+
+    private async get<T>(url: string, fetch: () => Promise<T>, isCacheable: (content: T) => boolean = (): boolean => true): Promise<T> {
+        const cacheFile = this.getCacheFile(url);
+        const cached = await this.read(cacheFile);
+
+        if (cached && this.isFresh(cached)) {
+            return cached.content;
+        }
+
+        let content: T;
+        try {
+            content = await fetch();
+        } catch (err) {
+            if (cached) {
+                this.onOffline?.(url, err);
+                return cached.content;
+            }
+            throw err;
+        }
+
+        if (isCacheable(content)) {
+            await this.write(cacheFile, { url, fetched: Date.now(), content });
+        }
+        return content;
+    }
+
+    private isFresh(entry: CacheEntry): boolean {
+        return entry.fetched > this.refreshed && Date.now() - entry.fetched < this.getTimeToLive();
+    }
+
+    private getCacheFile(url: string): string {
+        return path.join(this.cacheFolder, createHash('sha1').update(url).digest('hex') + '.json');
+    }
+
+    private async read(cacheFile: string): Promise<CacheEntry | undefined> {
+        if (!await utils.afs.exists(cacheFile)) { return undefined; }
+        try {
+            return JSON.parse((await utils.afs.readFile(cacheFile, { encoding: 'utf8' })).toString());
+        } catch (err) {
+            console.log(`Ignoring corrupted catalog cache file ${cacheFile}: ${err}`);
+            return undefined;
+        }
+    }
+
+    private async write(cacheFile: string, entry: CacheEntry): Promise<void> {
+        try {
+            await utils.afs.mkdirIfDoesNotExist(this.cacheFolder, { recursive: true });
+            await utils.afs.writeFile(cacheFile, JSON.stringify(entry), { encoding: 'utf8' });
+        } catch (err) {
+            // the cache is an optimization; failing to write it must not fail the request
+            console.log(`Failed to write catalog cache file ${cacheFile}: ${err}`);
+        }
+    }
+}
@@ -3,15 +3,28 @@
  * Licensed under the MIT License. See License.txt in the project root for license information.
  * ------------------------------------------------------------------------------------------ */
 
-import { ExtensionContext, TreeDataProvider, EventEmitter, TreeItem, Event, window, TreeItemCollapsibleState, Uri, TextDocumentContentProvider, CancellationToken, workspace, commands, ViewColumn, TreeView, Command } from 'vscode';
+import { ExtensionContext, TreeDataProvider, EventEmitter, TreeItem, Event, window, TreeItemCollapsibleState, Uri, TextDocumentContentProvider, CancellationToken, workspace, commands, ViewColumn, TreeView, Command, ProgressLocation, QuickPickItem } from 'vscode';
 
 import { CatalogEntry, CatalogEntryKind, Collection, Domain, Problem } from './CatalogEntry';
 import { PlanningDomains } from './PlanningDomains';
-import request = require('request');
+import { CatalogFetcher, HttpCatalogFetcher } from './CatalogFetcher';
+import { CachingCatalogFetcher } from './CachingCatalogFetcher';
+import { CatalogDownloader, DownloadedDomain } from './CatalogDownloader';
+import { CatalogIndex, CatalogSearchItem } from './CatalogIndex';
 import { join } from 'path';
 import { instrumentOperationAsVsCodeCommand } from "vscode-extension-telemetry-wrapper";
+import { ManifestGenerator } from '../ptest/ManifestGenerator';
+import { PTEST_REFRESH } from '../ptest/PTestCommands';
+import { showError } from '../utils';
+import { CONF_PDDL } from '../configuration/configuration';
 
 const COMMAND_SHOW_DOMAIN_PROBLEM = 'pddl.planning.domains.show';
+const COMMAND_CREATE_TESTS = 'pddl.planning.domains.createTests';
+const COMMAND_REFRESH = 'pddl.planning.domains.refresh';
+const COMMAND_SEARCH = 'pddl.planning.domains.search';
+/** Maximum number of search results displayed. */
+const MAX_SEARCH_RESULTS = 500;
+const CATALOG_CACHE_TTL_HOURS = 'catalog.cacheTtlHours';
 export const HTTPDDL = 'httpddl';
 export const HTTPLAN = 'httplan';
 
@@ -22,16 +35,136 @@ export class Catalog {
 
     public static readonly VIEW = "pddl.planning.domains";
 
-    constructor(context: ExtensionContext) {
-        const catalogDataProvider = new CatalogDataProvider(context);
+    private readonly planningDomains: PlanningDomains;
+    private readonly cache: CachingCatalogFetcher;
+    private offlineNotified = false;
+
+    /**
+     * @param context extension context
+     * @param manifestGenerator generates test manifests for the downloaded domains
+     * @param fetcher catalog HTTP client (responses are cached in the global storage)
+     */
+    constructor(context: ExtensionContext, private readonly manifestGenerator: ManifestGenerator, fetcher: CatalogFetcher = new HttpCatalogFetcher()) {
+        this.cache = new CachingCatalogFetcher(fetcher, join(context.globalStoragePath, 'catalog'),
+            () => workspace.getConfiguration(CONF_PDDL).get<number>(CATALOG_CACHE_TTL_HOURS, 24) * 60 * 60 * 1000,
+            (url, error) => this.notifyOffline(url, error));
+        this.planningDomains = new PlanningDomains(this.cache);
+        const catalogDataProvider = new CatalogDataProvider(context, this.planningDomains);
         this.treeView = window.createTreeView(Catalog.VIEW, { treeDataProvider: catalogDataProvider, showCollapseAll: true });
-        const catalogContentProvider = new CatalogDomainProblemProvider();
+        const catalogContentProvider = new CatalogDomainProblemProvider(this.cache);
         context.subscriptions.push(workspace.registerTextDocumentContentProvider(HTTPDDL, catalogContentProvider));
-        context.subscriptions.push(workspace.registerTextDocumentContentProvider(HTTPLAN, new CatalogPlanProvider()));
+        context.subscriptions.push(workspace.registerTextDocumentContentProvider(HTTPLAN, new CatalogPlanProvider(this.cache)));
 
         context.subscriptions.push(instrumentOperationAsVsCodeCommand(COMMAND_SHOW_DOMAIN_PROBLEM,
             (domainUrl: string, problemUrl: string, planUrl: string) =>
                 this.showProblem(domainUrl, problemUrl, planUrl)));
+
+        context.subscriptions.push(instrumentOperationAsVsCodeCommand(COMMAND_CREATE_TESTS,
+            (entry: CatalogEntry) => this.createTests(entry).catch(showError)));
+
+        context.subscriptions.push(instrumentOperationAsVsCodeCommand(COMMAND_SEARCH, () => this.search().catch(showError)));
+
+        context.subscriptions.push(instrumentOperationAsVsCodeCommand(COMMAND_REFRESH, () => {
+            this.cache.refresh();
+            this.offlineNotified = false;
+            catalogDataProvider.refresh();
+        }));
+    }
+
+    /**
+     * Searches the cached catalog problems by name, requirements, IPC year and size and opens the selected problem.
+     */
+    async search(): Promise<void> {
+        let index = await this.buildIndex(new PlanningDomains(this.cache.cacheOnly()));
+
+        if (index.items.length === 0) {
+            const download = 'Download';
+            const answer = await window.showInformationMessage('The Planning.Domains catalog was not downloaded yet. Download the collections, domains and problem lists to search them?', download);
+            if (answer !== download) { return; }
+            index = await this.buildIndex(this.planningDomains);
+        }
+
+        const quickPick = window.createQuickPick<CatalogSearchQuickPickItem>();
+        quickPick.placeholder = 'Search problems by name, requirements (e.g. :durative-actions), IPC year (e.g. ipc:2008) and size (e.g. size<=20)';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        const updateItems = (query: string): void => {
+            quickPick.items = index.search(query)
+                .slice(0, MAX_SEARCH_RESULTS)
+                .map(item => new CatalogSearchQuickPickItem(item));
+            const unknownSizeCount = index.countUnknownSize(query);
+            quickPick.title = unknownSizeCount > 0
+                ? `${unknownSizeCount} problem(s) of unknown size not listed. Only problems opened or downloaded before have known size.`
+                : undefined;
+        };
+        updateItems('');
+
+        quickPick.onDidChangeValue(updateItems);
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[0];
+            quickPick.hide();
+            if (selected) {
+                const { domainUrl, problemUrl, planUrl } = toDocumentUris(selected.item.problem);
+                this.showProblem(domainUrl.toString(), problemUrl.toString(), planUrl.toString());
+            }
+        });
+        quickPick.onDidHide(() => quickPick.dispose());
+        quickPick.show();
+    }
+
+    private buildIndex(planningDomains: PlanningDomains): Thenable<CatalogIndex> {
+        return window.withProgress({ location: { viewId: Catalog.VIEW }, title: 'Indexing the catalog' }, progress =>
+            CatalogIndex.build(planningDomains,
+                problem => this.cache.getCached(problem.problem_url),
+                domain => progress.report({ message: domain.label })));
+    }
+
+    private notifyOffline(url: string, error: Error): void {
+        console.log(`Planning.Domains catalog not reachable (${url}): ${error.message ?? error}`);
+        if (!this.offlineNotified) {
+            this.offlineNotified = true;
+            window.setStatusBarMessage(`$(cloud-download) Planning.Domains catalog is not reachable. Showing the cached content.`, 10000);
+        }
+    }
+
+    /**
+     * Downloads the problems and reference plans of the catalog domain (or all domains of the collection)
+     * to a user-selected folder and generates the test manifests.
+     * @param entry catalog domain or collection
+     */
+    async createTests(entry: CatalogEntry): Promise<void> {
+        if (entry?.kind !== CatalogEntryKind.Domain && entry?.kind !== CatalogEntryKind.Collection) {
+            throw new Error(`Right-click a domain or collection in the Planning.Domains catalog view.`);
+        }
+
+        const targetFolders = await window.showOpenDialog({
+            canSelectFolders: true, canSelectFiles: false, canSelectMany: false,
+            defaultUri: workspace.workspaceFolders?.[0]?.uri,
+            openLabel: 'Download tests here'
+        });
+        if (!targetFolders || targetFolders.length === 0) { return; }
+        const targetFolder = targetFolders[0].fsPath;
+
+        const downloader = new CatalogDownloader(this.planningDomains);
+
+        const downloadedDomains = await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: `Downloading ${entry.label}`
+        }, (progress): Promise<DownloadedDomain[]> => {
+            const onProblem = (problem: Problem): void => progress.report({ message: problem.label });
+            return entry.kind === CatalogEntryKind.Domain
+                ? downloader.downloadDomain(entry as Domain, targetFolder, onProblem).then(domain => [domain])
+                : downloader.downloadCollection(entry as Collection, targetFolder, onProblem);
+        });
+
+        const manifests = [];
+        for (const downloadedDomain of downloadedDomains.filter(d => d.problems.length > 0)) {
+            manifests.push(await this.manifestGenerator.createCatalogManifest(downloadedDomain));
+        }
+
+        await commands.executeCommand(PTEST_REFRESH);
+        window.showInformationMessage(`Created ${manifests.length} test manifest(s) in ${workspace.asRelativePath(targetFolder)}.`);
     }
 
     showProblem(domainUrl: string, problemUrl: string, planUrl: string): void {
@@ -58,40 +191,35 @@ export class Catalog {
 class CatalogDomainProblemProvider implements TextDocumentContentProvider {
     onDidChange?: Event<Uri>;
 
+    constructor(private readonly fetcher: CatalogFetcher) { }
+
     async provideTextDocumentContent(uri: Uri, token: CancellationToken): Promise<string> {
         if (token.isCancellationRequested) { return "Operation canceled."; }
 
         uri = uri.with({ scheme: "http" });
-        return new Promise<string>((resolve) => {
-            request.get(uri.toString(), (error, _httpResponse, httpBody) => {
-                if (error) {
-                    resolve(error);
-                }
-                else {
-                    resolve(httpBody);
-                }
-            });
-        });
+        try {
+            return await this.fetcher.getText(uri.toString());
+        } catch (error) {
+            return error.message ?? error;
+        }
     }
 }
 
 class CatalogPlanProvider implements TextDocumentContentProvider {
     onDidChange?: Event<Uri>;
 
+    constructor(private readonly fetcher: CatalogFetcher) { }
+
     async provideTextDocumentContent(uri: Uri, token: CancellationToken): Promise<string> {
         if (token.isCancellationRequested) { return "Operation canceled."; }
 
         uri = decodePlanUri(uri);
-        return new Promise<string>((resolve) => {
-            request.get(uri.toString(), { json: true }, (error, _httpResponse, httpBody) => {
-                if (error) {
-                    resolve(error);
-                }
-                else {
-                    resolve(httpBody["result"]["plan"]);
-                }
-            });
-        });
+        try {
+            const response = await this.fetcher.getJson(uri.toString());
+            return response["result"]["plan"];
+        } catch (error) {
+            return error.message ?? error;
+        }
     }
 }
 
@@ -101,12 +229,15 @@ class CatalogDataProvider implements TreeDataProvider<CatalogEntry> {
     private _onDidChangeTreeData: EventEmitter<any> = new EventEmitter<any>();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     readonly onDidChangeTreeData: Event<any> = this._onDidChangeTreeData.event;
-    private planningDomains = new PlanningDomains();
 
-    constructor(private context: ExtensionContext) {
+    constructor(private context: ExtensionContext, private planningDomains: PlanningDomains) {
 
     }
 
+    refresh(): void {
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
     public getTreeItem(element: CatalogEntry): TreeItem {
         const isCollapsible = element.kind !== CatalogEntryKind.Problem;
         return {
@@ -114,7 +245,8 @@ class CatalogDataProvider implements TreeDataProvider<CatalogEntry> {
             collapsibleState: isCollapsible ? TreeItemCollapsibleState.Collapsed : void 0,
             command: this.createCommand(element),
             iconPath: this.getIcon(element.kind),
-            tooltip: element.tooltip
+            tooltip: element.tooltip,
+            contextValue: CatalogEntryKind[element.kind].toLowerCase()
         };
     }
 
@@ -132,10 +264,7 @@ class CatalogDataProvider implements TreeDataProvider<CatalogEntry> {
 
     private createCommand(element: CatalogEntry): Command | undefined {
         if (element.kind === CatalogEntryKind.Problem) {
-            const problem = element as Problem;
-            const domainUrl = Uri.parse(problem.domain_url).with({ scheme: HTTPDDL });
-            const problemUrl = Uri.parse(problem.problem_url).with({ scheme: HTTPDDL });
-            const planUrl = encodePlanUri(problem);
+            const { domainUrl, problemUrl, planUrl } = toDocumentUris(element as Problem);
 
             return {
                 command: COMMAND_SHOW_DOMAIN_PROBLEM,
@@ -169,6 +298,34 @@ class CatalogDataProvider implements TreeDataProvider<CatalogEntry> {
     }
 }
 
+class CatalogSearchQuickPickItem implements QuickPickItem {
+    readonly label: string;
+    readonly description: string;
+    readonly detail: string;
+    /** The index already filtered the items. */
+    readonly alwaysShow = true;
+
+    constructor(readonly item: CatalogSearchItem) {
+        this.label = `${item.domain.label} / ${item.problem.label}`;
+        this.description = [
+            item.ipc !== undefined ? `IPC ${item.ipc}` : undefined,
+            item.objectCount !== undefined ? `${item.objectCount} objects` : undefined
+        ].filter(d => d !== undefined).join(', ');
+        this.detail = item.requirements.join(' ');
+    }
+}
+
+/**
+ * @returns `httpddl:` and `httplan:` URIs of the problem's domain, problem and plan
+ */
+function toDocumentUris(problem: Problem): { domainUrl: Uri; problemUrl: Uri; planUrl: Uri } {
+    return {
+        domainUrl: Uri.parse(problem.domain_url).with({ scheme: HTTPDDL }),
+        problemUrl: Uri.parse(problem.problem_url).with({ scheme: HTTPDDL }),
+        planUrl: encodePlanUri(problem)
+    };
+}
+
 function encodePlanUri(problem: Problem): Uri {
     const extension = '.plan';
     let fileName = problem.label.replace('.pddl', extension);
@@ -0,0 +1,126 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as path from 'path';
+import { URL } from 'url';
+import { utils } from 'pddl-workspace';
+import { Collection, Domain, Problem } from './CatalogEntry';
+import { PlanningDomains } from './PlanningDomains';
+
+/** Problem downloaded from the catalog. */
+export interface DownloadedProblem {
+    /** Absolute path of the domain file. */
+    domainPath: string;
+    /** Absolute path of the problem file. */
+    problemPath: string;
+    /** Absolute path of the reference plan file (if the catalog has one). */
+    planPath?: string;
+    /** Cost of the reference plan. */
+    planCost?: number;
+}
+
+/** Domain downloaded from the catalog. */
+export interface DownloadedDomain {
+    domain: Domain;
+    /** Folder, where the domain was downloaded to. */
+    folder: string;
+    problems: DownloadedProblem[];
+}
+
+/**
+ * Downloads catalog domains, problems and reference plans to local folders.
+ */
+export class CatalogDownloader {
+
+    constructor(private readonly planningDomains: PlanningDomains) { }
+
+    /**
+     * Downloads all domains of the collection. Each domain goes to its own sub-folder.
+     * @param collection catalog collection
+     * @param targetFolder parent folder
+     * @param onProblem called before each problem is downloaded
+     */
+    async downloadCollection(collection: Collection, targetFolder: string, onProblem?: (problem: Problem) => void): Promise<DownloadedDomain[]> {
+        const domains = await this.planningDomains.getDomains(collection) as Domain[];
+        const collectionFolder = path.join(targetFolder, toFileName(collection.label));
+
+        const downloadedDomains: DownloadedDomain[] = [];
+        for (const domain of domains) {
+            downloadedDomains.push(await this.downloadDomain(domain, collectionFolder, onProblem));
+        }
+        return downloadedDomains;
+    }
+
+    /**
+     * Downloads the problems of the domain, their domain files and reference plans to the `<targetFolder>/<domain name>-<domain id>` folder.
+     * Catalog files often share the name (e.g. `p01.pddl` or `domain.pddl`), so the problem IDs make the file names unique.
+     * @param domain catalog domain
+     * @param targetFolder parent folder
+     * @param onProblem called before each problem is downloaded
+     */
+    async downloadDomain(domain: Domain, targetFolder: string, onProblem?: (problem: Problem) => void): Promise<DownloadedDomain> {
+        const problems = await this.planningDomains.getProblems(domain) as Problem[];
+        const domainFolder = path.join(targetFolder, `${toFileName(domain.label)}-${domain.id}`);
+        await utils.afs.mkdirIfDoesNotExist(domainFolder, { recursive: true });
+
+        const downloadedDomainFiles = new Map<string, string>();
+        const downloadedProblems: DownloadedProblem[] = [];
+
+        for (const problem of problems) {
+            onProblem?.(problem);
+
+            let domainPath = downloadedDomainFiles.get(problem.domain_url);
+            if (!domainPath) {
+                // domain shared by all problems keeps its name, problem-specific domains are suffixed by the problem ID
+                const isShared = problems.every(otherProblem => otherProblem.domain_url === problem.domain_url);
+                domainPath = await this.download(problem.domain_url, domainFolder, isShared ? undefined : problem.id);
+                downloadedDomainFiles.set(problem.domain_url, domainPath);
+            }
+
+            const problemPath = await this.download(problem.problem_url, domainFolder, problem.id);
+
+            const planText = await this.planningDomains.getPlan(problem);
+            let planPath: string | undefined;
+            if (planText) {
+                planPath = path.join(domainFolder, path.basename(problemPath, path.extname(problemPath)) + '.plan');
+                await utils.afs.writeFile(planPath, planText, { encoding: 'utf8' });
+            }
+
+            const planCost = (planText ? getPlanCost(planText) : undefined) ?? problem.upper_bound;
+
+            downloadedProblems.push({ domainPath, problemPath, planPath, planCost });
+        }
+
+        return { domain, folder: domainFolder, problems: downloadedProblems };
+    }
+
+    /**
+     * @param id catalog ID appended to the file name e.g. `p01-123.pddl`
+     * @returns path of the downloaded file
+     */
+    private async download(url: string, folder: string, id?: number): Promise<string> {
+        const text = await this.planningDomains.getText(url);
+        const fileName = toFileName(path.posix.basename(new URL(url).pathname));
+        const extension = path.extname(fileName);
+        const filePath = path.join(folder, id !== undefined ? `${path.basename(fileName, extension)}-${id}${extension}` : fileName);
+        await utils.afs.writeFile(filePath, text, { encoding: 'utf8' });
+        return filePath;
+    }
+}
+
+/**
+ * Extracts the plan cost from the `; cost = 12 (unit cost)` comment.
+ * @param planText plan
+ * @returns cost, or `undefined` if the plan does not state its cost
+ */
+export function getPlanCost(planText: string): number | undefined {
+    const match = /^\s*;\s*cost\s*=\s*([\d.]+)/mi.exec(planText);
+    return match ? parseFloat(match[1]) : undefined;
+}
+
+function toFileName(name: string): string {
+    return name.replace(/[^\w.-]+/g, '_');
+}
@@ -16,7 +16,10 @@ export class Collection implements CatalogEntry {
     public readonly tooltip: string;
     public readonly kind = CatalogEntryKind.Collection;
 
-    constructor(public readonly id: number, name: string, description: string, public readonly domainIds: number[]) {
+    /**
+     * @param ipc International Planning Competition year (for IPC collections)
+     */
+    constructor(public readonly id: number, name: string, description: string, public readonly domainIds: number[], public readonly ipc?: string) {
         this.label = name;
         this.tooltip = description;
     }
@@ -40,7 +43,10 @@ export class Problem implements CatalogEntry {
     public readonly tooltip: string;
     public readonly kind = CatalogEntryKind.Problem;
 
-    constructor(public id: number, name: string, public domain_url: string, public problem_url: string) {
+    /**
+     * @param upper_bound cost of the best known plan
+     */
+    constructor(public id: number, name: string, public domain_url: string, public problem_url: string, public upper_bound?: number) {
         this.label = name;
         this.tooltip = '';
     }
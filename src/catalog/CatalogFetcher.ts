@@ -0,0 +1,32 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { getJson, getText } from '../httpUtils';
+
+/**
+ * Fetches the catalog content. All catalog HTTP traffic goes through this interface,
+ * so it can be re-directed (e.g. to a local server in tests).
+ */
+export interface CatalogFetcher {
+    /** Fetches and parses JSON document. */
+    getJson(url: string): Promise<any>;
+    /** Fetches text document (e.g. PDDL domain or problem). */
+    getText(url: string): Promise<string>;
+}
+
+/** Fetches the catalog content over HTTP(S). */
+export class HttpCatalogFetcher implements CatalogFetcher {
+
+    getJson(url: string): Promise<any> {
+        return getJson(url);
+    }
+
+    async getText(url: string): Promise<string> {
+        return await getText(url);
+    }
+}
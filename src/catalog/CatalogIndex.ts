@@ -0,0 +1,175 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Collection, Domain, Problem } from './CatalogEntry';
+import { PlanningDomains } from './PlanningDomains';
+
+/** Catalog problem with the metadata used for searching. */
+export interface CatalogSearchItem {
+    problem: Problem;
+    domain: Domain;
+    /** IPC year (if the domain is part of an IPC collection). */
+    ipc?: string;
+    /** Domain `:requirements`. */
+    requirements: string[];
+    /** Number of problem objects (only known, if the problem file is available). */
+    objectCount?: number;
+}
+
+/** Parsed search query. */
+export interface CatalogQuery {
+    /** Words that must appear in the domain or problem name. */
+    words: string[];
+    /** Requirements the domain must declare, e.g. `:durative-actions`. */
+    requirements: string[];
+    /** IPC year, e.g. `ipc:2008`. */
+    ipc?: string;
+    /** Minimum number of problem objects, e.g. `size>=10`. */
+    minSize?: number;
+    /** Maximum number of problem objects, e.g. `size<20`. */
+    maxSize?: number;
+}
+
+/**
+ * Searchable index of the catalog problems.
+ */
+export class CatalogIndex {
+
+    constructor(readonly items: CatalogSearchItem[]) { }
+
+    /**
+     * Builds the index by walking all collections, domains and problems.
+     * Collections, domains or problems that cannot be fetched are skipped.
+     * @param planningDomains catalog client
+     * @param getProblemText provides the problem file text (if available), used to calculate the problem size
+     * @param onDomain called before each domain is indexed
+     */
+    static async build(planningDomains: PlanningDomains, getProblemText: (problem: Problem) => Promise<string | undefined>,
+        onDomain?: (domain: Domain) => void): Promise<CatalogIndex> {
+
+        const collections = await planningDomains.getCollections() as Collection[];
+
+        const domains = new Map<number, { domain: Domain; ipc?: string }>();
+        for (const collection of collections) {
+            const collectionDomains = await skipOnError(() => planningDomains.getDomains(collection)) as Domain[] | undefined ?? [];
+            const ipc = collection.ipc ?? parseIpcYear(collection.label);
+            collectionDomains
+                .filter(domain => !domains.has(domain.id) || (ipc && !domains.get(domain.id)?.ipc))
+                .forEach(domain => domains.set(domain.id, { domain, ipc: ipc ?? parseIpcYear(domain.tooltip) }));
+        }
+
+        const items: CatalogSearchItem[] = [];
+        for (const { domain, ipc } of domains.values()) {
+            onDomain?.(domain);
+            const problems = await skipOnError(() => planningDomains.getProblems(domain)) as Problem[] | undefined ?? [];
+            if (problems.length === 0) { continue; }
+
+            const domainText = await skipOnError(() => planningDomains.getText(problems[0].domain_url));
+            const requirements = domainText ? parseRequirements(domainText) : [];
+
+            for (const problem of problems) {
+                const problemText = await skipOnError(() => getProblemText(problem));
+                items.push({ problem, domain, ipc, requirements, objectCount: problemText ? countObjects(problemText) : undefined });
+            }
+        }
+
+        return new CatalogIndex(items);
+    }
+
+    /**
+     * Finds the problems matching the query.
+     * @param query words, requirements (e.g. `:numeric-fluents`), IPC year (`ipc:2008`) and problem size (e.g. `size<=20`)
+     */
+    search(query: string): CatalogSearchItem[] {
+        const q = parseQuery(query);
+        return this.items.filter(item => matches(item, q) && matchesSize(item, q));
+    }
+
+    /**
+     * The problem size is only known for problems, whose files are cached, so the size search results may be partial.
+     * @param query search query
+     * @returns number of problems, which match the query except for the size filter, because their size is not known
+     */
+    countUnknownSize(query: string): number {
+        const q = parseQuery(query);
+        if (q.minSize === undefined && q.maxSize === undefined) { return 0; }
+        return this.items.filter(item => item.objectCount === undefined && matches(item, q)).length;
+    }
+}
+
+/**
+ * @returns true if the item matches the query name, requirements and IPC year
+ */
+function matches(item: CatalogSearchItem, query: CatalogQuery): boolean {
+    const name = `${item.domain.label} ${item.problem.label}`.toLowerCase();
+    return query.words.every(word => name.includes(word))
+        && query.requirements.every(requirement => item.requirements.includes(requirement))
+        && (query.ipc === undefined || item.ipc === query.ipc);
+}
+
+function matchesSize(item: CatalogSearchItem, query: CatalogQuery): boolean {
+    return (query.minSize === undefined || (item.objectCount !== undefined && item.objectCount >= query.minSize))
+        && (query.maxSize === undefined || (item.objectCount !== undefined && item.objectCount <= query.maxSize));
+}
+
+export function parseQuery(query: string): CatalogQuery {
+    const parsed: CatalogQuery = { words: [], requirements: [] };
+
+    query.toLowerCase().split(/\s+/).filter(token => token.length).forEach(token => {
+        const sizeMatch = /^size(<=|>=|<|>|=)(\d+)$/.exec(token);
+        const ipcMatch = /^ipc[:-]?(\d{4})$/.exec(token);
+        if (token.startsWith(':')) {
+            parsed.requirements.push(token);
+        } else if (ipcMatch) {
+            parsed.ipc = ipcMatch[1];
+        } else if (sizeMatch) {
+            const size = parseInt(sizeMatch[2]);
+            switch (sizeMatch[1]) {
+                case '<': parsed.maxSize = size - 1; break;
+                case '<=': parsed.maxSize = size; break;
+                case '>': parsed.minSize = size + 1; break;
+                case '>=': parsed.minSize = size; break;
+                case '=': parsed.minSize = parsed.maxSize = size; break;
+            }
+        } else {
+            parsed.words.push(token);
+        }
+    });
+
+    return parsed;
+}
+
+/**
+ * @returns lower-case requirements declared by the domain
+ */
+export function parseRequirements(domainText: string): string[] {
+    const match = /\(\s*:requirements([^)]*)\)/i.exec(domainText);
+    return match ? match[1].toLowerCase().split(/\s+/).filter(r => r.startsWith(':')) : [];
+}
+
+/**
+ * @returns number of objects declared in the problem `:objects` section
+ */
+export function countObjects(problemText: string): number {
+    const match = /\(\s*:objects([^)]*)\)/i.exec(problemText.replace(/;.*$/gm, ''));
+    if (!match) { return 0; }
+
+    const tokens = match[1].split(/\s+/).filter(token => token.length);
+    // skip the type names following the '-'
+    return tokens.filter((token, index) => token !== '-' && tokens[index - 1] !== '-').length;
+}
+
+function parseIpcYear(text: string | undefined): string | undefined {
+    return text ? /ipc[\s-]?(\d{4})/i.exec(text)?.[1] : undefined;
+}
+
+async function skipOnError<T>(fetch: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await fetch();
+    } catch (err) {
+        return undefined;
+    }
+}
@@ -4,7 +4,7 @@
  * ------------------------------------------------------------------------------------------ */
 
 import { CatalogEntry, Collection, Domain, Problem } from './CatalogEntry';
-import { getJson } from '../httpUtils';
+import { CatalogFetcher, HttpCatalogFetcher } from './CatalogFetcher';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -13,18 +13,26 @@ export class PlanningDomains {
     public static readonly AUTHORITY = "api.planning.domains";
     public static readonly URL = "https://api.planning.domains/json/classical/";
 
+    /**
+     * @param fetcher catalog HTTP client
+     * @param url catalog API base URL
+     */
+    constructor(private readonly fetcher: CatalogFetcher = new HttpCatalogFetcher(), private readonly url = PlanningDomains.URL) {
+    }
+
     private parseCollection(collectionJson: any): Collection {
         return new Collection(
             collectionJson["collection_id"],
             collectionJson["collection_name"],
             collectionJson["description"],
-            JSON.parse(collectionJson["domain_set"])
+            JSON.parse(collectionJson["domain_set"]),
+            collectionJson["ipc"] ?? undefined
         );
     }
 
     async getCollections(): Promise<CatalogEntry[]> {
-        const url = PlanningDomains.URL + "collections";
-        const jsonOutput = await getJsonResult(url);
+        const url = this.url + "collections";
+        const jsonOutput = await this.getJsonResult(url);
         return jsonOutput
             .map((collectionJson: any) => this.parseCollection(collectionJson));
     }
@@ -38,8 +46,8 @@ export class PlanningDomains {
     }
 
     async getDomains(collection: Collection): Promise<CatalogEntry[]> {
-        const url = PlanningDomains.URL + "domains/" + collection.id;
-        const jsonOutput = await getJsonResult(url);
+        const url = this.url + "domains/" + collection.id;
+        const jsonOutput = await this.getJsonResult(url);
         return jsonOutput
             .map((domainJson: any) => this.parseDomain(domainJson))
             .sort(compareCatalogEntry);
@@ -50,24 +58,42 @@ export class PlanningDomains {
             problemJson["problem_id"],
             problemJson["problem"],
             problemJson["domain_url"],
-            problemJson["problem_url"]
+            problemJson["problem_url"],
+            problemJson["upper_bound"] ?? undefined
         );
     }
 
     async getProblems(domain: Domain): Promise<CatalogEntry[]> {
-        const url = PlanningDomains.URL + "problems/" + domain.id;
-        const jsonOutput = await getJsonResult(url);
+        const url = this.url + "problems/" + domain.id;
+        const jsonOutput = await this.getJsonResult(url);
         return jsonOutput
             .map((problemJson: any) => this.parseProblem(problemJson))
             .sort(compareCatalogEntry);
     }
 
-}
+    /**
+     * Fetches the reference plan of the problem.
+     * @returns plan text, or `undefined` if the catalog has no plan for this problem
+     */
+    async getPlan(problem: Problem): Promise<string | undefined> {
+        const url = this.url + "plan/" + problem.id;
+        const jsonOutput = await this.getJsonResult(url);
+        return jsonOutput?.["plan"] || undefined;
+    }
 
-async function getJsonResult(url: string): Promise<any> {
-    const response = await getJson(url);
-    checkResponseForError(response);
-    return response["result"];
+    /**
+     * Fetches the domain or problem file content.
+     * @param url domain or problem URL as listed in the catalog
+     */
+    getText(url: string): Promise<string> {
+        return this.fetcher.getText(url);
+    }
+
+    private async getJsonResult(url: string): Promise<any> {
+        const response = await this.fetcher.getJson(url);
+        checkResponseForError(response);
+        return response["result"];
+    }
 }
 
 export function checkResponseForError(response: any): void {
@@ -0,0 +1,133 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import {
+    TextDocument, Position, CancellationToken, SignatureHelpProvider, SignatureHelp, SignatureInformation, ParameterInformation
+} from 'vscode';
+import { DomainInfo, Variable, Term, parser } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
+import { SymbolUtils } from '../symbols/SymbolUtils';
+
+/** Predicate, function or action signature. */
+interface Signature {
+    kind: string;
+    name: string;
+    parameters: Term[];
+    documentation: string[];
+}
+
+/**
+ * Shows the declared parameters of the predicate, function or derived predicate/function when typing its arguments in domain and problem files,
+ * and of the action when typing the plan or happenings files. The current argument is highlighted with its type.
+ */
+export class PddlSignatureHelpProvider implements SignatureHelpProvider {
+
+    private readonly symbolUtils: SymbolUtils;
+
+    constructor(private readonly pddlWorkspace: CodePddlWorkspace) {
+        this.symbolUtils = new SymbolUtils(pddlWorkspace);
+    }
+
+    async provideSignatureHelp(document: TextDocument, position: Position, token: CancellationToken): Promise<SignatureHelp | undefined> {
+        const fileInfo = await this.pddlWorkspace.upsertAndParseFile(document);
+        if (token.isCancellationRequested || !fileInfo) { return undefined; }
+
+        const domainInfo = this.pddlWorkspace.pddlWorkspace.asDomain(fileInfo);
+        if (!domainInfo) { return undefined; }
+
+        // the document may be incomplete while typing, so it is parsed as is
+        const offset = document.offsetAt(position);
+        const syntaxTree = new parser.PddlSyntaxTreeBuilder(document.getText()).getTree();
+        const bracket = findEnclosingBracket(syntaxTree.getNodeAt(offset), domainInfo);
+        if (!bracket) { return undefined; }
+
+        const head = getHead(bracket);
+        if (!head || head.end >= offset) { return undefined; }
+
+        const signature = findSignature(domainInfo, head.name);
+        if (!signature) { return undefined; }
+
+        const signatureHelp = new SignatureHelp();
+        signatureHelp.signatures = [this.createSignatureInformation(signature)];
+        signatureHelp.activeSignature = 0;
+        // arguments that are completely typed before the cursor
+        signatureHelp.activeParameter = Math.min(head.argumentNodes.filter(argument => argument.getEnd() < offset).length,
+            Math.max(signature.parameters.length - 1, 0));
+        return signatureHelp;
+    }
+
+    private createSignatureInformation(signature: Signature): SignatureInformation {
+        const parameterLabels = signature.parameters.map(parameter => parameter.toPddlString());
+        const label = `(${[signature.name].concat(parameterLabels).join(' ')})`;
+        const documentation = this.symbolUtils.createSymbolMarkdownDocumentation(signature.kind, label, signature.documentation);
+        const signatureInformation = new SignatureInformation(label, documentation);
+
+        let labelOffset = signature.name.length + 1;
+        signatureInformation.parameters = parameterLabels.map(parameterLabel => {
+            // the label offsets make the parameter highlight unambiguous, even if two parameters are declared identically
+            const start = labelOffset + 1;
+            labelOffset = start + parameterLabel.length;
+            return new ParameterInformation([start, labelOffset]);
+        });
+
+        return signatureInformation;
+    }
+}
+
+/**
+ * @returns innermost bracket enclosing the node, unless it is an operator other than a declared name e.g. a predicate named `at`
+ */
+function findEnclosingBracket(node: parser.PddlSyntaxNode, domainInfo: DomainInfo): parser.PddlSyntaxNode | undefined {
+    let current: parser.PddlSyntaxNode | undefined = node.isType(parser.PddlTokenType.CloseBracket) ? node.getParent()?.getParent() : node;
+    while (current && !current.isType(parser.PddlTokenType.Document)) {
+        if (parser.isOpenBracket(current.getToken())) {
+            return current.isType(parser.PddlTokenType.OpenBracket) || findSignature(domainInfo, getHead(current)?.name ?? '') ? current : undefined;
+        }
+        current = current.getParent();
+    }
+    return undefined;
+}
+
+/**
+ * @returns name, its end offset and the argument nodes of the bracket; `(at` is tokenized as an operator, even if it is a predicate name
+ */
+function getHead(bracket: parser.PddlSyntaxNode): { name: string; end: number; argumentNodes: parser.PddlSyntaxNode[] } | undefined {
+    if (bracket.isType(parser.PddlTokenType.OpenBracketOperator)) {
+        const token = bracket.getToken();
+        return { name: token.tokenText.substring(1).trim(), end: token.getEnd(), argumentNodes: bracket.getNonWhitespaceNonCommentChildren() };
+    }
+
+    const [nameNode, ...argumentNodes] = bracket.getNonWhitespaceNonCommentChildren();
+    return nameNode?.isType(parser.PddlTokenType.Other) ? { name: nameNode.getToken().tokenText, end: nameNode.getEnd(), argumentNodes } : undefined;
+}
+
+function findSignature(domainInfo: DomainInfo, name: string): Signature | undefined {
+    const lowerCaseName = name.toLowerCase();
+    const variableKinds: { kind: string; variables: Variable[] }[] = [
+        { kind: 'Predicate', variables: domainInfo.getPredicates() },
+        { kind: 'Function', variables: domainInfo.getFunctions() },
+        { kind: 'Derived predicate/function', variables: domainInfo.getDerived() }
+    ];
+
+    for (const { kind, variables } of variableKinds) {
+        const variable = variables.find(v => v.name.toLowerCase() === lowerCaseName);
+        if (variable) {
+            return { kind, name: variable.name, parameters: variable.parameters, documentation: variable.getDocumentation() };
+        }
+    }
+
+    const action = domainInfo.getActions().find(a => a.name?.toLowerCase() === lowerCaseName);
+    if (action) {
+        return {
+            kind: action.isDurative() ? 'Durative action' : 'Action',
+            name: action.name ?? name,
+            parameters: action.parameters,
+            documentation: action.getDocumentation()
+        };
+    }
+
+    return undefined;
+}
@@ -234,6 +234,19 @@ export class PlannersConfiguration {
         }
     }
 
+    /**
+     * Lets the user pick several planners (e.g. to compare them).
+     * @param workingFolder workspace folder context
+     * @returns selected planners, or `undefined` if the user canceled
+     */
+    async selectPlanners(workingFolder?: WorkspaceFolder): Promise<ScopedPlannerConfiguration[] | undefined> {
+        const items = this.getPlanners(workingFolder).map(plannerConfig => new PlannerQuickPickItem(plannerConfig));
+
+        const selectedItems = await window.showQuickPick(items, { placeHolder: 'Select planners to compare ...', canPickMany: true });
+
+        return selectedItems?.map(item => item.planner);
+    }
+
     /**
      * Sets selected planner (and clears all lower-level selections).
      * @param selectedPlanner selected planner
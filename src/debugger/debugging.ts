@@ -60,7 +60,7 @@ export class Debugging {
 		context.subscriptions.push(vscode.commands.registerTextEditorCommand("pddl.happenings.generatePlanResumeCases", async () => {
 			try {
 				const context = await this.getActiveContext();
-				new HappeningsToPlanResumeCasesConvertor(context, this.plannerConfiguration).generate();
+				await new HappeningsToPlanResumeCasesConvertor(context, this.plannerConfiguration).generate();
 			}
 			catch (ex) {
 				vscode.window.showErrorMessage(ex.message ?? ex);
@@ -4,56 +4,115 @@
 * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import { FileInfo, Variable, DomainInfo } from 'pddl-workspace';
+import { FileInfo, DomainInfo, ProblemInfo } from 'pddl-workspace';
 import { CodePddlWorkspace } from "../workspace/CodePddlWorkspace";
 import { PddlWorkspace } from 'pddl-workspace';
-import { languages, DiagnosticCollection, Diagnostic, DiagnosticSeverity, DiagnosticTag } from "vscode";
+import { languages, DiagnosticCollection, Diagnostic, DiagnosticSeverity, DiagnosticTag, workspace, ExtensionContext } from "vscode";
 import { PDDL } from 'pddl-workspace';
 import { toRange, toUri } from "../utils";
+import { CONF_PDDL } from '../configuration/configuration';
+import { DOMAIN_LINT_RULES, DomainLintContext, DomainLintRule, LintProblem, LintSeverity, LintSuppressions } from './DomainLintRules';
 
-export const UNUSED = 'unused';
+/** Configuration object with the lint rule severities by the rule ID. */
+export const LINT_RULES = 'lint.rules';
 
 /**
- * Domain file diagnostics.
+ * Domain file diagnostics reported by the lint rules.
  */
 export class DomainDiagnostics {
     diagnosticCollection: DiagnosticCollection;
+    /** Domain re-validations scheduled after the problem file updates, by the domain file URI. */
+    private readonly pendingValidations = new Map<string, NodeJS.Timeout>();
+    /** Delay of the domain re-validation after a problem file update, so loading many problem files re-validates the domain once. */
+    static readonly PROBLEM_UPDATE_DELAY_MS = 500;
 
-    constructor(codePddlWorkspace: CodePddlWorkspace) {
+    constructor(context: ExtensionContext, private readonly codePddlWorkspace: CodePddlWorkspace) {
         this.diagnosticCollection = languages.createDiagnosticCollection(PDDL+'2');
         codePddlWorkspace.pddlWorkspace.on(PddlWorkspace.UPDATED, (fileInfo: FileInfo) => {
             if (fileInfo.isDomain()) {
+                this.cancelPendingValidation(fileInfo as DomainInfo);
                 this.validateDomain(fileInfo as DomainInfo);
             }
+            else if (fileInfo.isProblem()) {
+                // some rules inspect the problem objects, initial state and goals
+                const domainInfo = codePddlWorkspace.pddlWorkspace.getDomainFileFor(fileInfo as ProblemInfo);
+                if (domainInfo) {
+                    this.scheduleValidation(domainInfo);
+                }
+            }
         });
+
+        context.subscriptions.push(workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(CONF_PDDL + '.' + LINT_RULES)) {
+                codePddlWorkspace.pddlWorkspace.getAllFilesIf<DomainInfo>(fileInfo => fileInfo.isDomain())
+                    .forEach(domainInfo => this.validateDomain(domainInfo));
+            }
+        }));
+    }
+
+    private scheduleValidation(domainInfo: DomainInfo): void {
+        this.cancelPendingValidation(domainInfo);
+        const key = domainInfo.fileUri.toString();
+        this.pendingValidations.set(key, setTimeout(() => {
+            this.pendingValidations.delete(key);
+            this.validateDomain(domainInfo);
+        }, DomainDiagnostics.PROBLEM_UPDATE_DELAY_MS));
+    }
+
+    private cancelPendingValidation(domainInfo: DomainInfo): void {
+        const key = domainInfo.fileUri.toString();
+        const pendingValidation = this.pendingValidations.get(key);
+        if (pendingValidation) {
+            clearTimeout(pendingValidation);
+            this.pendingValidations.delete(key);
+        }
     }
 
     validateDomain(domainInfo: DomainInfo): void {
-        const predicateDiagnostic = domainInfo.getPredicates()
-            .map(p => this.toUnusedDiagnostic(domainInfo, p, 'predicate'))
-            .filter(diagnostic => !!diagnostic)
-            .map(diagnostics => diagnostics!);
+        const uri = toUri(domainInfo.fileUri);
+        const severities = workspace.getConfiguration(CONF_PDDL, uri).get<{ [ruleId: string]: LintSeverity }>(LINT_RULES, {});
+        const context = new DomainLintContext(domainInfo, this.codePddlWorkspace.pddlWorkspace.getProblemFiles(domainInfo));
+        const suppressions = new LintSuppressions(domainInfo.getText());
 
-        const functionDiagnostic = domainInfo.getFunctions()
-            .map(p => this.toUnusedDiagnostic(domainInfo, p, 'function'))
-            .filter(diagnostic => !!diagnostic)
-            .map(diagnostics => diagnostics!);
+        const diagnostics: Diagnostic[] = [];
 
-        const diagnostics = predicateDiagnostic.concat(functionDiagnostic);
+        DOMAIN_LINT_RULES.forEach(rule => {
+            const severity = toDiagnosticSeverity(severities[rule.id] ?? rule.defaultSeverity);
+            if (severity === undefined) { return; }
 
-        this.diagnosticCollection.set(toUri(domainInfo.fileUri), diagnostics);
-    }
+            rule.check(context)
+                .map(problem => this.toDiagnostic(rule, problem, severity))
+                .filter(diagnostic => !suppressions.isSuppressed(rule.id, diagnostic.range.start.line))
+                .forEach(diagnostic => diagnostics.push(diagnostic));
+        });
 
-    toUnusedDiagnostic(domainInfo: DomainInfo, variable: Variable, variableType: string): Diagnostic | undefined {
-        const references = domainInfo.getVariableReferences(variable);
+        this.diagnosticCollection.set(uri, diagnostics);
+    }
 
-        if (references.length === 1) {
-            const diagnostic = new Diagnostic(toRange(references[0]), `Unused ${variableType} (${variable.declaredName})`, DiagnosticSeverity.Hint);
+    private toDiagnostic(rule: DomainLintRule, problem: LintProblem, severity: DiagnosticSeverity): Diagnostic {
+        const diagnostic = new Diagnostic(toRange(problem.range), problem.message, severity);
+        if (rule.unnecessary) {
             diagnostic.tags = [DiagnosticTag.Unnecessary];
-            diagnostic.code = UNUSED;
-            return diagnostic;
         }
+        diagnostic.code = rule.id;
+        return diagnostic;
+    }
+}
 
-        return undefined;
+/**
+ * @returns diagnostic severity, or `undefined` if the rule is `off`
+ */
+function toDiagnosticSeverity(severity: LintSeverity): DiagnosticSeverity | undefined {
+    switch (severity) {
+        case 'error':
+            return DiagnosticSeverity.Error;
+        case 'warning':
+            return DiagnosticSeverity.Warning;
+        case 'information':
+            return DiagnosticSeverity.Information;
+        case 'hint':
+            return DiagnosticSeverity.Hint;
+        default:
+            return undefined;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,394 @@
+/* --------------------------------------------------------------------------------------------
+* Copyright (c) Jan Dolejsi. All rights reserved.
+* Licensed under the MIT License. See License.txt in the project root for license information.
+* ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { DomainInfo, ProblemInfo, Variable, PddlRange, parser } from 'pddl-workspace';
+import { NUMBER, OBJECT, getObjects, getTypedNames } from '../symbols/TypedNames';
+
+/** Severity of the rule violations, or `off` to disable the rule. */
+export type LintSeverity = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+/** Rule violation found in the domain file. */
+export interface LintProblem {
+    range: PddlRange;
+    message: string;
+}
+
+export interface DomainLintRule {
+    /** Rule ID used in the `pddl.lint.rules` setting and in the `pddl-lint-disable` comments. */
+    id: string;
+    defaultSeverity: LintSeverity;
+    /** Violations are declarations, which could be removed, so they are rendered faded out. */
+    unnecessary?: boolean;
+    check(context: DomainLintContext): LintProblem[];
+}
+
+const AT_START = 'at start';
+const AT_END = 'at end';
+
+/** Predicate atom used in a condition or effect. */
+interface Atom {
+    node: parser.PddlSyntaxNode;
+    /** Lower-case predicate name. */
+    name: string;
+    /** Lower-case atom text with normalized whitespace, so the same atoms have the same key e.g. `(at ?t ?to)`. */
+    key: string;
+    /** Nested in `(not ...)`. */
+    negated: boolean;
+    /** `at start`, `at end` or `over all` in durative actions, empty string otherwise. */
+    time: string;
+    /** Nested in a conditional `(when ...)` or universal `(forall ...)` effect. */
+    conditional: boolean;
+}
+
+/**
+ * Domain and its problem files inspected by the lint rules.
+ */
+export class DomainLintContext {
+    private readonly predicateNames: string[];
+
+    constructor(readonly domainInfo: DomainInfo, readonly problemFiles: ProblemInfo[]) {
+        this.predicateNames = domainInfo.getPredicates().map(predicate => predicate.name.toLowerCase());
+    }
+
+    getDefineNode(): parser.PddlSyntaxNode | undefined {
+        return this.domainInfo.syntaxTree.getDefineNode();
+    }
+
+    /**
+     * @returns the `(:action ...)`, `(:durative-action ...)`, `(:process ...)` and `(:event ...)` nodes
+     */
+    getStructureNodes(): parser.PddlSyntaxNode[] {
+        const defineNode = this.getDefineNode();
+        return defineNode ? defineNode.getChildrenOfType(parser.PddlTokenType.OpenBracketOperator, /^\(\s*:(action|durative-action|process|event)$/i) : [];
+    }
+
+    /**
+     * @returns predicate atoms nested in the given node
+     */
+    getAtoms(scope: parser.PddlSyntaxNode | undefined): Atom[] {
+        const atoms: Atom[] = [];
+        scope?.getChildrenRecursively(node => this.predicateNames.includes(getHeadName(node) ?? ''), node => atoms.push(toAtom(node)));
+        return atoms;
+    }
+
+    createProblem(node: parser.PddlSyntaxNode, message: string): LintProblem {
+        return { range: this.domainInfo.getDocumentPositionResolver().nodeToRange(node), message };
+    }
+}
+
+/**
+ * Rules disabled by the `; pddl-lint-disable rule-id` (in the whole file) and `; pddl-lint-disable-next-line rule-id` comments.
+ * Comments without the rule IDs disable all the rules.
+ */
+export class LintSuppressions {
+    static readonly commentPattern = /;\s*pddl-lint-disable(-next-line)?(?![\w-])(.*)$/i;
+    private static readonly ALL = '*';
+    private readonly fileRules: string[] = [];
+    /** Rules disabled on the line following the comment by the zero-based line index. */
+    private readonly lineRules = new Map<number, string[]>();
+
+    constructor(text: string) {
+        text.split(/\r?\n/).forEach((line, lineIndex) => {
+            const match = LintSuppressions.commentPattern.exec(line);
+            if (!match) { return; }
+
+            const ruleIds = match[2].split(/[\s,]+/).filter(ruleId => ruleId.length > 0).map(ruleId => ruleId.toLowerCase());
+            const rules = ruleIds.length ? ruleIds : [LintSuppressions.ALL];
+
+            if (match[1]) {
+                this.lineRules.set(lineIndex + 1, rules);
+            } else {
+                this.fileRules.push(...rules);
+            }
+        });
+    }
+
+    isSuppressed(ruleId: string, line: number): boolean {
+        const includesRule = (rules: string[]): boolean => rules.includes(LintSuppressions.ALL) || rules.includes(ruleId);
+        return includesRule(this.fileRules) || includesRule(this.lineRules.get(line) ?? []);
+    }
+}
+
+export const DOMAIN_LINT_RULES: DomainLintRule[] = [
+    {
+        id: 'unused-predicate',
+        defaultSeverity: 'hint',
+        unnecessary: true,
+        check: (context): LintProblem[] => findUnusedVariables(context.domainInfo, context.domainInfo.getPredicates(), 'predicate'),
+    },
+    {
+        id: 'unused-function',
+        defaultSeverity: 'hint',
+        unnecessary: true,
+        check: (context): LintProblem[] => findUnusedVariables(context.domainInfo, context.domainInfo.getFunctions(), 'function'),
+    },
+    {
+        id: 'add-delete-same-atom',
+        defaultSeverity: 'warning',
+        check: findAtomsAddedAndDeleted,
+    },
+    {
+        id: 'never-true-precondition',
+        defaultSeverity: 'warning',
+        check: findPreconditionsNeverTrue,
+    },
+    {
+        id: 'unused-parameter',
+        defaultSeverity: 'information',
+        unnecessary: true,
+        check: findUnusedParameters,
+    },
+    {
+        id: 'at-end-condition-deleted-at-start',
+        defaultSeverity: 'warning',
+        check: findAtEndConditionsDeletedAtStart,
+    },
+    {
+        id: 'unused-type',
+        defaultSeverity: 'hint',
+        unnecessary: true,
+        check: findUnusedTypes,
+    },
+    {
+        id: 'unneeded-requirement',
+        defaultSeverity: 'hint',
+        unnecessary: true,
+        check: findUnneededRequirements,
+    },
+];
+
+function findUnusedVariables(domainInfo: DomainInfo, variables: Variable[], variableType: string): LintProblem[] {
+    return variables
+        .map(variable => ({ variable, references: domainInfo.getVariableReferences(variable) }))
+        .filter(usage => usage.references.length === 1)
+        .map(usage => ({ range: usage.references[0], message: `Unused ${variableType} (${usage.variable.declaredName})` }));
+}
+
+function findAtomsAddedAndDeleted(context: DomainLintContext): LintProblem[] {
+    const problems: LintProblem[] = [];
+
+    context.getStructureNodes().forEach(structure => {
+        const effects = context.getAtoms(getSection(structure, 'effect')).filter(atom => !atom.conditional);
+
+        effects
+            .filter(deleted => deleted.negated && effects.some(added => !added.negated && added.key === deleted.key && added.time === deleted.time))
+            .forEach(deleted => problems.push(context.createProblem(deleted.node,
+                `${getStructureName(structure)} both adds and deletes ${deleted.node.getText()}` + (deleted.time ? ` ${deleted.time}` : ''))));
+    });
+
+    return problems;
+}
+
+/**
+ * Static predicates are only made true in the problem `:init`, so the rule only applies when the domain has problem files.
+ */
+function findPreconditionsNeverTrue(context: DomainLintContext): LintProblem[] {
+    if (!context.problemFiles.length) { return []; }
+
+    const madeTrue = context.domainInfo.getDerived().map(derived => derived.name.toLowerCase());
+
+    const addMadeTrue = (atoms: Atom[]): void => atoms
+        .filter(atom => !atom.negated)
+        .forEach(atom => madeTrue.push(atom.name));
+
+    const structures = context.getStructureNodes();
+    structures.forEach(structure => addMadeTrue(context.getAtoms(getSection(structure, 'effect'))));
+    context.problemFiles.forEach(problemInfo => addMadeTrue(context.getAtoms(problemInfo.syntaxTree.getDefineNode()?.getFirstOpenBracket(':init'))));
+
+    const problems: LintProblem[] = [];
+
+    structures.forEach(structure => getConditions(structure).forEach(condition => context.getAtoms(condition)
+        .filter(atom => !atom.negated && !madeTrue.includes(atom.name))
+        .forEach(atom => problems.push(context.createProblem(atom.node,
+            `Condition ${atom.node.getText()} of ${getStructureName(structure)} is never true: no effect adds it and no problem initializes it`)))));
+
+    return problems;
+}
+
+function findUnusedParameters(context: DomainLintContext): LintProblem[] {
+    const problems: LintProblem[] = [];
+
+    context.getStructureNodes().forEach(structure => {
+        const parametersNode = structure.getKeywordOpenBracket('parameters');
+        if (!parametersNode) { return; }
+
+        const usedParameters: string[] = [];
+        structure.getChildrenRecursively(node => node.isType(parser.PddlTokenType.Parameter) && !isNestedIn(node, parametersNode),
+            node => usedParameters.push(node.getToken().tokenText.toLowerCase()));
+
+        parametersNode.getNonWhitespaceNonCommentChildren()
+            .filter(node => node.isType(parser.PddlTokenType.Parameter) && !usedParameters.includes(node.getToken().tokenText.toLowerCase()))
+            .forEach(node => problems.push(context.createProblem(node, `Unused parameter ${node.getToken().tokenText} of ${getStructureName(structure)}`)));
+    });
+
+    return problems;
+}
+
+function findAtEndConditionsDeletedAtStart(context: DomainLintContext): LintProblem[] {
+    const problems: LintProblem[] = [];
+
+    context.getStructureNodes()
+        .filter(structure => /durative-action$/i.test(structure.getToken().tokenText))
+        .forEach(structure => {
+            const atStartEffects = context.getAtoms(getSection(structure, 'effect')).filter(atom => !atom.conditional && atom.time === AT_START);
+            // atoms deleted and added back at start are true after the start
+            const deletedAtStart = atStartEffects
+                .filter(deleted => deleted.negated && !atStartEffects.some(added => !added.negated && added.key === deleted.key))
+                .map(deleted => deleted.key);
+
+            context.getAtoms(getSection(structure, 'condition'))
+                .filter(atom => !atom.negated && atom.time === AT_END && deletedAtStart.includes(atom.key))
+                .forEach(atom => problems.push(context.createProblem(atom.node,
+                    `${getStructureName(structure)} deletes ${atom.node.getText()} at start, so the at end condition only holds if another action adds it back`)));
+        });
+
+    return problems;
+}
+
+/**
+ * Types are used in the typed lists of the domain (incl. as supertypes in the `:types` section) and in the problem `:objects`.
+ */
+function findUnusedTypes(context: DomainLintContext): LintProblem[] {
+    const usedTypes: string[] = [];
+
+    context.getDefineNode()?.getChildrenRecursively(node => node.isType(parser.PddlTokenType.Dash), dash => {
+        const siblings = dash.getParent()?.getNonWhitespaceNonCommentChildren() ?? [];
+        const typeNode = siblings[siblings.indexOf(dash) + 1];
+        if (typeNode?.isType(parser.PddlTokenType.Other)) {
+            usedTypes.push(typeNode.getToken().tokenText.toLowerCase());
+        } else if (typeNode?.isType(parser.PddlTokenType.OpenBracket)) {
+            // (either t1 t2)
+            typeNode.getNonWhitespaceNonCommentChildren()
+                .forEach(node => usedTypes.push(node.getToken().tokenText.toLowerCase()));
+        }
+    });
+
+    context.problemFiles.forEach(problemInfo => getObjects(problemInfo)
+        .forEach(object => usedTypes.push(...object.types.map(type => type.toLowerCase()))));
+
+    return getTypedNames(context.domainInfo.syntaxTree, ':types')
+        .filter(type => type.name.toLowerCase() !== OBJECT && !usedTypes.includes(type.name.toLowerCase()))
+        .map(type => context.createProblem(type.node, `Unused type ${type.name}`));
+}
+
+/**
+ * Only the requirements, whose use can be detected in the domain and its problem files, are checked.
+ */
+function findUnneededRequirements(context: DomainLintContext): LintProblem[] {
+    const defineNode = context.getDefineNode();
+    const requirementsNode = defineNode?.getFirstOpenBracket(':requirements');
+    if (!defineNode || !requirementsNode) { return []; }
+
+    const structures = context.getStructureNodes();
+    const conditions = ([] as parser.PddlSyntaxNode[]).concat(
+        ...structures.map(structure => getConditions(structure)),
+        defineNode.getKeywordOpenBrackets('derived'),
+        ...context.problemFiles.map(problemInfo => [problemInfo.syntaxTree.getDefineNode()?.getFirstOpenBracket(':goal')].filter(goal => !!goal).map(goal => goal!)));
+    const effects = structures.map(structure => getSection(structure, 'effect')).filter(effect => !!effect).map(effect => effect!);
+    const durations = structures.map(structure => getSection(structure, 'duration')).filter(duration => !!duration).map(duration => duration!);
+    const functions = getTypedNames(context.domainInfo.syntaxTree, ':functions');
+
+    const usesOperator = (scopes: parser.PddlSyntaxNode[], ...operators: string[]): boolean =>
+        containsNode(scopes, node => operators.includes(getHeadName(node) ?? ''));
+    const usesTime = (): boolean => containsNode([defineNode], node => node.isType(parser.PddlTokenType.Other) && node.getToken().tokenText === '#t');
+
+    const isNeeded: { [requirement: string]: () => boolean } = {
+        ':typing': () => containsNode([defineNode], node => node.isType(parser.PddlTokenType.Dash)),
+        ':negative-preconditions': () => usesOperator(conditions, 'not'),
+        ':disjunctive-preconditions': () => usesOperator(conditions, 'or', 'imply'),
+        ':existential-preconditions': () => usesOperator(conditions, 'exists'),
+        ':universal-preconditions': () => usesOperator(conditions, 'forall'),
+        ':quantified-preconditions': () => usesOperator(conditions, 'exists', 'forall'),
+        ':equality': () => containsNode(conditions, isObjectEquality),
+        ':conditional-effects': () => usesOperator(effects, 'when', 'forall'),
+        ':durative-actions': () => structures.some(structure => /durative-action$/i.test(structure.getToken().tokenText)),
+        ':duration-inequalities': () => usesOperator(durations, '<=', '>=', 'and'),
+        ':numeric-fluents': () => functions.length > 0,
+        ':fluents': () => functions.length > 0,
+        ':object-fluents': () => functions.some(f => !f.types.includes(NUMBER)),
+        ':action-costs': () => functions.some(f => f.name.toLowerCase() === 'total-cost'),
+        ':derived-predicates': () => defineNode.getKeywordOpenBrackets('derived').length > 0,
+        ':time': () => structures.some(structure => /(process|event)$/i.test(structure.getToken().tokenText)) || usesTime(),
+        ':continuous-effects': () => usesTime(),
+    };
+
+    return requirementsNode.getNonWhitespaceNonCommentChildren()
+        .filter(node => node.isType(parser.PddlTokenType.Keyword))
+        .filter(node => {
+            const check = isNeeded[node.getToken().tokenText.toLowerCase()];
+            return check && !check();
+        })
+        .map(node => context.createProblem(node, `Requirement ${node.getToken().tokenText} is declared, but not needed`));
+}
+
+/**
+ * @returns the `:keyword` node incl. the bracket following it e.g. `:effect (and ...)`
+ */
+function getSection(structure: parser.PddlSyntaxNode, keyword: string): parser.PddlSyntaxNode | undefined {
+    return structure.getFirstChild(parser.PddlTokenType.Keyword, new RegExp(`^:${keyword}$`, 'i'));
+}
+
+/**
+ * @returns `:precondition` of instantaneous actions, processes and events or `:condition` of durative actions
+ */
+function getConditions(structure: parser.PddlSyntaxNode): parser.PddlSyntaxNode[] {
+    return [getSection(structure, 'precondition'), getSection(structure, 'condition')]
+        .filter(condition => !!condition)
+        .map(condition => condition!);
+}
+
+function getStructureName(structure: parser.PddlSyntaxNode): string {
+    return structure.getNonWhitespaceNonCommentChildren()[0]?.getToken().tokenText ?? '';
+}
+
+/**
+ * @returns lower-case name of the predicate or operator e.g. `at` in `(at ?t ?l)`, or `not` in `(not ...)`
+ */
+function getHeadName(node: parser.PddlSyntaxNode): string | undefined {
+    if (node.isType(parser.PddlTokenType.OpenBracketOperator)) {
+        return node.getToken().tokenText.substring(1).trim().replace(/\s+/g, ' ').toLowerCase();
+    }
+    else if (node.isType(parser.PddlTokenType.OpenBracket)) {
+        const nameNode = node.getNonWhitespaceNonCommentChildren()[0];
+        return nameNode?.isType(parser.PddlTokenType.Other) ? nameNode.getToken().tokenText.toLowerCase() : undefined;
+    }
+    return undefined;
+}
+
+function toAtom(node: parser.PddlSyntaxNode): Atom {
+    const name = getHeadName(node) ?? '';
+    const argumentNodes = node.getNonWhitespaceNonCommentChildren().slice(node.isType(parser.PddlTokenType.OpenBracket) ? 1 : 0);
+    const timeNode = node.findAncestor(parser.PddlTokenType.OpenBracketOperator, /^\(\s*(at start|at end|over all)$/i);
+    const parent = node.getParent();
+
+    return {
+        node,
+        name,
+        key: `(${[name].concat(argumentNodes.map(argumentNode => argumentNode.getText().toLowerCase())).join(' ')})`,
+        negated: !!parent && getHeadName(parent) === 'not',
+        time: timeNode ? getHeadName(timeNode) ?? '' : '',
+        conditional: !!node.findAncestor(parser.PddlTokenType.OpenBracketOperator, /^\(\s*(when|forall)$/i),
+    };
+}
+
+/**
+ * @returns true for `(= ?a ?b)` comparing objects, as opposed to numeric expressions e.g. `(= (f) 1)`
+ */
+function isObjectEquality(node: parser.PddlSyntaxNode): boolean {
+    return getHeadName(node) === '=' && node.getNonWhitespaceNonCommentChildren().every(argumentNode =>
+        argumentNode.isType(parser.PddlTokenType.Parameter) ||
+        argumentNode.isType(parser.PddlTokenType.Other) && isNaN(Number(argumentNode.getToken().tokenText)));
+}
+
+function containsNode(scopes: parser.PddlSyntaxNode[], test: (node: parser.PddlSyntaxNode) => boolean): boolean {
+    let found = false;
+    scopes.forEach(scope => scope.getChildrenRecursively(test, () => found = true));
+    return found;
+}
+
+function isNestedIn(node: parser.PddlSyntaxNode, ancestor: parser.PddlSyntaxNode): boolean {
+    return node.getStart() >= ancestor.getStart() && node.getEnd() <= ancestor.getEnd();
+}
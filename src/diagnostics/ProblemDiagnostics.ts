@@ -0,0 +1,201 @@
+/* --------------------------------------------------------------------------------------------
+* Copyright (c) Jan Dolejsi. All rights reserved.
+* Licensed under the MIT License. See License.txt in the project root for license information.
+* ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { FileInfo, DomainInfo, ProblemInfo, Variable, parser } from 'pddl-workspace';
+import { CodePddlWorkspace } from "../workspace/CodePddlWorkspace";
+import { PddlWorkspace } from 'pddl-workspace';
+import { languages, DiagnosticCollection, Diagnostic, DiagnosticSeverity, Disposable } from "vscode";
+import { PDDL } from 'pddl-workspace';
+import { toRange, toUri } from "../utils";
+import { TypedName, NUMBER, getConstants, getObjects, getParameters, getTypedNames, isSubtypeOf } from '../symbols/TypedNames';
+
+export const UNDECLARED_OBJECT = 'undeclared-object';
+export const DUPLICATE_OBJECT = 'duplicate-object';
+export const TYPE_MISMATCH = 'type-mismatch';
+export const WRONG_ARITY = 'wrong-arity';
+export const NON_NUMERIC_VALUE = 'non-numeric-value';
+
+/** Problem file sections, where the objects are used as predicate and function arguments. */
+const PROBLEM_SECTIONS = [':init', ':goal'];
+
+/**
+ * Problem file diagnostics, which do not need the external parser: undeclared and duplicate objects,
+ * argument types and count not matching the predicate/function declaration and numeric fluents initialized with non-numbers.
+ */
+export class ProblemDiagnostics implements Disposable {
+    diagnosticCollection: DiagnosticCollection;
+
+    private readonly onFileUpdated = (fileInfo: FileInfo): void => {
+        if (fileInfo.isProblem()) {
+            this.validateProblem(fileInfo as ProblemInfo);
+        }
+        else if (fileInfo.isDomain()) {
+            // incl. the problem files explicitly associated to the domain, but not those associated to another domain of the same name
+            this.codePddlWorkspace.pddlWorkspace.getAllFilesIf<ProblemInfo>(problemInfo => problemInfo.isProblem()
+                && this.codePddlWorkspace.pddlWorkspace.getDomainFileFor(problemInfo)?.fileUri.toString() === fileInfo.fileUri.toString())
+                .forEach(problemInfo => this.validateProblem(problemInfo));
+        }
+    };
+
+    constructor(private readonly codePddlWorkspace: CodePddlWorkspace) {
+        this.diagnosticCollection = languages.createDiagnosticCollection(PDDL+'3');
+        codePddlWorkspace.pddlWorkspace.on(PddlWorkspace.UPDATED, this.onFileUpdated);
+    }
+
+    dispose(): void {
+        this.codePddlWorkspace.pddlWorkspace.removeListener(PddlWorkspace.UPDATED, this.onFileUpdated);
+        this.diagnosticCollection.dispose();
+    }
+
+    validateProblem(problemInfo: ProblemInfo): void {
+        const domainInfo = this.codePddlWorkspace.pddlWorkspace.getDomainFileFor(problemInfo);
+        if (!domainInfo) {
+            this.diagnosticCollection.delete(toUri(problemInfo.fileUri));
+            return;
+        }
+
+        const validator = new ProblemValidator(problemInfo, domainInfo);
+        this.diagnosticCollection.set(toUri(problemInfo.fileUri), validator.validate());
+    }
+}
+
+class ProblemValidator {
+    private readonly diagnostics: Diagnostic[] = [];
+    /** Objects and constants by their lower-case name. */
+    private readonly declaredObjects = new Map<string, TypedName>();
+    /** Memoized type compatibility by `type<supertype`. */
+    private readonly subtypes = new Map<string, boolean>();
+    /** Lower-case names of the functions of the `number` type (as opposed to object fluents). */
+    private readonly numericFunctions: string[];
+
+    constructor(private readonly problemInfo: ProblemInfo, private readonly domainInfo: DomainInfo) {
+        this.numericFunctions = getTypedNames(domainInfo.syntaxTree, ':functions')
+            .filter(f => f.types.includes(NUMBER))
+            .map(f => f.name.toLowerCase());
+    }
+
+    validate(): Diagnostic[] {
+        this.validateObjects();
+
+        PROBLEM_SECTIONS.forEach(sectionName => {
+            const sectionNode = this.problemInfo.syntaxTree.getDefineNode()?.getFirstOpenBracket(sectionName);
+            // predicates named `at` are tokenized as operators
+            sectionNode?.getChildrenRecursively(node => parser.isOpenBracket(node.getToken()), atom => this.validateAtom(atom));
+        });
+
+        const initNode = this.problemInfo.syntaxTree.getDefineNode()?.getFirstOpenBracket(':init');
+        initNode?.getChildrenRecursively(node => node.isType(parser.PddlTokenType.OpenBracketOperator) && /^\(\s*=$/.test(node.getToken().tokenText),
+            assignment => this.validateNumericAssignment(assignment));
+
+        return this.diagnostics;
+    }
+
+    private validateObjects(): void {
+        const constants = getConstants(this.domainInfo);
+        constants.forEach(constant => this.declaredObjects.set(constant.name.toLowerCase(), constant));
+
+        getObjects(this.problemInfo).forEach(object => {
+            const existing = this.declaredObjects.get(object.name.toLowerCase());
+            if (!existing) {
+                this.declaredObjects.set(object.name.toLowerCase(), object);
+            }
+            else if (constants.includes(existing)) {
+                this.addDiagnostic(object.node, `Object ${object.name} is already declared as a domain constant`, DUPLICATE_OBJECT);
+            }
+            else {
+                this.addDiagnostic(object.node, `Duplicate object ${object.name}`, DUPLICATE_OBJECT);
+            }
+        });
+    }
+
+    private validateAtom(atom: parser.PddlSyntaxNode): void {
+        const children = atom.getNonWhitespaceNonCommentChildren();
+        let name: string;
+        let argumentNodes: parser.PddlSyntaxNode[];
+        if (atom.isType(parser.PddlTokenType.OpenBracketOperator)) {
+            // e.g. `(and`, `(=`, but also `(at`
+            name = atom.getToken().tokenText.substring(1).trim();
+            argumentNodes = children;
+        }
+        else if (children[0]?.isType(parser.PddlTokenType.Other)) {
+            name = children[0].getToken().tokenText;
+            argumentNodes = children.slice(1);
+        }
+        else {
+            return;
+        }
+
+        // timed initial literal e.g. `(at 10 (truck-at truck1 depot))`, its nested atom is validated separately
+        if (name.toLowerCase() === 'at' && argumentNodes.length && isNumber(argumentNodes[0])) { return; }
+
+        const variable = this.findVariable(name);
+        if (!variable) { return; }
+
+        const parameters = getParameters(variable);
+        if (argumentNodes.length !== parameters.length) {
+            this.addDiagnostic(atom, `(${variable.declaredName}) expects ${parameters.length} argument(s), but has ${argumentNodes.length}`, WRONG_ARITY);
+        }
+
+        argumentNodes.slice(0, parameters.length).forEach((argumentNode, index) => {
+            // parameters of the quantified goals and nested expressions are not objects
+            if (!argumentNode.isType(parser.PddlTokenType.Other) || isNumber(argumentNode)) { return; }
+
+            const objectName = argumentNode.getToken().tokenText;
+            const parameter = parameters[index];
+            const object = this.declaredObjects.get(objectName.toLowerCase());
+
+            if (!object) {
+                this.addDiagnostic(argumentNode, `Undeclared object: ${objectName}. Expected type: ${parameter.types[0]}`, UNDECLARED_OBJECT);
+            }
+            else if (!this.isAssignable(object.types, parameter.types)) {
+                this.addDiagnostic(argumentNode,
+                    `Type mismatch: ${objectName} is ${object.types.join(' | ')}, but ${parameter.name} of (${variable.name}) expects ${parameter.types.join(' | ')}`,
+                    TYPE_MISMATCH);
+            }
+        });
+    }
+
+    private validateNumericAssignment(assignment: parser.PddlSyntaxNode): void {
+        const [functionNode, valueNode] = assignment.getNonWhitespaceNonCommentChildren();
+        if (!functionNode?.isType(parser.PddlTokenType.OpenBracket)) { return; }
+
+        const functionName = functionNode.getNonWhitespaceNonCommentChildren()[0]?.getToken().tokenText.toLowerCase();
+        if (functionName && this.numericFunctions.includes(functionName) && !(valueNode && isNumber(valueNode))) {
+            this.addDiagnostic(valueNode ?? assignment,
+                `Numeric fluent ${functionNode.getText()} must be initialized with a number` + (valueNode ? `, not ${valueNode.getText()}` : ''),
+                NON_NUMERIC_VALUE);
+        }
+    }
+
+    private findVariable(name: string): Variable | undefined {
+        return this.domainInfo.getPredicates().concat(this.domainInfo.getFunctions(), this.domainInfo.getDerived())
+            .find(variable => variable.name.toLowerCase() === name.toLowerCase());
+    }
+
+    /**
+     * @returns true, if any of the object types (more than one for `(either ...)`) is a subtype of any of the parameter types
+     */
+    private isAssignable(objectTypes: string[], parameterTypes: string[]): boolean {
+        return objectTypes.some(objectType => parameterTypes.some(parameterType => {
+            const key = `${objectType}<${parameterType}`;
+            if (!this.subtypes.has(key)) {
+                this.subtypes.set(key, isSubtypeOf(this.domainInfo, objectType, parameterType));
+            }
+            return this.subtypes.get(key);
+        }));
+    }
+
+    private addDiagnostic(node: parser.PddlSyntaxNode, message: string, code: string): void {
+        const range = toRange(this.problemInfo.getDocumentPositionResolver().nodeToRange(node));
+        const diagnostic = new Diagnostic(range, message, DiagnosticSeverity.Error);
+        diagnostic.code = code;
+        this.diagnostics.push(diagnostic);
+    }
+}
+
+function isNumber(node: parser.PddlSyntaxNode): boolean {
+    return node.isType(parser.PddlTokenType.Other) && !isNaN(Number(node.getToken().tokenText));
+}
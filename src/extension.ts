@@ -35,7 +35,17 @@ import { AssociationProvider } from './workspace/AssociationProvider';
 import { SuggestionProvider } from './symbols/SuggestionProvider';
 import { CodePddlWorkspace } from './workspace/CodePddlWorkspace';
 import { DomainDiagnostics } from './diagnostics/DomainDiagnostics';
+import { ProblemDiagnostics } from './diagnostics/ProblemDiagnostics';
 import { PddlOnTypeFormatter } from './formatting/PddlOnTypeFormatter';
+import { PddlSemanticTokensProvider, PDDL_SEMANTIC_TOKENS_LEGEND } from './symbols/PddlSemanticTokensProvider';
+import { PddlWorkspaceSymbolProvider } from './symbols/PddlWorkspaceSymbolProvider';
+import { PddlTypeHierarchyProvider } from './symbols/PddlTypeHierarchyProvider';
+import { PddlCallHierarchyProvider } from './symbols/PddlCallHierarchyProvider';
+import { VariableUsagesView } from './symbols/VariableUsagesView';
+import { PddlFoldingRangeProvider } from './symbols/PddlFoldingRangeProvider';
+import { PddlSelectionRangeProvider } from './symbols/PddlSelectionRangeProvider';
+import { PddlSignatureHelpProvider } from './completion/PddlSignatureHelpProvider';
+import { PddlInlayHintsProvider } from './symbols/PddlInlayHintsProvider';
 import { PddlCompletionItemProvider } from './completion/PddlCompletionItemProvider';
 import { ProblemInitView } from './modelView/ProblemInitView';
 import { ProblemObjectsView } from './modelView/ProblemObjectsView';
@@ -200,6 +210,22 @@ function activateWithTelemetry(_operationId: string, context: ExtensionContext):
 	registerDocumentFormattingProvider(context, codePddlWorkspace);
 
 	const renameProvider = languages.registerRenameProvider(PDDL, new SymbolRenameProvider(codePddlWorkspace));
+
+	const semanticTokensProvider = new PddlSemanticTokensProvider(codePddlWorkspace);
+	context.subscriptions.push(semanticTokensProvider);
+	context.subscriptions.push(languages.registerDocumentSemanticTokensProvider(PDDL, semanticTokensProvider, PDDL_SEMANTIC_TOKENS_LEGEND));
+	context.subscriptions.push(languages.registerFoldingRangeProvider(PDDL, new PddlFoldingRangeProvider()));
+	context.subscriptions.push(languages.registerSelectionRangeProvider(PDDL, new PddlSelectionRangeProvider()));
+
+	const signatureHelpProvider = new PddlSignatureHelpProvider(codePddlWorkspace);
+	const signatureHelpMetadata = { triggerCharacters: [' ', '('], retriggerCharacters: [' '] };
+	[PDDL, PLAN, HAPPENINGS].forEach(language =>
+		context.subscriptions.push(languages.registerSignatureHelpProvider(language, signatureHelpProvider, signatureHelpMetadata)));
+
+	const inlayHintsProvider = new PddlInlayHintsProvider(context, codePddlWorkspace);
+	context.subscriptions.push(inlayHintsProvider);
+	[PDDL, PLAN, HAPPENINGS].forEach(language =>
+		context.subscriptions.push(languages.registerInlayHintsProvider(language, inlayHintsProvider)));
 	
 	if (workspace.getConfiguration("pddl").get<boolean>("modelHierarchy")) {
 		const modelHierarchyProvider = new ModelHierarchyProvider(context, codePddlWorkspace);
@@ -209,6 +235,13 @@ function activateWithTelemetry(_operationId: string, context: ExtensionContext):
 	const symbolInfoProvider = new SymbolInfoProvider(codePddlWorkspace);
 
 	const documentSymbolProvider = languages.registerDocumentSymbolProvider(PDDL, symbolInfoProvider);
+	const workspaceSymbolProvider = new PddlWorkspaceSymbolProvider(codePddlWorkspace);
+	context.subscriptions.push(workspaceSymbolProvider);
+	context.subscriptions.push(languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider));
+	context.subscriptions.push(languages.registerTypeHierarchyProvider(PDDL, new PddlTypeHierarchyProvider(codePddlWorkspace)));
+	context.subscriptions.push(languages.registerCallHierarchyProvider(PDDL, new PddlCallHierarchyProvider(codePddlWorkspace)));
+
+	context.subscriptions.push(new VariableUsagesView(context, codePddlWorkspace));
 	const definitionProvider = languages.registerDefinitionProvider(PDDL, symbolInfoProvider);
 	const referencesProvider = languages.registerReferenceProvider(PDDL, symbolInfoProvider);
 	const hoverProvider = languages.registerHoverProvider(PDDL, symbolInfoProvider);
@@ -218,7 +251,9 @@ function activateWithTelemetry(_operationId: string, context: ExtensionContext):
 		planValidator, happeningsValidator);
 
 	// tslint:disable-next-line:no-unused-expression
-	new DomainDiagnostics(codePddlWorkspace);
+	new DomainDiagnostics(context, codePddlWorkspace);
+
+	context.subscriptions.push(new ProblemDiagnostics(codePddlWorkspace));
 
 	// tslint:disable-next-line: no-unused-expression
 	new AssociationProvider(context, codePddlWorkspace);
@@ -230,10 +265,10 @@ function activateWithTelemetry(_operationId: string, context: ExtensionContext):
 	const happeningsHoverProvider = languages.registerHoverProvider(HAPPENINGS, symbolInfoProvider);
 
 	// tslint:disable-next-line:no-unused-expression
-	ptestExplorer = new PTestExplorer(pddlContext, codePddlWorkspace, planning);
+	ptestExplorer = new PTestExplorer(pddlContext, codePddlWorkspace, planning, pddlConfiguration, plannersConfiguration);
 	
 	// tslint:disable-next-line:no-unused-expression
-	new Catalog(context);
+	new Catalog(context, ptestExplorer.manifestGenerator);
 
 	// tslint:disable-next-line:no-unused-expression
 	new PlanningDomainsSessions(context);
@@ -293,8 +328,8 @@ function createAuthentication(pddlConfiguration: PddlConfiguration): Authenticat
 function registerDocumentFormattingProvider(context: ExtensionContext, pddlWorkspace: CodePddlWorkspace): boolean {
 	if (workspace.getConfiguration("pddl").get<boolean>("formatter") && !formattingProvider) {
 		formattingProvider = new PddlFormatProvider();
-		// let formattingProviderDisposable = languages.registerDocumentFormattingEditProvider(PDDL, formattingProvider);
-		// context.subscriptions.push(formattingProviderDisposable);
+		context.subscriptions.push(languages.registerDocumentFormattingEditProvider(PDDL, formattingProvider));
+		context.subscriptions.push(languages.registerDocumentRangeFormattingEditProvider(PDDL, formattingProvider));
 
 		const onTypeFormattingProviderDisposable = languages.registerOnTypeFormattingEditProvider(PDDL, new PddlOnTypeFormatter(pddlWorkspace), '\n');
 		context.subscriptions.push(onTypeFormattingProviderDisposable);
@@ -0,0 +1,463 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { parser } from 'pddl-workspace';
+
+/** Keyword casing style. */
+export type KeywordCase = 'preserve' | 'lowercase' | 'uppercase';
+
+/** PDDL formatting style. */
+export interface PddlFormatterOptions {
+    /** Single level of indentation, e.g. 4 spaces or a tab. */
+    indent: string;
+    /** Width of the tab character, when calculating the line width. */
+    tabSize: number;
+    /** Lists that do not fit on a line (ignoring the indentation) are broken to multiple lines. */
+    maxLineWidth: number;
+    /** Places every `:init` atom on its own line, otherwise they are wrapped at the `maxLineWidth`. */
+    oneAtomPerLineInInit: boolean;
+    /** Casing of the `:` prefixed keywords, e.g. `:action` or `:parameters`. */
+    keywordCase: KeywordCase;
+}
+
+/** Replacement of a part of the document text. */
+export interface FormattedRange {
+    start: number;
+    end: number;
+    newText: string;
+}
+
+interface AtomItem {
+    kind: 'atom';
+    text: string;
+    tokenType: parser.PddlTokenType;
+    /** Number of line breaks preceding this item in the original text. */
+    newLinesBefore: number;
+}
+
+interface CommentItem {
+    kind: 'comment';
+    text: string;
+    newLinesBefore: number;
+}
+
+interface ListItem {
+    kind: 'list';
+    /** Open bracket with the normalized operator, e.g. `(:action` or `(at start` or just `(`. */
+    open: string;
+    items: FormatItem[];
+    newLinesBefore: number;
+}
+
+type FormatItem = AtomItem | CommentItem | ListItem;
+
+interface Line {
+    items: FormatItem[];
+    blankBefore: boolean;
+}
+
+/** Lists, which place every item (or typed group of items) on its own line. */
+const BLOCK_LISTS = ['(define', '(:predicates', '(:functions', '(:types', '(:constants', '(:objects', '(:init'];
+/** Lists, which are always broken to multiple lines (if not empty). */
+const ALWAYS_BROKEN_LISTS = BLOCK_LISTS.concat(['(:action', '(:durative-action', '(:process', '(:event']);
+/** Conjunctions in these contexts are always broken to multiple lines. */
+const CONDITION_CONTEXTS = [':precondition', ':effect', ':condition', '(:goal', '(:constraints'];
+
+/**
+ * Formats PDDL documents based on the syntax tree. Re-indents the text, normalizes whitespace and line breaks
+ * and preserves comments as well as (single) blank lines.
+ */
+export class PddlFormatter {
+
+    constructor(private readonly options: PddlFormatterOptions) {
+    }
+
+    /**
+     * Formats the entire document.
+     * @param text PDDL document text
+     * @returns formatted text, or `undefined` if the brackets are not balanced
+     */
+    format(text: string): string | undefined {
+        const tree = this.parse(text);
+        if (!tree) { return undefined; }
+
+        const items = this.toItems(tree.getRootNode().getChildren());
+        const lines = this.toLines(items, undefined, 0);
+        const formatted = lines
+            .map((line, index) => (index > 0 && line.blankBefore ? '\n' : '') + this.renderLine(line.items, 0, 0))
+            .join('\n');
+
+        return text.endsWith('\n') ? formatted + '\n' : formatted;
+    }
+
+    /**
+     * Formats the entire document and returns only the changed parts, so the cursor and the selection stay in place.
+     * @param text PDDL document text
+     * @returns replacements (empty, if the document is already formatted), or `undefined` if the brackets are not balanced
+     */
+    formatEdits(text: string): FormattedRange[] | undefined {
+        const formattedText = this.format(text);
+        return formattedText === undefined ? undefined : diff(text, formattedText, 0);
+    }
+
+    /**
+     * Formats the `(define ...)` sections intersecting the given range (e.g. `(:action ...)` or `(:init ...)`).
+     * @param text PDDL document text
+     * @param start first character of the range
+     * @param end end of the range
+     * @returns changed parts of the affected sections (of the entire document, if the range only includes the `(define` header),
+     * or `undefined` if the brackets are not balanced
+     */
+    formatSections(text: string, start: number, end: number): FormattedRange[] | undefined {
+        const sections = this.formatWholeSections(text, start, end);
+        if (sections === undefined) {
+            return undefined;
+        }
+        else if (sections.length === 0) {
+            return this.formatEdits(text);
+        }
+        return sections
+            .map(section => diff(text.substring(section.start, section.end), section.newText, section.start))
+            .reduce((edits, sectionEdits) => edits.concat(sectionEdits), []);
+    }
+
+    /**
+     * @returns replacements of the entire sections intersecting the given range
+     */
+    private formatWholeSections(text: string, start: number, end: number): FormattedRange[] | undefined {
+        const tree = this.parse(text);
+        if (!tree) { return undefined; }
+
+        const defineNode = tree.getRootNode().getChildren().find(node => node.isType(parser.PddlTokenType.OpenBracketOperator));
+        if (!defineNode) { return []; }
+
+        return defineNode.getNestedChildren()
+            .filter(node => isOpenBracket(node) && node.getStart() < end && node.getEnd() > start)
+            .map(section => {
+                const sectionItem = this.toItems([section])[0] as ListItem;
+                const lineStart = text.lastIndexOf('\n', section.getStart() - 1) + 1;
+                if (text.substring(lineStart, section.getStart()).trim().length === 0) {
+                    // re-indent the section, if it starts on a new line
+                    return {
+                        start: lineStart,
+                        end: section.getEnd(),
+                        newText: this.options.indent + this.renderList(sectionItem, 1, this.getIndentWidth(1), undefined)
+                    };
+                }
+                else {
+                    return {
+                        start: section.getStart(),
+                        end: section.getEnd(),
+                        newText: this.renderList(sectionItem, 1, this.getWidth(text.substring(lineStart, section.getStart())), undefined)
+                    };
+                }
+            });
+    }
+
+    private parse(text: string): parser.PddlSyntaxTree | undefined {
+        const builder = new parser.PddlSyntaxTreeBuilder(text);
+        if (builder.getOffendingTokens().length > 0) { return undefined; }
+        const tree = builder.getTree();
+
+        let allClosed = true;
+        tree.getRootNode().getChildrenRecursively(node => node instanceof parser.PddlBracketNode && !node.isClosed, () => allClosed = false);
+        return allClosed ? tree : undefined;
+    }
+
+    /** Converts the syntax nodes to format items. Keywords are flattened, so they become siblings of their values. */
+    private toItems(nodes: parser.PddlSyntaxNode[]): FormatItem[] {
+        const items: FormatItem[] = [];
+        let newLinesBefore = 0;
+
+        const collect = (node: parser.PddlSyntaxNode): void => {
+            const token = node.getToken();
+            switch (token.type) {
+                case parser.PddlTokenType.Whitespace:
+                    newLinesBefore += (token.tokenText.match(/\n/g) ?? []).length;
+                    return;
+                case parser.PddlTokenType.Comment:
+                    items.push({ kind: 'comment', text: token.tokenText.trimRight(), newLinesBefore });
+                    break;
+                case parser.PddlTokenType.OpenBracket:
+                case parser.PddlTokenType.OpenBracketOperator:
+                    items.push({ kind: 'list', open: this.normalizeOpenBracket(token.tokenText), items: this.toItems(node.getNestedChildren()), newLinesBefore });
+                    newLinesBefore = 0;
+                    return;
+                case parser.PddlTokenType.Keyword:
+                    items.push({ kind: 'atom', text: this.applyKeywordCase(token.tokenText), tokenType: token.type, newLinesBefore });
+                    newLinesBefore = 0;
+                    node.getNestedChildren().forEach(child => collect(child));
+                    return;
+                default:
+                    items.push({ kind: 'atom', text: token.tokenText.trim(), tokenType: token.type, newLinesBefore });
+            }
+            newLinesBefore = 0;
+        };
+
+        nodes.forEach(node => collect(node));
+        return items;
+    }
+
+    private normalizeOpenBracket(tokenText: string): string {
+        const operator = tokenText.substr(1).trim().replace(/\s+/g, ' ');
+        return '(' + (operator.startsWith(':') ? this.applyKeywordCase(operator) : operator);
+    }
+
+    private applyKeywordCase(keyword: string): string {
+        switch (this.options.keywordCase) {
+            case 'lowercase':
+                return keyword.toLowerCase();
+            case 'uppercase':
+                return keyword.toUpperCase();
+            default:
+                return keyword;
+        }
+    }
+
+    /**
+     * Renders the list starting at the given column.
+     * @param list list to render
+     * @param level indentation level of the line, where the list starts
+     * @param column column, where the list starts
+     * @param context preceding keyword (e.g. `:effect`) or the parent list operator
+     */
+    private renderList(list: ListItem, level: number, column: number, context: string | undefined): string {
+        const flatText = hasComments(list) ? undefined : this.renderFlat(list);
+        if (flatText !== undefined && !this.mustBreak(list, context) &&
+            (list.items.every(item => item.kind !== 'list') || column + flatText.length <= this.options.maxLineWidth)) {
+            return flatText;
+        }
+
+        const open = list.open.toLowerCase();
+        const headCount = this.getHeadCount(open, list.items);
+        const head = list.items.slice(0, headCount);
+        const body = list.items.slice(headCount);
+
+        let text = list.open + head.map(item => ' ' + this.renderFlat(item)).join('');
+
+        // hug the single nested list e.g. `(:goal (and`
+        if (body.length === 1 && body[0].kind === 'list' && headCount === 0 && list.open !== '(' && !BLOCK_LISTS.includes(open)) {
+            text += ' ';
+            return text + this.renderList(body[0], level, column + text.length, open) + ')';
+        }
+
+        const lines = this.toLines(body, open, level + 1);
+        if (lines.length > 0 && lines[0].blankBefore === false && lines[0].items[0].kind === 'comment' && lines[0].items[0].newLinesBefore === 0) {
+            // trailing comment after the open bracket
+            text += ' ' + (lines.shift()?.items[0] as CommentItem).text;
+        }
+
+        const indent = this.options.indent.repeat(level + 1);
+        const indentWidth = this.getIndentWidth(level + 1);
+        lines.forEach((line, index) => {
+            text += '\n' + ((index > 0 || head.length > 0) && line.blankBefore ? '\n' : '') + indent + this.renderLine(line.items, level + 1, indentWidth, open);
+        });
+
+        return text + '\n' + this.options.indent.repeat(level) + ')';
+    }
+
+    private renderFlat(item: FormatItem): string {
+        switch (item.kind) {
+            case 'list': {
+                const inner = item.items.map(child => this.renderFlat(child)).join(' ');
+                return item.open === '(' ? `(${inner})` : item.open + (inner.length ? ' ' + inner : '') + ')';
+            }
+            default:
+                return item.text;
+        }
+    }
+
+    /** Renders items placed on one line. The last list may span multiple lines. */
+    private renderLine(items: FormatItem[], level: number, column: number, parentOpen?: string): string {
+        let text = '';
+        items.forEach((item, index) => {
+            if (index > 0) { text += ' '; }
+            const lineStart = text.lastIndexOf('\n') + 1;
+            const itemColumn = lineStart > 0 ? this.getWidth(text.substring(lineStart)) : column + text.length;
+            if (item.kind === 'list') {
+                const previous = items[index - 1];
+                const context = previous?.kind === 'atom' && previous.tokenType === parser.PddlTokenType.Keyword ? previous.text.toLowerCase() : parentOpen;
+                text += this.renderList(item, level, itemColumn, context);
+            }
+            else {
+                text += item.text;
+            }
+        });
+        return text;
+    }
+
+    /**
+     * Groups list items to lines.
+     * @param items list items
+     * @param open list open bracket and operator (lower case)
+     * @param level indentation level of the lines
+     */
+    private toLines(items: FormatItem[], open: string | undefined, level: number): Line[] {
+        const lines: Line[] = [];
+        const typedList = items.some(item => item.kind === 'atom' && item.tokenType === parser.PddlTokenType.Dash);
+        const fillLines = (open === '(:init' && !this.options.oneAtomPerLineInInit) || (open === undefined ? false : !typedList && items.every(item => item.kind === 'atom'));
+        const availableWidth = this.options.maxLineWidth - this.getIndentWidth(level);
+        let current: Line | undefined;
+
+        items.forEach(item => {
+            if (item.kind === 'comment') {
+                if (item.newLinesBefore === 0 && current) {
+                    current.items.push(item);
+                }
+                else {
+                    lines.push({ items: [item], blankBefore: item.newLinesBefore > 1 });
+                }
+                // nothing may follow the comment on the same line
+                current = undefined;
+                return;
+            }
+
+            if (current && this.continuesLine(current.items, item, typedList, fillLines, availableWidth)) {
+                current.items.push(item);
+            }
+            else {
+                current = { items: [item], blankBefore: item.newLinesBefore > 1 };
+                lines.push(current);
+            }
+        });
+
+        return lines;
+    }
+
+    private continuesLine(lineItems: FormatItem[], item: FormatItem, typedList: boolean, fillLines: boolean, availableWidth: number): boolean {
+        const previous = lineItems[lineItems.length - 1];
+        const isKeyword = (i: FormatItem): boolean => i.kind === 'atom' && i.tokenType === parser.PddlTokenType.Keyword;
+
+        if (isKeyword(previous) && !isKeyword(item)) {
+            // keyword and its value e.g. `:parameters (?p)`
+            return true;
+        }
+        else if (typedList) {
+            // `o1 o2 - type` groups, unless too long
+            const dashIndex = lineItems.findIndex(i => i.kind === 'atom' && i.tokenType === parser.PddlTokenType.Dash);
+            const groupComplete = dashIndex > -1 && dashIndex < lineItems.length - 1;
+            const isDash = item.kind === 'atom' && item.tokenType === parser.PddlTokenType.Dash;
+            return !groupComplete && (isDash || previous.kind === 'atom' && previous.tokenType === parser.PddlTokenType.Dash || this.fits(lineItems, item, availableWidth));
+        }
+        else if (fillLines) {
+            return !hasComments(item) && this.fits(lineItems, item, availableWidth);
+        }
+        else {
+            return false;
+        }
+    }
+
+    private fits(lineItems: FormatItem[], item: FormatItem, availableWidth: number): boolean {
+        if (lineItems.some(i => i.kind !== 'atom' && hasComments(i)) || hasComments(item)) { return false; }
+        const lineWidth = lineItems.concat([item]).map(i => this.renderFlat(i).length).reduce((sum, width) => sum + width + 1, -1);
+        return lineWidth <= availableWidth;
+    }
+
+    private mustBreak(list: ListItem, context: string | undefined): boolean {
+        const open = list.open.toLowerCase();
+        if (list.items.length === 0) {
+            return false;
+        }
+        else if (ALWAYS_BROKEN_LISTS.includes(open)) {
+            return true;
+        }
+        else if (open === '(and') {
+            return list.items.length > 1 && context !== undefined && CONDITION_CONTEXTS.includes(context);
+        }
+        else if (open === '(:goal' || open === '(:constraints') {
+            return list.items.some(item => item.kind === 'list' && this.mustBreak(item, open));
+        }
+        return false;
+    }
+
+    /** Number of items kept on the same line as the open bracket. */
+    private getHeadCount(open: string, items: FormatItem[]): number {
+        const maxHeadCount = ['(define', '(:action', '(:durative-action', '(:process', '(:event', '(:derived', '(forall', '(exists'].includes(open) ? 1 : 0;
+        return items.slice(0, maxHeadCount).every(item => item.kind !== 'comment') ? Math.min(maxHeadCount, items.length) : 0;
+    }
+
+    private getIndentWidth(level: number): number {
+        return level * this.getWidth(this.options.indent);
+    }
+
+    /** Width of the text, when tabs are expanded. */
+    private getWidth(text: string): number {
+        return text.replace(/\t/g, ' '.repeat(this.options.tabSize)).length;
+    }
+}
+
+/**
+ * Finds the minimal replacements turning the text to the formatted text, assuming they mostly differ in whitespace.
+ * @param text original text
+ * @param formattedText formatted text
+ * @param offset offset of the `text` in the document
+ */
+function diff(text: string, formattedText: string, offset: number): FormattedRange[] {
+    const edits: FormattedRange[] = [];
+    const isWhitespace = (char: string): boolean => /\s/.test(char);
+    const skip = (s: string, from: number, predicate: (char: string) => boolean): number => {
+        let index = from;
+        while (index < s.length && predicate(s[index])) { index++; }
+        return index;
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < text.length || j < formattedText.length) {
+        let nextI: number;
+        let nextJ: number;
+        if (i < text.length && j < formattedText.length && text[i] === formattedText[j] && !isWhitespace(text[i])) {
+            i++;
+            j++;
+            continue;
+        }
+        else if ((i < text.length && isWhitespace(text[i])) || (j < formattedText.length && isWhitespace(formattedText[j]))) {
+            // compare the entire whitespace runs
+            nextI = skip(text, i, isWhitespace);
+            nextJ = skip(formattedText, j, isWhitespace);
+        }
+        else if (i < text.length && j < formattedText.length) {
+            // e.g. keyword case changed, replace the rest of the word
+            nextI = skip(text, i, char => !isWhitespace(char));
+            nextJ = skip(formattedText, j, char => !isWhitespace(char));
+        }
+        else {
+            nextI = text.length;
+            nextJ = formattedText.length;
+        }
+
+        const oldText = text.substring(i, nextI);
+        const newText = formattedText.substring(j, nextJ);
+        if (oldText !== newText) {
+            // trim the common prefix and suffix e.g. only insert indentation after the existing line break
+            let prefix = 0;
+            while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) { prefix++; }
+            let suffix = 0;
+            while (suffix < oldText.length - prefix && suffix < newText.length - prefix
+                && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) { suffix++; }
+            edits.push({ start: offset + i + prefix, end: offset + nextI - suffix, newText: newText.substring(prefix, newText.length - suffix) });
+        }
+        i = nextI;
+        j = nextJ;
+    }
+
+    return edits;
+}
+
+function isOpenBracket(node: parser.PddlSyntaxNode): boolean {
+    return node.isType(parser.PddlTokenType.OpenBracket) || node.isType(parser.PddlTokenType.OpenBracketOperator);
+}
+
+function hasComments(item: FormatItem): boolean {
+    switch (item.kind) {
+        case 'comment':
+            return true;
+        case 'list':
+            return item.items.some(child => hasComments(child));
+        default:
+            return false;
+    }
+}
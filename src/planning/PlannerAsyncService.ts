@@ -125,6 +125,14 @@ export class PlannerAsyncService extends PlannerService {
         console.log(_timedOut);
     }
 
+    /**
+     * Parses the streamed plan. It has the same structure as the elements of the `/request` response `plans` array.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    processStreamedPlan(planJson: any, planParser: parser.PddlPlannerOutputParser): Promise<void> {
+        return this.parsePlan(planJson, planParser);
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     async parsePlan(plan: any, planParser: parser.PddlPlannerOutputParser): Promise<void> {
         const makespan: number = plan['makespan'];
@@ -6,10 +6,6 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-import {
-    workspace, window
-} from 'vscode';
-
 import * as process from 'child_process';
 import treeKill = require('tree-kill');
 
@@ -24,7 +20,16 @@ export class PlannerExecutable extends planner.Planner {
 
     static readonly DEFAULT_SYNTAX = "$(planner) $(options) $(domain) $(problem)";
 
-    constructor(plannerPath: string, private plannerOptions: string, private plannerSyntax: string, private workingDirectory: string) {
+    /**
+     * @param plannerPath planner executable path or command
+     * @param plannerOptions planner command-line options
+     * @param plannerSyntax command-line template
+     * @param workingDirectory working directory for the planner process
+     * @param terminalLauncher when defined, the planner command is handed over to this callback (e.g. to run in a terminal window)
+     * instead of being executed as a child process
+     */
+    constructor(plannerPath: string, private plannerOptions: string, private plannerSyntax: string, private workingDirectory: string,
+        private terminalLauncher?: (command: string, workingDirectory: string) => void) {
         super(plannerPath);
     }
 
@@ -46,14 +51,9 @@ export class PlannerExecutable extends planner.Planner {
         const thisPlanner = this;
         super.planningProcessKilled = false;
 
-        if (workspace.getConfiguration("pddlPlanner").get("executionTarget") === "Terminal") {
-            return new Promise<Plan[]>((resolve) => {
-                const terminal = window.createTerminal({ name: "Planner output", cwd: thisPlanner.workingDirectory });
-                terminal.sendText(command, true);
-                terminal.show(true);
-                const plans: Plan[] = [];
-                resolve(plans);
-            });
+        if (this.terminalLauncher) {
+            this.terminalLauncher(command, this.workingDirectory);
+            return [];
         }
 
         return new Promise<Plan[]>(function (resolve, reject) {
@@ -8,9 +8,14 @@ import * as request from 'request';
 import { planner, Plan, ProblemInfo, DomainInfo, parser, PlanStep } from 'pddl-workspace';
 import { Authentication } from '../util/Authentication';
 import { window } from 'vscode';
+import { StringDecoder } from 'string_decoder';
+import { StreamedResponseParser, StreamedMessage, isStreamedResponse, EVENT_STREAM, NDJSON } from './StreamedResponseParser';
 
 export abstract class PlannerService extends planner.Planner {
 
+    // this property stores the reference to the HTTP request, while planning is in progress
+    private activeRequest: request.Request | undefined;
+
     constructor(plannerPath: string, private authentication?: Authentication) {
         super(plannerPath);
     }
@@ -24,15 +29,24 @@ export abstract class PlannerService extends planner.Planner {
     abstract processServerResponseBody(responseBody: any, planParser: parser.PddlPlanParser, parent: planner.PlannerResponseHandler,
         resolve: (plans: Plan[]) => void, reject: (error: Error) => void): void;
 
-    async plan(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo, planParser: parser.PddlPlanParser, parent: planner.PlannerResponseHandler): Promise<Plan[]> {
+    /**
+     * Parses one plan streamed by the service (the payload of the `plan` message).
+     * @param planJson plan in the service-specific format
+     * @param planParser planner output parser (notifies the plan listener)
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    abstract processStreamedPlan(planJson: any, planParser: parser.PddlPlannerOutputParser): Promise<void>;
+
+    async plan(domainFileInfo: DomainInfo, problemFileInfo: ProblemInfo, planParser: parser.PddlPlannerOutputParser, parent: planner.PlannerResponseHandler): Promise<Plan[]> {
         parent.handleOutput(`Planning service: ${this.plannerPath}\nDomain: ${domainFileInfo.name}, Problem: ${problemFileInfo.name}\n`);
 
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let requestHeader: any = {};
+        const requestHeader: any = {
+            // services that support it may stream the planner output and intermediate plans
+            "Accept": `application/json, ${NDJSON}, ${EVENT_STREAM}`
+        };
         if (this.authentication && this.authentication.getSToken() !== undefined) {
-            requestHeader = {
-                "Authorization": "Bearer " + this.authentication.getSToken()
-            };
+            requestHeader["Authorization"] = "Bearer " + this.authentication.getSToken();
         }
 
         if (parent.providePlannerOptions({ domain: domainFileInfo, problem: problemFileInfo }).some(op => op.length)) {
@@ -46,12 +60,21 @@ export abstract class PlannerService extends planner.Planner {
         const timeoutInSec = this.getTimeout();
 
         const that = this;
+        super.planningProcessKilled = false;
+
         return new Promise<Plan[]>(function (resolve, reject) {
 
-            request.post({ url: url, headers: requestHeader, body: requestBody, json: true, timeout: timeoutInSec * 1000 * 1.1 }, (err, httpResponse, responseBody) => {
+            let streamedResponse: StreamedResponse | undefined;
+
+            that.activeRequest = request.post({ url: url, headers: requestHeader, body: requestBody, json: true, timeout: timeoutInSec * 1000 * 1.1 }, (err, httpResponse, responseBody) => {
+                that.activeRequest = undefined;
 
                 if (err !== null) {
-                    reject(err);
+                    if (that.planningProcessKilled) {
+                        resolve(planParser.getPlans());
+                    } else {
+                        reject(err);
+                    }
                     return;
                 }
 
@@ -79,11 +102,55 @@ export abstract class PlannerService extends planner.Planner {
                     return;
                 }
 
+                if (streamedResponse) {
+                    streamedResponse.end().then(resolve, reject);
+                    return;
+                }
+
                 that.processServerResponseBody(responseBody, planParser, parent, resolve, reject);
             });
+
+            that.activeRequest.on('response', response => {
+                const contentType = response.headers['content-type'];
+                if (response.statusCode <= 202 && contentType && isStreamedResponse(contentType)) {
+                    streamedResponse = new StreamedResponse(contentType, that, planParser, parent);
+                }
+            });
+            // the complete response body is also buffered by `request`, but it is not used for streamed responses
+            that.activeRequest.on('data', (chunk: Buffer | string) => streamedResponse?.append(chunk));
         });
     }
 
+    stop(): void {
+        super.stop();
+        this.activeRequest?.abort();
+    }
+
+    /**
+     * Processes one message of the streamed response.
+     */
+    async processStreamedMessage(message: StreamedMessage, planParser: parser.PddlPlannerOutputParser, parent: planner.PlannerResponseHandler): Promise<void> {
+        switch (message.type) {
+            case 'output': {
+                const text: string = typeof message.data === 'string' ? message.data : message.data['text'] ?? '';
+                parent.handleOutput(text.endsWith('\n') ? text : text + '\n');
+                break;
+            }
+            case 'plan': {
+                await this.processStreamedPlan(message.data, planParser);
+                const plans = planParser.getPlans();
+                if (plans.length > 0) { parent.handleOutput(plans[plans.length - 1].getText() + '\n'); }
+                break;
+            }
+            case 'error':
+                throw new Error(typeof message.data === 'string' ? message.data : message.data['message'] ?? JSON.stringify(message.data));
+            case 'end':
+                break;
+            default:
+                parent.handleOutput(`Ignoring planning service message of type ${message.type}.\n`);
+        }
+    }
+
     /** Gets timeout in seconds. */
     abstract getTimeout(): number;
 
@@ -101,4 +168,42 @@ export abstract class PlannerService extends planner.Planner {
         }
         planParser.onPlanFinished();
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Streamed planning service response. The messages are processed in the order they were received.
+ */
+class StreamedResponse {
+    private readonly parser: StreamedResponseParser;
+    private readonly decoder = new StringDecoder('utf8');
+    private processing: Promise<void> = Promise.resolve();
+    private error: Error | undefined;
+
+    constructor(contentType: string, private readonly service: PlannerService,
+        private readonly planParser: parser.PddlPlannerOutputParser, private readonly parent: planner.PlannerResponseHandler) {
+        this.parser = new StreamedResponseParser(contentType, message => {
+            this.processing = this.processing
+                .then(() => this.service.processStreamedMessage(message, this.planParser, this.parent))
+                .catch(err => { this.error = this.error ?? err; });
+        });
+    }
+
+    append(chunk: Buffer | string): void {
+        // the decoder keeps multi-byte characters split between chunks
+        this.parser.append(typeof chunk === 'string' ? chunk : this.decoder.write(chunk));
+    }
+
+    /**
+     * Processes the remaining messages.
+     * @returns all plans received
+     */
+    async end(): Promise<Plan[]> {
+        this.parser.append(this.decoder.end());
+        this.parser.end();
+        await this.processing;
+        if (this.error) { throw this.error; }
+        const plans = this.planParser.getPlans();
+        if (plans.length === 0) { this.parent.handleOutput('No plan found.\n'); }
+        return plans;
+    }
+}
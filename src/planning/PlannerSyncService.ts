@@ -80,4 +80,10 @@ export class PlannerSyncService extends PlannerService {
 
         resolve(plans);
     }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    async processStreamedPlan(planJson: any, planParser: parser.PddlPlannerOutputParser): Promise<void> {
+        // the plan steps are sent either as an array, or in the `plan` property (same as in the `/solve` response `result`)
+        this.parsePlanSteps(Array.isArray(planJson) ? planJson : planJson['plan'], planParser);
+    }
 }
\ No newline at end of file
@@ -13,22 +13,25 @@ export enum PlanningOutcome { SUCCESS, FAILURE, KILLED }
  */
 export class PlanningResult {
     constructor(public readonly outcome: PlanningOutcome, public readonly plans: Plan[],
-        public readonly elapsedTime: number, public readonly error?: string) { }
+        public readonly elapsedTime: number, public readonly error?: string,
+        public readonly plannerTitle?: string) { }
 
     /**
      * Creates the result instance for the case of successful planner execution.
      * @param plans plans
+     * @param plannerTitle title of the planner configuration used
      */
-    static success(plans: Plan[], elapsedTime: number): PlanningResult{
-        return new PlanningResult(PlanningOutcome.SUCCESS, plans, elapsedTime, undefined);
+    static success(plans: Plan[], elapsedTime: number, plannerTitle?: string): PlanningResult{
+        return new PlanningResult(PlanningOutcome.SUCCESS, plans, elapsedTime, undefined, plannerTitle);
     }
 
     /**
      * Creates the result instance for the case of planner failure.
      * @param error error
+     * @param plannerTitle title of the planner configuration used
      */
-    static failure(error: string): PlanningResult {
-        return new PlanningResult(PlanningOutcome.FAILURE, [], Number.NaN, error);
+    static failure(error: string, plannerTitle?: string): PlanningResult {
+        return new PlanningResult(PlanningOutcome.FAILURE, [], Number.NaN, error, plannerTitle);
     }
 
     /**
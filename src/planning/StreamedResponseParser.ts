@@ -0,0 +1,101 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/** Server-Sent Events content type. */
+export const EVENT_STREAM = 'text/event-stream';
+/** Newline-delimited JSON content type (sent using the chunked transfer encoding). */
+export const NDJSON = 'application/x-ndjson';
+
+/** One message of the streamed planning service response. */
+export interface StreamedMessage {
+    /** Message type, e.g. `output`, `plan`, `error` or `end`. */
+    type: string;
+    /** Message payload; parsed JSON, or the raw text, if it is not valid JSON. */
+    data: any;
+}
+
+/**
+ * @param contentType HTTP response `Content-Type` header
+ * @returns true if the response is streamed (Server-Sent Events or newline-delimited JSON)
+ */
+export function isStreamedResponse(contentType: string | undefined): boolean {
+    const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+    return mediaType === EVENT_STREAM || mediaType === NDJSON;
+}
+
+/**
+ * Incrementally parses the streamed planning service response into messages.
+ * Supports Server-Sent Events (the `event:` field or the `type` JSON property is the message type)
+ * and newline-delimited JSON (the `type` JSON property is the message type).
+ */
+export class StreamedResponseParser {
+
+    private buffer = '';
+    private readonly eventStream: boolean;
+
+    /**
+     * @param contentType HTTP response `Content-Type` header
+     * @param onMessage called for every complete message
+     */
+    constructor(contentType: string, private readonly onMessage: (message: StreamedMessage) => void) {
+        this.eventStream = contentType.split(';')[0].trim().toLowerCase() === EVENT_STREAM;
+    }
+
+    /**
+     * Appends the next chunk of the response.
+     * @param chunk response chunk (not necessarily aligned to the message boundaries)
+     */
+    append(chunk: string): void {
+        this.buffer += chunk;
+        const separator = this.eventStream ? /\r?\n\r?\n/ : /\r?\n/;
+        const blocks = this.buffer.split(separator);
+        this.buffer = blocks.pop() ?? '';
+        blocks.forEach(block => this.parseBlock(block));
+    }
+
+    /**
+     * Call this when the response ended. Parses the last message, if it was not terminated.
+     */
+    end(): void {
+        const lastBlock = this.buffer;
+        this.buffer = '';
+        this.parseBlock(lastBlock);
+    }
+
+    private parseBlock(block: string): void {
+        if (!block.trim().length) { return; }
+
+        if (this.eventStream) {
+            let eventType: string | undefined;
+            const dataLines: string[] = [];
+            block.split(/\r?\n/).forEach(line => {
+                if (line.startsWith(':')) { return; } // comment
+                const colon = line.indexOf(':');
+                const field = colon > -1 ? line.substring(0, colon) : line;
+                const value = colon > -1 ? line.substring(colon + 1).replace(/^ /, '') : '';
+                if (field === 'event') { eventType = value; }
+                else if (field === 'data') { dataLines.push(value); }
+            });
+            if (dataLines.length === 0) { return; }
+            const data = parseJson(dataLines.join('\n'));
+            this.onMessage({ type: eventType ?? data?.type ?? 'message', data });
+        }
+        else {
+            const data = parseJson(block);
+            this.onMessage({ type: data?.type ?? 'message', data });
+        }
+    }
+}
+
+function parseJson(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch (err) {
+        return text;
+    }
+}
@@ -48,6 +48,8 @@ export class Planning implements planner.PlannerResponseHandler {
     output: OutputChannel;
 
     planner: planner.Planner | null = null;
+    /** Configuration of the planner used in the last planner execution. */
+    plannerConfiguration: planner.PlannerConfiguration | undefined;
     plans: Plan[] = [];
     planningProcessKilled = false;
     planView: PlanView;
@@ -318,7 +320,7 @@ export class Planning implements planner.PlannerResponseHandler {
         if (!this.progressUpdater) { return; }
         const elapsedTime = this.progressUpdater.getElapsedTimeInMilliSecs();
         this.progressUpdater.setFinished();
-        const result = this.planningProcessKilled ? PlanningResult.killed() : PlanningResult.success(plans, elapsedTime);
+        const result = this.planningProcessKilled ? PlanningResult.killed() : PlanningResult.success(plans, elapsedTime, this.plannerConfiguration?.title);
         this._onPlansFound.fire(result);
         this.planner = null;
 
@@ -330,7 +332,7 @@ export class Planning implements planner.PlannerResponseHandler {
     onPlannerFailed(reason: any): void {
         if (!this.progressUpdater) { return; }
         this.progressUpdater.setFinished();
-        this._onPlansFound.fire(PlanningResult.failure(reason.toString()));
+        this._onPlansFound.fire(PlanningResult.failure(reason.toString(), this.plannerConfiguration?.title));
 
         this.planner = null;
         console.error(reason);
@@ -378,7 +380,20 @@ export class Planning implements planner.PlannerResponseHandler {
         if (!scopedPlannerConfiguration) { return null; }
 
         const plannerConfiguration = scopedPlannerConfiguration.configuration;
+        this.plannerConfiguration = plannerConfiguration;
 
+        return await this.createPlannerFor(plannerConfiguration, workingDirectory, options);
+    }
+
+    /**
+     * Creates the planner wrapper for the given planner configuration.
+     *
+     * @param plannerConfiguration planner configuration
+     * @param workingDirectory directory where planner creates output files by default
+     * @param options planner options or a path of a configuration file
+     * @returns `Planner` instance, or `null` if the user canceled
+     */
+    async createPlannerFor(plannerConfiguration: planner.PlannerConfiguration, workingDirectory: string, options?: string): Promise<planner.Planner | null> {
         if (!await this.verifyConsentForSendingPddl(plannerConfiguration)) { return null; }
 
         if (plannerConfiguration.url !== undefined) {
@@ -413,10 +428,23 @@ export class Planning implements planner.PlannerResponseHandler {
 
             return this.codePddlWorkspace.pddlWorkspace.getPlannerRegistrar()
                 .getPlannerProvider({ kind: plannerConfiguration.kind })?.createPlanner?.(plannerConfiguration, options, workingDirectory) ?? 
-                new PlannerExecutable(plannerConfiguration.path, options, plannerConfiguration.syntax, workingDirectory);
+                new PlannerExecutable(plannerConfiguration.path, options, plannerConfiguration.syntax, workingDirectory, this.createTerminalLauncher());
         }
     }
 
+    /**
+     * @returns callback that runs the planner command in a terminal window, if that is the configured execution target
+     */
+    private createTerminalLauncher(): ((command: string, workingDirectory: string) => void) | undefined {
+        if (workspace.getConfiguration("pddlPlanner").get("executionTarget") !== "Terminal") { return undefined; }
+
+        return (command, workingDirectory): void => {
+            const terminal = window.createTerminal({ name: "Planner output", cwd: workingDirectory });
+            terminal.sendText(command, true);
+            terminal.show(true);
+        };
+    }
+
     private toAbsoluteUri(configPath: string, workingDirectory: string): Uri {
         const absoluteConfigPath = path.isAbsolute(configPath) ?
             configPath :
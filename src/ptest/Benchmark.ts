@@ -0,0 +1,158 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/** Result of one planner on one test case. */
+export interface BenchmarkRun {
+    /** Planner title. */
+    planner: string;
+    /** Test manifest path. */
+    manifest: string;
+    /** Test case label. */
+    testCase: string;
+    /** Test outcome, e.g. SUCCESS, FAILED, TIMEOUT. */
+    outcome: string;
+    /** At least one plan was found. */
+    solved: boolean;
+    /** Makespan of the best plan. */
+    makespan?: number;
+    /** Metric value (cost) of the best plan. */
+    cost?: number;
+    /** Number of states evaluated by the planner. */
+    statesEvaluated?: number;
+    /** Planner elapsed time in milliseconds. */
+    elapsedTimeMs?: number;
+    error?: string;
+}
+
+/** Test case in the benchmark. */
+export interface BenchmarkProblem {
+    manifest: string;
+    testCase: string;
+}
+
+/** Summary of one planner's performance across all the test cases. */
+export interface BenchmarkSummary {
+    planner: string;
+    /** Number of solved test cases. */
+    coverage: number;
+    /** Sum of the IPC quality scores. */
+    ipcScore: number;
+    /** Total elapsed time of the solved test cases in milliseconds. */
+    totalTimeMs: number;
+}
+
+/**
+ * Results of running several planners on the same test cases.
+ */
+export class Benchmark {
+
+    private readonly runs: BenchmarkRun[] = [];
+
+    /**
+     * @param planners titles of the compared planners (i.e. the table columns)
+     */
+    constructor(readonly planners: string[]) { }
+
+    add(run: BenchmarkRun): void {
+        this.runs.push(run);
+    }
+
+    getRuns(): BenchmarkRun[] {
+        return this.runs;
+    }
+
+    /**
+     * @returns unique test cases in the order they were first added
+     */
+    getProblems(): BenchmarkProblem[] {
+        const problems: BenchmarkProblem[] = [];
+        this.runs.forEach(run => {
+            if (!problems.some(p => p.manifest === run.manifest && p.testCase === run.testCase)) {
+                problems.push({ manifest: run.manifest, testCase: run.testCase });
+            }
+        });
+        return problems;
+    }
+
+    getRun(problem: BenchmarkProblem, planner: string): BenchmarkRun | undefined {
+        return this.runs.find(run => run.planner === planner && run.manifest === problem.manifest && run.testCase === problem.testCase);
+    }
+
+    /**
+     * IPC quality score of the planner on the test case: best known quality divided by the planner's plan quality.
+     * The plan quality is the cost, if all planners that solved the test case reported it, otherwise the makespan,
+     * so the plans are always compared by the same measure. Lower is better.
+     * @returns score between 0 (unsolved) and 1 (best plan among all planners)
+     */
+    getIpcScore(problem: BenchmarkProblem, planner: string): number {
+        const run = this.getRun(problem, planner);
+        if (!run?.solved) { return 0; }
+
+        const solvedRuns = this.planners
+            .map(p => this.getRun(problem, p))
+            .filter(r => r?.solved) as BenchmarkRun[];
+        const measure = getQualityMeasure(solvedRuns);
+        // solved, but the plans are not comparable
+        if (!measure) { return 1; }
+
+        const quality = run[measure]!;
+        const bestQuality = Math.min(...solvedRuns.map(r => r[measure]!));
+
+        return quality <= 0 || bestQuality >= quality ? 1 : bestQuality / quality;
+    }
+
+    getSummary(planner: string): BenchmarkSummary {
+        const problems = this.getProblems();
+        const solvedRuns = problems
+            .map(problem => this.getRun(problem, planner))
+            .filter(run => run?.solved) as BenchmarkRun[];
+
+        return {
+            planner,
+            coverage: solvedRuns.length,
+            ipcScore: problems
+                .map(problem => this.getIpcScore(problem, planner))
+                .reduce((sum, score) => sum + score, 0),
+            totalTimeMs: solvedRuns
+                .map(run => run.elapsedTimeMs ?? 0)
+                .reduce((sum, time) => sum + time, 0)
+        };
+    }
+
+    /**
+     * Serializes the benchmark to CSV with one line per planner run.
+     */
+    toCsv(): string {
+        const header = ['manifest', 'testCase', 'planner', 'outcome', 'solved', 'makespan', 'cost', 'statesEvaluated', 'elapsedTimeMs', 'ipcScore', 'error'];
+
+        const lines = this.getProblems()
+            .map(problem => this.planners.map(planner => {
+                const run = this.getRun(problem, planner);
+                return [problem.manifest, problem.testCase, planner, run?.outcome, run?.solved, run?.makespan, run?.cost,
+                    run?.statesEvaluated, run?.elapsedTimeMs, this.getIpcScore(problem, planner), run?.error];
+            }))
+            .reduce((allLines, problemLines) => allLines.concat(problemLines), []);
+
+        return [header, ...lines]
+            .map(line => line.map(value => toCsvValue(value)).join(','))
+            .join('\n') + '\n';
+    }
+}
+
+/**
+ * @returns plan quality measure known for all the runs, or `undefined` if there is none
+ */
+function getQualityMeasure(runs: BenchmarkRun[]): 'cost' | 'makespan' | undefined {
+    if (runs.every(run => run.cost !== undefined)) { return 'cost'; }
+    else if (runs.every(run => run.makespan !== undefined)) { return 'makespan'; }
+    else { return undefined; }
+}
+
+function toCsvValue(value: string | number | boolean | undefined): string {
+    if (value === undefined) { return ''; }
+    const text = typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(3) : value.toString();
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
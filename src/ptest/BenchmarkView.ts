@@ -0,0 +1,151 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import {
+    window, Uri, ViewColumn, WebviewPanel, workspace, Webview
+} from 'vscode';
+import * as path from 'path';
+import { getWebViewHtml, showError } from '../utils';
+import { PddlExtensionContext, utils } from 'pddl-workspace';
+import { Benchmark, BenchmarkProblem } from './Benchmark';
+
+/** Visualizes the planner benchmark results on a web view panel. */
+export class BenchmarkView {
+    private webViewPanel: WebviewPanel | undefined;
+    readonly CONTENT_FOLDER = path.join("views", "ptestReport");
+
+    constructor(private context: PddlExtensionContext, private benchmark: Benchmark) {
+    }
+
+    async showBenchmark(): Promise<void> {
+        const iconUri = this.context.asAbsolutePath('images/icon.png');
+
+        this.webViewPanel = window.createWebviewPanel(
+            "pddl.test.benchmark",
+            "Planner Benchmark",
+            {
+                viewColumn: ViewColumn.Beside,
+                preserveFocus: false
+            },
+            {
+                retainContextWhenHidden: true,
+                enableFindWidget: true,
+                enableScripts: true,
+                localResourceRoots: [Uri.file(this.context.asAbsolutePath(this.CONTENT_FOLDER))]
+            }
+        );
+
+        this.webViewPanel.iconPath = Uri.file(iconUri);
+
+        this.webViewPanel.onDidDispose(() => this.webViewPanel = undefined, undefined, this.context.subscriptions);
+        this.webViewPanel.webview.onDidReceiveMessage(message => this.handleMessage(message).catch(showError), undefined, this.context.subscriptions);
+
+        this.context.subscriptions.push(this.webViewPanel);
+
+        await this.updatePage();
+    }
+
+    /** Re-renders the page, e.g. when more results arrived. */
+    async updatePage(): Promise<void> {
+        if (this.webViewPanel) {
+            this.webViewPanel.webview.html = await this.getHtml(this.webViewPanel.webview);
+        }
+    }
+
+    async getHtml(webview: Webview): Promise<string> {
+        const html = await getWebViewHtml(this.context, {
+            allowUnsafeInlineScripts: true, // it is used by the generated html
+            relativePath: this.CONTENT_FOLDER,
+            htmlFileName: 'benchmark.html'
+        }, webview);
+
+        const summaryRows = this.benchmark.planners.map(planner => this.renderSummaryRow(planner));
+
+        const tableRows = this.benchmark.getProblems().map((problem, index, problems) => {
+            const isNewManifest = index === 0 || problems[index - 1].manifest !== problem.manifest;
+            const manifestRow = isNewManifest
+                ? [`<tr><td colspan="${1 + this.benchmark.planners.length * 5}" class="manifestRow">${escapeHtml(problem.manifest)}</td></tr>`]
+                : [];
+            return manifestRow.concat(this.renderProblemRow(problem)).join('\n');
+        });
+
+        return html
+            .replace("<!--SUMMARY-->", () => summaryRows.join('\n'))
+            .replace("<!--HEADER-->", () => this.renderHeader())
+            .replace("<!--TABLE-->", () => tableRows.join('\n'));
+    }
+
+    renderSummaryRow(planner: string): string {
+        const summary = this.benchmark.getSummary(planner);
+        const problemCount = this.benchmark.getProblems().length;
+        return `<tr><td>${escapeHtml(planner)}</td><td class="number">${summary.coverage}/${problemCount}</td>` +
+            `<td class="number">${summary.ipcScore.toFixed(2)}</td><td class="number">${(summary.totalTimeMs / 1000).toFixed(2)}</td></tr>`;
+    }
+
+    renderHeader(): string {
+        const plannerHeaders = this.benchmark.planners.map(planner => `<th colspan="5">${escapeHtml(planner)}</th>`);
+        const metricHeaders = this.benchmark.planners.map(() => `<th>&nbsp;</th><th>makespan</th><th>cost</th><th>states</th><th>sec.</th>`);
+        return `<tr><th rowspan="2">Test case</th>${plannerHeaders.join('')}</tr>\n<tr>${metricHeaders.join('')}</tr>`;
+    }
+
+    renderProblemRow(problem: BenchmarkProblem): string {
+        const plannerCells = this.benchmark.planners.map(planner => {
+            const run = this.benchmark.getRun(problem, planner);
+            if (!run) {
+                return `<td colspan="5"></td>`;
+            }
+            if (!run.solved) {
+                return `<td class="unsolved" title="${escapeHtml(run.error ?? '')}">${String.fromCharCode(0x2717)}</td><td colspan="4" class="unsolved">${escapeHtml(run.outcome)}</td>`;
+            }
+            return `<td>${String.fromCharCode(0x2713)}</td>` +
+                `<td class="number">${toFixed(run.makespan)}</td>` +
+                `<td class="number">${toFixed(run.cost)}</td>` +
+                `<td class="number">${run.statesEvaluated ?? ''}</td>` +
+                `<td class="number">${toFixed(run.elapsedTimeMs !== undefined ? run.elapsedTimeMs / 1000 : undefined)}</td>`;
+        });
+        return `<tr><td>${escapeHtml(problem.testCase)}</td>${plannerCells.join('')}</tr>`;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    async handleMessage(message: any): Promise<void> {
+        switch (message.command) {
+            case 'exportCsv':
+                await this.exportCsv();
+                break;
+            default:
+                console.warn('Unexpected command: ' + message.command);
+        }
+    }
+
+    async exportCsv(): Promise<void> {
+        const defaultFolder = workspace.workspaceFolders?.[0]?.uri;
+        const uri = await window.showSaveDialog({
+            saveLabel: "Export benchmark",
+            filters: { "CSV": ["csv"] },
+            defaultUri: defaultFolder && Uri.joinPath(defaultFolder, 'benchmark.csv')
+        });
+        if (!uri) { return; }
+
+        await utils.afs.writeFile(uri.fsPath, this.benchmark.toCsv(), { encoding: 'utf8' });
+        window.showInformationMessage(`Benchmark exported to ${uri.fsPath}.`);
+    }
+}
+
+function toFixed(value: number | undefined): string {
+    return value !== undefined && Number.isFinite(value) ? value.toFixed(2) : '';
+}
+
+/**
+ * Escapes the planner titles, test labels and planner errors interpolated into the HTML text and attributes.
+ */
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
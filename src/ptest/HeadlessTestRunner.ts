@@ -0,0 +1,266 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { dirname } from 'path';
+import { URI } from 'vscode-uri';
+import {
+    PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver, DomainInfo, ProblemInfo, FileInfo, PddlExtensionContext, Plan, parser, planner, utils
+} from 'pddl-workspace';
+import { ValStepOptions } from 'ai-planning-val';
+import { Test, TestOutcome } from './Test';
+import { TestsManifest } from './TestsManifest';
+import { TestEvaluator, TestEvaluation } from './TestEvaluator';
+import { PlannerExecutable } from '../planning/PlannerExecutable';
+import { PlanningResult } from '../planning/PlanningResult';
+
+/** Planner instance created for a test case. */
+export interface TestPlanner {
+    planner: planner.Planner;
+    /** Planner title shown in the report. */
+    title?: string;
+}
+
+/** Creates the planner for the given test case. */
+export type PlannerFactory = (test: Test, workingDirectory: string) => Promise<TestPlanner>;
+
+/** Headless test runner options. */
+export interface HeadlessTestRunnerOptions {
+    /** Creates the planner to run each test case with. */
+    createPlanner: PlannerFactory;
+    /** Epsilon time step used to parse and compare plans. */
+    epsilon: number;
+    /** Supplies the ValStep options; needed for `equivalent` plan assertions and `finalState` assertions. */
+    valStepOptions?: () => Promise<ValStepOptions>;
+    /** Maximum number of test cases executed in parallel. Default is 1. */
+    workerPoolSize?: number;
+    /** Receives the planner and pre-processor output. */
+    output: (text: string) => void;
+    /** Additional planner command-line options (e.g. from the registered `planner.PlannerOptionsProvider`s). */
+    providePlannerOptions?: (request: planner.PlanningRequestContext) => string[];
+}
+
+/** Result of one test case executed by the headless runner. */
+export interface HeadlessTestResult {
+    test: Test;
+    evaluation: TestEvaluation;
+    /** Plans found by the planner. The last one is considered the best. */
+    plans: Plan[];
+    /** Planner elapsed time in milliseconds. */
+    elapsedTime: number;
+    plannerTitle?: string;
+}
+
+/**
+ * Executes `.ptest.json` test cases without any dependency on VS Code.
+ * Used by the test explorer to run test suites and by the command-line runner (e.g. in a CI pipeline).
+ */
+export class HeadlessTestRunner {
+
+    private readonly evaluator: TestEvaluator;
+    private readonly runningPlanners = new Set<planner.Planner>();
+    private canceled = false;
+
+    constructor(private readonly context: PddlExtensionContext, private readonly options: HeadlessTestRunnerOptions) {
+        this.evaluator = new TestEvaluator(options.epsilon, () => this.getValStepOptions());
+    }
+
+    /**
+     * Runs all test cases of the manifest.
+     * @param manifest test manifest
+     */
+    runManifest(manifest: TestsManifest): Promise<HeadlessTestResult[]> {
+        return this.runAll(manifest.testCases);
+    }
+
+    /**
+     * Runs the test cases using a pool of `workerPoolSize` workers.
+     * @param tests test cases
+     * @param onStarted called when a test case execution starts
+     * @param onFinished called when a test case result is available
+     * @returns results in the same order as the `tests`
+     */
+    async runAll(tests: Test[], onStarted?: (test: Test) => void, onFinished?: (result: HeadlessTestResult) => void): Promise<HeadlessTestResult[]> {
+        const results: HeadlessTestResult[] = new Array(tests.length);
+        let nextIndex = 0;
+
+        const worker = async (): Promise<void> => {
+            while (nextIndex < tests.length) {
+                const index = nextIndex++;
+                onStarted?.(tests[index]);
+                results[index] = await this.runTest(tests[index]);
+                onFinished?.(results[index]);
+            }
+        };
+
+        const workerCount = Math.max(1, Math.min(this.options.workerPoolSize ?? 1, tests.length));
+        await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+        return results;
+    }
+
+    /**
+     * Cancels the test run. Running planners are stopped and the test cases not started yet are skipped.
+     */
+    cancel(): void {
+        this.canceled = true;
+        this.runningPlanners.forEach(runningPlanner => runningPlanner.stop());
+    }
+
+    isCanceled(): boolean {
+        return this.canceled;
+    }
+
+    /**
+     * Runs the planner on the test case domain and problem and evaluates the test assertions.
+     * @param test test case
+     */
+    async runTest(test: Test): Promise<HeadlessTestResult> {
+        if (this.canceled) {
+            return { test, evaluation: new TestEvaluation(TestOutcome.SKIPPED, 'Canceled.'), plans: [], elapsedTime: Number.NaN };
+        }
+
+        const definitionError = test.getDefinitionError();
+        if (definitionError) {
+            return { test, evaluation: new TestEvaluation(TestOutcome.SKIPPED, `Invalid test definition. ${definitionError}`), plans: [], elapsedTime: Number.NaN };
+        }
+
+        const startTime = Date.now();
+        const timeoutMs = test.getTimeoutMs();
+        let plannerTitle: string | undefined;
+        let result: PlanningResult;
+
+        try {
+            const workingDirectory = dirname(test.getManifest()?.path ?? test.getDomainUri().fsPath);
+            const pddlWorkspace = new PddlWorkspace(this.options.epsilon, this.context);
+            const domain = await this.loadDomain(pddlWorkspace, test);
+            const problem = await this.loadProblem(pddlWorkspace, test, workingDirectory);
+
+            const testPlanner = await this.options.createPlanner(test, workingDirectory);
+            plannerTitle = testPlanner.title;
+
+            const plannerRun = await this.plan(testPlanner.planner, domain, problem, timeoutMs);
+            const elapsedTime = Date.now() - startTime;
+
+            if (plannerRun.timedOut) {
+                const evaluation = new TestEvaluation(TestOutcome.TIMEOUT, `Planner did not finish within ${timeoutMs}ms.`);
+                return { test, evaluation, plans: plannerRun.plans, elapsedTime, plannerTitle };
+            }
+
+            result = this.canceled
+                ? PlanningResult.killed()
+                : PlanningResult.success(plannerRun.plans, elapsedTime, plannerTitle);
+        } catch (err) {
+            result = PlanningResult.failure(err.message ?? err, plannerTitle);
+        }
+
+        const evaluation = await this.evaluator.evaluate(test, result);
+        const elapsedTime = Number.isFinite(result.elapsedTime) ? result.elapsedTime : Date.now() - startTime;
+        return { test, evaluation, plans: result.plans, elapsedTime, plannerTitle };
+    }
+
+    private async loadDomain(pddlWorkspace: PddlWorkspace, test: Test): Promise<DomainInfo> {
+        const domainUri = test.getDomainUri();
+        const domainText = await this.readFile(domainUri, 'Domain');
+        const fileInfo = await this.upsert(pddlWorkspace, domainUri, domainText);
+        if (!fileInfo.isDomain()) {
+            throw new Error(`Not a PDDL domain: ${domainUri.fsPath}`);
+        }
+        return fileInfo as DomainInfo;
+    }
+
+    private async loadProblem(pddlWorkspace: PddlWorkspace, test: Test, workingDirectory: string): Promise<ProblemInfo> {
+        const problemUri = test.getProblemUri();
+        let problemText = await this.readFile(problemUri, 'Problem');
+
+        const preProcessor = test.getPreProcessor();
+        if (preProcessor) {
+            const outputAdaptor = { appendLine: (text: string): void => this.options.output(text + '\n'), show: (): void => { return; } };
+            problemText = await preProcessor.transform(problemText, workingDirectory, outputAdaptor) ?? problemText;
+        }
+
+        const fileInfo = await this.upsert(pddlWorkspace, problemUri, problemText);
+        if (!fileInfo.isProblem()) {
+            throw new Error(`Not a PDDL problem: ${problemUri.fsPath}`);
+        }
+        return fileInfo as ProblemInfo;
+    }
+
+    private async readFile(uri: URI, resourceName: string): Promise<string> {
+        if (!await utils.afs.exists(uri.fsPath)) {
+            throw new Error(`${resourceName} file not found: ${uri.fsPath}`);
+        }
+        return (await utils.afs.readFile(uri.fsPath, { encoding: 'utf8' })).toString();
+    }
+
+    private upsert(pddlWorkspace: PddlWorkspace, uri: URI, text: string): Promise<FileInfo> {
+        return pddlWorkspace.upsertFile(uri, PddlLanguage.PDDL, 0, text, new SimpleDocumentPositionResolver(text), true);
+    }
+
+    /**
+     * Runs the planner. When the `timeoutMs` elapses, the planner is stopped (which kills the planner process tree).
+     */
+    private async plan(testPlanner: planner.Planner, domain: DomainInfo, problem: ProblemInfo, timeoutMs: number | undefined): Promise<PlannerRun> {
+        if (this.canceled) { return { plans: [], timedOut: false }; }
+
+        const planParser = new parser.PddlPlannerOutputParser(domain, problem, { epsilon: this.options.epsilon });
+
+        let timedOut = false;
+        const timer = timeoutMs !== undefined ? setTimeout(() => {
+            timedOut = true;
+            testPlanner.stop();
+        }, timeoutMs) : undefined;
+
+        this.runningPlanners.add(testPlanner);
+        try {
+            const plans = await testPlanner.plan(domain, problem, planParser, {
+                handleOutput: (outputText: string): void => this.options.output(outputText),
+                handlePlan: (): void => { return; },
+                providePlannerOptions: (request: planner.PlanningRequestContext): string[] => this.options.providePlannerOptions?.(request) ?? []
+            });
+            return { plans, timedOut };
+        } finally {
+            if (timer) { clearTimeout(timer); }
+            this.runningPlanners.delete(testPlanner);
+        }
+    }
+
+    private async getValStepOptions(): Promise<ValStepOptions> {
+        if (!this.options.valStepOptions) {
+            throw new Error(`ValStep executable is not configured. It is needed to evaluate the plan final state.`);
+        }
+        return await this.options.valStepOptions();
+    }
+}
+
+interface PlannerRun {
+    plans: Plan[];
+    /** The planner was stopped, because it exceeded the time limit. */
+    timedOut: boolean;
+}
+
+/**
+ * Creates planner factory for a command-line planner executable. Planning services are not supported.
+ * @param configuration planner configuration
+ */
+export function createExecutablePlannerFactory(configuration: planner.PlannerConfiguration): PlannerFactory {
+    return async (test: Test, workingDirectory: string): Promise<TestPlanner> => {
+        if (configuration.url !== undefined || configuration.path === undefined) {
+            throw new Error(`Planner '${configuration.title}' is not supported by the headless test runner. Only planner executables are supported.`);
+        }
+
+        const plannerExecutable = new PlannerExecutable(configuration.path, test.getOptions() ?? '',
+            configuration.syntax ?? PlannerExecutable.DEFAULT_SYNTAX, workingDirectory);
+
+        return { planner: plannerExecutable, title: configuration.title };
+    };
+}
+
+/**
+ * @returns true, if all the results are successful
+ */
+export function allPassed(results: HeadlessTestResult[]): boolean {
+    return results.every(result => result.evaluation.outcome === TestOutcome.SUCCESS);
+}
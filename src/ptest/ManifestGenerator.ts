@@ -8,8 +8,10 @@ import { TestsManifest } from './TestsManifest';
 import { basename, extname, dirname, join, relative } from 'path';
 import { PTestTreeDataProvider } from './PTestTreeDataProvider';
 import { Test } from './Test';
+import { TestAssertions } from './TestAssertions';
 import { Uri, workspace } from 'vscode';
 import { fileExists } from '../utils';
+import { DownloadedDomain } from '../catalog/CatalogDownloader';
 
 export class ManifestGenerator {
     constructor(private readonly pddlWorkspace: PddlWorkspace,
@@ -23,7 +25,7 @@ export class ManifestGenerator {
         return await Promise.all(domainFiles.map(async domain => {
             const manifest = await this.readOrCreateManifest(domain, this.context);
             this.addProblems(manifest, domain);
-            manifest.store();
+            await manifest.store();
             return manifest;
         }));
     }
@@ -51,8 +53,44 @@ export class ManifestGenerator {
         return manifest;
     }
 
+    /**
+     * Creates (or updates) the manifest for a domain downloaded from the catalog.
+     * Problems that share the most common domain file use it as the manifest default domain.
+     * Reference plan costs become the `maxCost` assertions.
+     * @param downloadedDomain downloaded domain, problems and reference plans
+     */
+    async createCatalogManifest(downloadedDomain: DownloadedDomain): Promise<TestsManifest> {
+        if (downloadedDomain.problems.length === 0) {
+            throw new Error(`Domain ${downloadedDomain.domain.label} has no problems.`);
+        }
+
+        const domainPaths = downloadedDomain.problems.map(p => p.domainPath);
+        const defaultDomainPath = domainPaths
+            .reduce((mostCommon, domainPath) => count(domainPaths, domainPath) > count(domainPaths, mostCommon) ? domainPath : mostCommon);
+
+        const manifest = await this.readOrCreateManifestAt(defaultDomainPath, this.context);
+        const manifestFolder = dirname(manifest.uri.fsPath);
+
+        downloadedDomain.problems
+            .filter(problem => !manifest.testCases.some(c => c.getProblemUri().fsPath === problem.problemPath))
+            .forEach(problem => {
+                const domain = problem.domainPath !== defaultDomainPath ? relative(manifestFolder, problem.domainPath) : undefined;
+                const description = problem.planPath ? `Reference plan: ${relative(manifestFolder, problem.planPath)}` : undefined;
+                const assertions = problem.planCost !== undefined ? new TestAssertions(undefined, problem.planCost) : undefined;
+                manifest.addCase(new Test(undefined, description, domain, relative(manifestFolder, problem.problemPath),
+                    undefined, undefined, undefined, undefined, assertions));
+            });
+
+        await manifest.store();
+        return manifest;
+    }
+
     async readOrCreateManifest(domain: DomainInfo, context: PddlExtensionContext): Promise<TestsManifest> {
-        const { filePath: domainPath, fileName: domainFileName } = this.getPathAndName(domain);
+        return this.readOrCreateManifestAt(this.getPathAndName(domain).filePath, context);
+    }
+
+    private async readOrCreateManifestAt(domainPath: string, context: PddlExtensionContext): Promise<TestsManifest> {
+        const domainFileName = basename(domainPath);
 
         const domainFileNameWithoutExt = basename(domainPath, extname(domainPath));
 
@@ -111,4 +149,8 @@ export class ManifestGenerator {
             return testCaseFound;
         }
     }
-}
\ No newline at end of file
+}
+
+function count<T>(items: T[], item: T): number {
+    return items.filter(i => i === item).length;
+}
@@ -8,4 +8,8 @@ export const PTEST_VIEW_PROBLEM = 'pddl.tests.viewProblem';
 export const PTEST_REVEAL = 'pddl.tests.reveal';
 export const PTEST_REFRESH = 'pddl.tests.refresh';
 export const PTEST_VIEW = 'pddl.tests.view';
-export const PTEST_REPORT_VIEW = 'pddl.tests.report.view';
\ No newline at end of file
+export const PTEST_REPORT_VIEW = 'pddl.tests.report.view';
+export const PTEST_REPORT_EXPORT = 'pddl.tests.report.export';
+export const PTEST_CANCEL = 'pddl.tests.cancel';
+export const PTEST_BENCHMARK = 'pddl.tests.benchmark';
+
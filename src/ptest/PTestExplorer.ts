@@ -9,26 +9,33 @@ import {
 } from 'vscode';
 import { instrumentOperationAsVsCodeCommand } from "vscode-extension-telemetry-wrapper";
 import { dirname } from 'path';
-import { readFileSync } from 'fs';
 import { findNodeAtLocation, parseTree } from 'jsonc-parser';
-import { utils, parser } from 'pddl-workspace';
+import { utils } from 'pddl-workspace';
 import { Test, TestOutcome } from './Test';
 import { PTestTreeDataProvider, PTestNode, PTestNodeKind } from './PTestTreeDataProvider';
 import { GeneratedDocumentContentProvider } from './GeneratedDocumentContentProvider';
 import { Planning } from '../planning/planning';
-import { PlanningOutcome, PlanningResult } from '../planning/PlanningResult';
-import { Plan } from 'pddl-workspace';
+import { PlanningOutcome } from '../planning/PlanningResult';
 import { TestsManifest } from './TestsManifest';
-import { PlanStep } from 'pddl-workspace';
 import { PddlExtensionContext } from 'pddl-workspace';
 import { PTestReport } from './PTestReport';
 import { showError, jsonNodeToRange } from '../utils';
 import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
-import { PTEST_VIEW_PROBLEM, PTEST_VIEW, PTEST_REVEAL } from './PTestCommands';
-import { DEFAULT_EPSILON } from '../configuration/configuration';
+import { PTEST_VIEW_PROBLEM, PTEST_VIEW, PTEST_REVEAL, PTEST_CANCEL, PTEST_BENCHMARK } from './PTestCommands';
+import { PddlConfiguration, CONF_PDDL, PDDL_PLANNER } from '../configuration/configuration';
 import { ManifestGenerator } from './ManifestGenerator';
 import { PDDL_SAVE_AS_EXPECTED_PLAN } from '../planning/PlanView';
-import { URI } from 'vscode-uri';
+import { AssertionResult } from './TestAssertions';
+import { ValStepOptions } from 'ai-planning-val';
+import { TestEvaluator } from './TestEvaluator';
+import { HeadlessTestRunner, HeadlessTestResult, PlannerFactory, TestPlanner } from './HeadlessTestRunner';
+import { PlannersConfiguration, ScopedPlannerConfiguration, EXECUTION_TARGET } from '../configuration/PlannersConfiguration';
+import { Benchmark, BenchmarkRun } from './Benchmark';
+import { BenchmarkView } from './BenchmarkView';
+
+const PTEST_WORKER_POOL_SIZE = 'tests.workerPoolSize';
+/** Context key set while a test suite is running. */
+const PTEST_RUNNING_CONTEXT = 'pddl.tests.running';
 
 /**
  * PDDL Test Explorer pane.
@@ -40,8 +47,11 @@ export class PTestExplorer {
     private pTestTreeDataProvider: PTestTreeDataProvider;
     private report: PTestReport;
     manifestGenerator: ManifestGenerator;
+    /** Runner of the test suite in progress. */
+    private activeRunner: HeadlessTestRunner | undefined;
 
-    constructor(private context: PddlExtensionContext, private codePddlWorkspace: CodePddlWorkspace, private planning: Planning) {
+    constructor(private context: PddlExtensionContext, private codePddlWorkspace: CodePddlWorkspace, private planning: Planning,
+        private pddlConfiguration: PddlConfiguration, private plannersConfiguration: PlannersConfiguration) {
         this.pTestTreeDataProvider = new PTestTreeDataProvider(context);
 
         this.pTestViewer = window.createTreeView('pddl.tests.explorer', { treeDataProvider: this.pTestTreeDataProvider, showCollapseAll: true });
@@ -50,6 +60,8 @@ export class PTestExplorer {
         this.subscribe(instrumentOperationAsVsCodeCommand('pddl.tests.refresh', () => this.pTestTreeDataProvider.refresh()));
         this.subscribe(instrumentOperationAsVsCodeCommand('pddl.tests.run', node => this.runTest(node).catch(showError)));
         this.subscribe(instrumentOperationAsVsCodeCommand('pddl.tests.runAll', node => this.findAndRunTests(node).catch(showError)));
+        this.subscribe(instrumentOperationAsVsCodeCommand(PTEST_CANCEL, () => this.cancelTests()));
+        this.subscribe(instrumentOperationAsVsCodeCommand(PTEST_BENCHMARK, node => this.runBenchmark(node).catch(showError)));
         this.subscribe(instrumentOperationAsVsCodeCommand(PTEST_VIEW, nodeOrUri => {
             if (nodeOrUri instanceof Uri) {
                 this.openTestByUri(nodeOrUri as Uri).catch(showError);
@@ -209,7 +221,7 @@ export class PTestExplorer {
             workspace.asRelativePath(node.resource.fsPath) :
             "this workspace";
 
-        this.runTests(allManifests, contextPath);
+        await this.runTests(allManifests, contextPath);
     }
 
     /**
@@ -230,43 +242,154 @@ export class PTestExplorer {
         }
     }
 
-    private runTests(manifests: TestsManifest[], contextPath: string): void {
-        const testCount = manifests.map(m => m.testCases.length).reduce((previousValue, currentValue) => previousValue + currentValue, 0);
+    /**
+     * Runs the test cases of all the manifests using a pool of `pddl.tests.workerPoolSize` workers.
+     * @param manifests test manifests
+     * @param contextPath description of the scope of the test run
+     */
+    private async runTests(manifests: TestsManifest[], contextPath: string): Promise<void> {
+        if (!this.isExecutionTargetSupported()) { return; }
+
+        // the planner is selected once for the whole run, the parallel workers must not read the `Planning.plannerConfiguration`
+        const workspaceFolder = manifests.length ? workspace.getWorkspaceFolder(Uri.file(manifests[0].path)) : undefined;
+        const scopedPlanner = await this.plannersConfiguration.getOrAskSelectedPlanner(workspaceFolder);
+        if (!scopedPlanner) { return; }
+
+        const tests = manifests.map(m => m.testCases).reduce((previousValue, currentValue) => previousValue.concat(currentValue), []);
         this.report.clearAndShow();
+        manifests.forEach(manifest => this.report.startingManifest(manifest));
 
-        window.withProgress({
-            location: ProgressLocation.Notification,
-            title: `Running tests from ${contextPath}`,
-            cancellable: true
-        }, (progress, token) => {
-            return new Promise(async (resolve, reject) => {
-                try {
-                    for (const manifest of manifests) {
-                        this.report.startingManifest(manifest);
-
-                        for (let caseIndex = 0; caseIndex < manifest.testCases.length; caseIndex++) {
-                            if (token.isCancellationRequested) {
-                                this.planning.handleOutput('Canceled by user.\n');
-                                reject();
-                                break;
-                            }
-                            const test = manifest.testCases[caseIndex];
-                            progress.report({ message: 'Test case: ' + test.getLabel(), increment: 100.0 / testCount });
-                            try {
-                                await this.executeTest(test);
-                            }
-                            catch (e) {
-                                console.log(e);
-                            }
-                        }
-                        this.report.finishedManifest(manifest);
-                    }
-                    resolve();
-                }
-                finally {
-                    this.report.show();
+        const runner = this.activeRunner = this.createRunner((test, workingDirectory) => this.createTestPlanner(scopedPlanner, test, workingDirectory));
+        await commands.executeCommand('setContext', PTEST_RUNNING_CONTEXT, true);
+
+        try {
+            await window.withProgress({
+                location: ProgressLocation.Notification,
+                title: `Running tests from ${contextPath}`,
+                cancellable: true
+            }, (progress, token) => {
+                token.onCancellationRequested(() => this.cancelTests());
+
+                return runner.runAll(tests,
+                    test => this.setTestOutcome(test, TestOutcome.IN_PROGRESS),
+                    result => {
+                        progress.report({ message: 'Test case: ' + result.test.getLabel(), increment: 100.0 / tests.length });
+                        this.outputTestResult(result.test, result.evaluation.outcome, result.elapsedTime, result.evaluation.error,
+                            result.evaluation.assertions, result.plannerTitle);
+                    });
+            });
+
+            manifests.forEach(manifest => this.report.finishedManifest(manifest));
+        }
+        finally {
+            this.activeRunner = undefined;
+            await commands.executeCommand('setContext', PTEST_RUNNING_CONTEXT, false);
+            this.report.show();
+        }
+    }
+
+    /** Cancels the test run in progress (if any). */
+    cancelTests(): void {
+        if (this.activeRunner && !this.activeRunner.isCanceled()) {
+            this.activeRunner.cancel();
+            this.planning.handleOutput('Canceled by user.\n');
+        }
+    }
+
+    /**
+     * Runs all tests in given scope with each of the user-selected planners and shows the comparison.
+     * @param node user-selected tree node, or `null` for all workspace folders
+     */
+    async runBenchmark(node: PTestNode): Promise<void> {
+        if (!this.isExecutionTargetSupported()) { return; }
+
+        const allManifests: TestsManifest[] = [];
+        await this.findTests(node, allManifests);
+        if (allManifests.length === 0) {
+            window.showWarningMessage(`No test manifests found.`);
+            return;
+        }
+
+        const workspaceFolder = node ? workspace.getWorkspaceFolder(node.resource) : undefined;
+        const planners = await this.plannersConfiguration.selectPlanners(workspaceFolder);
+        if (!planners || planners.length === 0) { return; }
+
+        const tests = allManifests.map(m => m.testCases).reduce((previousValue, currentValue) => previousValue.concat(currentValue), []);
+        const benchmark = new Benchmark(planners.map(p => p.configuration.title));
+
+        await commands.executeCommand('setContext', PTEST_RUNNING_CONTEXT, true);
+        try {
+            await window.withProgress({
+                location: ProgressLocation.Notification,
+                title: `Benchmarking ${planners.length} planners`,
+                cancellable: true
+            }, async (progress, token) => {
+                token.onCancellationRequested(() => this.cancelTests());
+
+                for (const scopedPlanner of planners) {
+                    if (token.isCancellationRequested) { break; }
+                    const runner = this.activeRunner = this.createRunner((test, workingDirectory) => this.createTestPlanner(scopedPlanner, test, workingDirectory));
+
+                    await runner.runAll(tests, undefined, result => {
+                        progress.report({ message: `${scopedPlanner.configuration.title}: ${result.test.getLabel()}`, increment: 100.0 / tests.length / planners.length });
+                        benchmark.add(this.toBenchmarkRun(scopedPlanner.configuration.title, result));
+                    });
                 }
             });
+        }
+        finally {
+            this.activeRunner = undefined;
+            await commands.executeCommand('setContext', PTEST_RUNNING_CONTEXT, false);
+        }
+
+        await new BenchmarkView(this.context, benchmark).showBenchmark();
+    }
+
+    /**
+     * The test runner evaluates the plans returned by the planner, but the planner running in the terminal returns none.
+     * @returns `false` (and tells the user), if the planner output is re-directed to the terminal
+     */
+    private isExecutionTargetSupported(): boolean {
+        if (workspace.getConfiguration(PDDL_PLANNER).get<string>(EXECUTION_TARGET) === "Terminal") {
+            window.showErrorMessage(`PDDL tests cannot be run, while the planner output is re-directed to the Terminal. Change the '${PDDL_PLANNER}.${EXECUTION_TARGET}' setting.`);
+            return false;
+        }
+        return true;
+    }
+
+    private async createTestPlanner(scopedPlanner: ScopedPlannerConfiguration, test: Test, workingDirectory: string): Promise<TestPlanner> {
+        const testPlanner = await this.planning.createPlannerFor(scopedPlanner.configuration, workingDirectory, test.getOptions());
+        if (!testPlanner) {
+            throw new Error(`Planner ${scopedPlanner.configuration.title} could not be created.`);
+        }
+        return { planner: testPlanner, title: scopedPlanner.configuration.title };
+    }
+
+    private toBenchmarkRun(planner: string, result: HeadlessTestResult): BenchmarkRun {
+        const bestPlan = result.plans[result.plans.length - 1];
+        const manifest = result.test.getManifest();
+        return {
+            planner,
+            manifest: manifest ? workspace.asRelativePath(manifest.path) : '',
+            testCase: result.test.getLabel(),
+            outcome: TestOutcome[result.evaluation.outcome],
+            solved: bestPlan !== undefined,
+            makespan: bestPlan?.makespan,
+            cost: bestPlan?.isCostDefined() ? bestPlan.cost : undefined,
+            statesEvaluated: bestPlan?.statesEvaluated,
+            elapsedTimeMs: result.elapsedTime,
+            error: result.evaluation.error
+        };
+    }
+
+    private createRunner(createPlanner: PlannerFactory): HeadlessTestRunner {
+        return new HeadlessTestRunner(this.context, {
+            createPlanner: createPlanner,
+            epsilon: this.pddlConfiguration.getEpsilonTimeStep(),
+            valStepOptions: (): Promise<ValStepOptions> => this.getValStepOptions(),
+            workerPoolSize: workspace.getConfiguration(CONF_PDDL).get<number>(PTEST_WORKER_POOL_SIZE, 1),
+            output: (text): void => this.planning.handleOutput(text),
+            providePlannerOptions: (request): string[] => this.planning.providePlannerOptions(request)
         });
     }
 
@@ -312,42 +435,39 @@ export class PTestExplorer {
                 return;
             }
             
+            const timeoutMs = test.getTimeoutMs();
+            let timedOut = false;
+            const timer = timeoutMs !== undefined ? setTimeout(() => {
+                timedOut = true;
+                this.planning.stopPlanner();
+            }, timeoutMs) : undefined;
+
             const resultSubscription = this.planning.onPlansFound(result => {
                 resultSubscription.dispose();
+                if (timer) { clearTimeout(timer); }
 
-                if (result.outcome === PlanningOutcome.FAILURE) {
-                    this.outputTestResult(test, TestOutcome.FAILED, result.elapsedTime, result.error);
-                    reject(new Error(result.error ?? "Unknown error while planning."));
-                    return;
-                } else if (result.outcome === PlanningOutcome.KILLED) {
-                    this.outputTestResult(test, TestOutcome.SKIPPED, result.elapsedTime, 'Killed by the user.');
-                    resolve(false);
-                    return;
-                } else if (result.plans.length === 0) {
-                    this.outputTestResult(test, TestOutcome.FAILED, result.elapsedTime, 'No plan found.');
+                if (timedOut) {
+                    this.outputTestResult(test, TestOutcome.TIMEOUT, timeoutMs!, `Planner did not finish within ${timeoutMs}ms.`, undefined, result.plannerTitle);
                     resolve(false);
                     return;
                 }
 
-                if (test.hasExpectedPlans()) {
-                    try {
-                        this.assertMatchesAnExpectedPlan(result, test);
-                    }
-                    catch (err) {
-                        this.outputTestResult(test, TestOutcome.FAILED, result.elapsedTime, "Failed to compare plan to expected plans. Error: " + err.message ?? err);
-                    }
-                }
-                else {
-                    this.outputTestResult(test, TestOutcome.SUCCESS, result.elapsedTime);
-                }
+                this.createEvaluator().evaluate(test, result).then(evaluation => {
+                    this.outputTestResult(test, evaluation.outcome, result.elapsedTime, evaluation.error, evaluation.assertions, result.plannerTitle);
 
-                resolve(true);
+                    if (result.outcome === PlanningOutcome.FAILURE) {
+                        reject(new Error(evaluation.error));
+                    } else {
+                        resolve(evaluation.outcome === TestOutcome.SUCCESS);
+                    }
+                }, reject);
             });
 
             try {
                 const cwd = test.getManifest() ? dirname(test.getManifest()!.path) : '.';
                 await commands.executeCommand('pddl.planAndDisplayResult', test.getDomainUri(), problemUri, cwd, test.getOptions());
             } catch (e) {
+                if (timer) { clearTimeout(timer); }
                 this.setTestOutcome(test, TestOutcome.FAILED);
                 reject(e);
                 return;
@@ -355,53 +475,34 @@ export class PTestExplorer {
         });
     }
 
-    private assertMatchesAnExpectedPlan(result: PlanningResult, test: Test): void {
-        const success = result.plans.every(plan => test.getExpectedPlans()
-            .map(expectedPlanFileName => test.toAbsolutePath(expectedPlanFileName))
-            .some(expectedPlanPath => this.areSame(plan, this.loadPlan(expectedPlanPath))));
-        if (success) {
-            this.outputTestResult(test, TestOutcome.SUCCESS, result.elapsedTime);
-        }
-        else {
-            this.outputTestResult(test, TestOutcome.FAILED, result.elapsedTime, "Actual plan is NOT matching any of the expected plans.");
+    private createEvaluator(): TestEvaluator {
+        return new TestEvaluator(this.pddlConfiguration.getEpsilonTimeStep(), () => this.getValStepOptions());
+    }
+
+    private async getValStepOptions(): Promise<ValStepOptions> {
+        const valStepPath = await this.pddlConfiguration.getValStepPath();
+        if (!valStepPath) {
+            throw new Error(`ValStep executable is not configured. It is needed to evaluate the plan final state.`);
         }
+        const verbose = this.pddlConfiguration.getValStepVerbose();
+        return { valStepPath, verbose };
     }
 
-    outputTestResult(test: Test, outcome: TestOutcome, elapsedTime: number, error?: string): void {
+    outputTestResult(test: Test, outcome: TestOutcome, elapsedTime: number, error?: string, assertions?: AssertionResult[], plannerTitle?: string): void {
         this.setTestOutcome(test, outcome);
-        this.report.outputTestResult(test, outcome, elapsedTime, error);
+        this.report.outputTestResult(test, outcome, elapsedTime, error, assertions, plannerTitle);
     }
 
     setTestOutcome(test: Test, testOutcome: TestOutcome): void {
         this.pTestTreeDataProvider.setTestOutcome(test, testOutcome);
     }
 
-    areSame(actualPlan: Plan, expectedPlan: Plan): boolean {
-        // todo: refer to VAlStep to check that plan is equivalent, rather than same
-        if (actualPlan.steps.length !== expectedPlan.steps.length) { return false; }
-        if (actualPlan.steps.length === 0) { return true; }
-
-        const epsilon = workspace.getConfiguration().get<number>("pddlPlanner.epsilonTimeStep", DEFAULT_EPSILON);
-
-        if (!PlanStep.equalsWithin(actualPlan.makespan, expectedPlan.makespan, epsilon)) { return false; }
-
-        for (let index = 0; index < actualPlan.steps.length; index++) {
-            const actualStep = actualPlan.steps[index];
-            const expectedStep = expectedPlan.steps[index];
-
-            if (!expectedStep.equals(actualStep, epsilon)) { return false; }
-        }
-
-        return true;
-    }
-
-    loadPlan(expectedPlanPath: string): Plan {
-        const expectedPlanText = readFileSync(expectedPlanPath, { encoding: "utf-8" });
-        const epsilon = workspace.getConfiguration().get<number>("pddlPlanner.epsilonTimeStep", DEFAULT_EPSILON);
-        return parser.PddlPlannerOutputParser.parseOnePlan(expectedPlanText, URI.file(expectedPlanPath), epsilon);
-    }
-
     async assertValid(test: Test): Promise<boolean> {
+        const definitionError = test.getDefinitionError();
+        if (definitionError) {
+            window.showErrorMessage(`Invalid test ${test.getLabel()}: ${definitionError}`);
+            return false;
+        }
         const domainExists = await this.assertFileExists(test.getDomainUri().fsPath, 'Domain', test.getDomain());
         const problemExists = await this.assertFileExists(test.getProblemUri().fsPath, 'Problem', test.getProblem());
         const expectedPlanPromises = test.getExpectedPlans().map(async planPath => await this.assertFileExists(test.toAbsolutePath(planPath), 'Test', planPath));
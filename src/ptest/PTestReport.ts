@@ -5,16 +5,23 @@
 'use strict';
 
 import {
-    workspace, OutputChannel, Disposable
+    workspace, OutputChannel, Disposable, Uri, window, WorkspaceFolder
 } from 'vscode';
+import * as path from 'path';
 import { instrumentOperationAsVsCodeCommand } from "vscode-extension-telemetry-wrapper";
 import { TestsManifest } from './TestsManifest';
 import { TestOutcome, Test } from './Test';
 import { PTestReportView } from './PTestReportView';
 import { PddlExtensionContext } from 'pddl-workspace';
-import { PTEST_REPORT_VIEW } from './PTestCommands';
+import { PTEST_REPORT_VIEW, PTEST_REPORT_EXPORT } from './PTestCommands';
 import { utils } from 'pddl-workspace';
-import { assertDefined } from '../utils';
+import { assertDefined, showError } from '../utils';
+import { AssertionResult } from './TestAssertions';
+import { ExportedTestResult, toJson, toJUnitXml } from './PTestReportExporter';
+import { CONF_PDDL } from '../configuration/configuration';
+
+export const PTEST_EXPORT_FOLDER = 'tests.exportFolder';
+const DEFAULT_EXPORT_FOLDER = 'ptest-reports';
 
 /** Gathers the output of running PDDL Test cases and summarizes them into a WebView table. */
 export class PTestReport implements Disposable {
@@ -23,6 +30,7 @@ export class PTestReport implements Disposable {
 
     constructor(private context: PddlExtensionContext, private outputWindow: OutputChannel) {
         instrumentOperationAsVsCodeCommand(PTEST_REPORT_VIEW, () => this.show());
+        context.subscriptions.push(instrumentOperationAsVsCodeCommand(PTEST_REPORT_EXPORT, () => this.export().catch(showError)));
     }
 
     dispose(): void {
@@ -80,7 +88,7 @@ export class PTestReport implements Disposable {
         return assertDefined(results.get(test), `Test not found in the result set: ` + testUri.toString());
     }
 
-    outputTestResult(test: Test, outcome: TestOutcome, elapsedTime: number, error?: string): void {
+    outputTestResult(test: Test, outcome: TestOutcome, elapsedTime: number, error?: string, assertions?: AssertionResult[], plannerTitle?: string): void {
         let outcomeChar = String.fromCharCode(0x2591);
 
         switch (outcome) {
@@ -93,6 +101,9 @@ export class PTestReport implements Disposable {
             case TestOutcome.FAILED:
                 outcomeChar = String.fromCharCode(0x2612);
                 break;
+            case TestOutcome.TIMEOUT:
+                outcomeChar = String.fromCharCode(0x231B);
+                break;
             // failed assertion: 	U+01C2 450
             // ‼	Double exclamation mark	0923
         }
@@ -107,13 +118,21 @@ export class PTestReport implements Disposable {
             outputMessage += `\n    ${error}`;
         }
 
+        assertions?.forEach(assertion => {
+            outputMessage += `\n    ${PTestReport.getAssertionChar(assertion)} ${assertion.name}: ${assertion.message}`;
+        });
+
         this.outputWindow.appendLine(outputMessage);
 
-        if (outcome === TestOutcome.FAILED) {
+        if (outcome === TestOutcome.FAILED || outcome === TestOutcome.TIMEOUT) {
             this.outputWindow.show(true);
         }
 
-        this.upsertTestResult(test, new TestResult(outcome, outcomeChar, elapsedTime, error));
+        this.upsertTestResult(test, new TestResult(outcome, outcomeChar, elapsedTime, error, assertions, plannerTitle));
+    }
+
+    static getAssertionChar(assertion: AssertionResult): string {
+        return String.fromCharCode(assertion.passed ? 0x2713 : 0x2717);
     }
 
     clearAndShow(): void {
@@ -127,6 +146,70 @@ export class PTestReport implements Disposable {
         this.outputWindow.appendLine(message);
     }
 
+    /**
+     * Exports the results of the last test run as JUnit XML and JSON.
+     * Results are grouped by workspace folder and written to its configured `pddl.tests.exportFolder`.
+     */
+    async export(): Promise<void> {
+        const manifests = this.getManifests();
+        if (manifests.length === 0) {
+            window.showWarningMessage("No test results to export. Run the tests first.");
+            return;
+        }
+
+        const timestamp = new Date();
+        const resultsPerFolder = new Map<WorkspaceFolder | undefined, ExportedTestResult[]>();
+
+        manifests.forEach(manifest => {
+            const workspaceFolder = workspace.getWorkspaceFolder(manifest.uri) ?? workspace.workspaceFolders?.[0];
+            const manifestPath = workspace.asRelativePath(manifest.path, false);
+            const results = this.getTestCases(manifest).map(test => this.toExportedTestResult(test, manifestPath));
+            resultsPerFolder.set(workspaceFolder, (resultsPerFolder.get(workspaceFolder) ?? []).concat(results));
+        });
+
+        const exportedFiles: string[] = [];
+        for (const [workspaceFolder, results] of resultsPerFolder) {
+            const exportFolder = this.getExportFolder(workspaceFolder);
+            await workspace.fs.createDirectory(Uri.file(exportFolder));
+
+            const fileNameBase = 'ptest-report_' + timestamp.toISOString().split(':').join('-');
+            const xmlPath = path.join(exportFolder, fileNameBase + '.xml');
+            const jsonPath = path.join(exportFolder, fileNameBase + '.json');
+            await workspace.fs.writeFile(Uri.file(xmlPath), Buffer.from(toJUnitXml(results, timestamp), 'utf8'));
+            await workspace.fs.writeFile(Uri.file(jsonPath), Buffer.from(toJson(results, timestamp), 'utf8'));
+            exportedFiles.push(xmlPath, jsonPath);
+        }
+
+        this.output(`Test report exported to:\n${exportedFiles.join('\n')}`);
+        window.showInformationMessage(`Test report exported to ${exportedFiles.map(f => workspace.asRelativePath(f)).join(', ')}`);
+    }
+
+    private getExportFolder(workspaceFolder: WorkspaceFolder | undefined): string {
+        const configuredFolder = workspace.getConfiguration(CONF_PDDL, workspaceFolder).get<string>(PTEST_EXPORT_FOLDER) || DEFAULT_EXPORT_FOLDER;
+        if (path.isAbsolute(configuredFolder)) {
+            return configuredFolder;
+        }
+        else if (workspaceFolder) {
+            return path.join(workspaceFolder.uri.fsPath, configuredFolder);
+        }
+        else {
+            throw new Error(`Cannot resolve relative export folder '${configuredFolder}' without a workspace folder.`);
+        }
+    }
+
+    private toExportedTestResult(test: Test, manifestPath: string): ExportedTestResult {
+        const result = this.getTestResultOrThrow(test);
+        return {
+            label: test.getLabel(),
+            manifest: manifestPath,
+            outcome: TestOutcome[result.outcome],
+            elapsedTimeMs: Number.isFinite(result.elapsedTime) ? result.elapsedTime : undefined,
+            error: result.error,
+            planner: result.plannerTitle,
+            assertions: result.assertions?.map(assertion => ({ name: assertion.name, passed: assertion.passed, message: assertion.message }))
+        };
+    }
+
     show(): void {
         this.outputWindow.show(true);
         if (!this.view) {
@@ -140,7 +223,9 @@ export class TestResult {
     constructor(readonly outcome: TestOutcome,
         readonly outcomeChar: string,
         readonly elapsedTime: number,
-        readonly error?: string) {
+        readonly error?: string,
+        readonly assertions?: AssertionResult[],
+        readonly plannerTitle?: string) {
 
     }
 }
@@ -0,0 +1,120 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/** Test case result as exported to JSON/JUnit. */
+export interface ExportedTestResult {
+    /** Test case label. */
+    label: string;
+    /** Path of the test manifest (relative to the workspace folder, where applicable). */
+    manifest: string;
+    /** Test outcome, e.g. SUCCESS, FAILED, TIMEOUT, SKIPPED. */
+    outcome: string;
+    /** Planner elapsed time in milliseconds. */
+    elapsedTimeMs?: number;
+    error?: string;
+    /** Title of the planner configuration used. */
+    planner?: string;
+    assertions?: ExportedAssertionResult[];
+}
+
+export interface ExportedAssertionResult {
+    name: string;
+    passed: boolean;
+    message: string;
+}
+
+/**
+ * Serializes the test results to the structured JSON.
+ * @param results test results
+ * @param timestamp time of the export
+ */
+export function toJson(results: ExportedTestResult[], timestamp: Date): string {
+    return JSON.stringify({ timestamp: timestamp.toISOString(), tests: results }, null, 2);
+}
+
+/**
+ * Serializes the test results to the JUnit XML format. Each manifest becomes a `testsuite`.
+ * @param results test results
+ * @param timestamp time of the export
+ */
+export function toJUnitXml(results: ExportedTestResult[], timestamp: Date): string {
+    const manifests = [...new Set(results.map(r => r.manifest))];
+
+    const testSuites = manifests.map(manifest =>
+        toTestSuite(manifest, results.filter(r => r.manifest === manifest), timestamp));
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<testsuites name="PDDL tests" ${toCountAttributes(results)}>`,
+        ...testSuites,
+        `</testsuites>`,
+        ``
+    ].join('\n');
+}
+
+function toTestSuite(manifest: string, results: ExportedTestResult[], timestamp: Date): string {
+    return [
+        `  <testsuite name="${escapeXml(manifest)}" timestamp="${timestamp.toISOString()}" ${toCountAttributes(results)}>`,
+        ...results.map(result => toTestCase(manifest, result)),
+        `  </testsuite>`
+    ].join('\n');
+}
+
+function toTestCase(manifest: string, result: ExportedTestResult): string {
+    const lines = [`    <testcase name="${escapeXml(result.label)}" classname="${escapeXml(manifest)}" time="${toSeconds(result.elapsedTimeMs)}">`];
+
+    if (result.planner) {
+        lines.push(`      <properties>`,
+            `        <property name="planner" value="${escapeXml(result.planner)}"/>`,
+            `      </properties>`);
+    }
+
+    switch (result.outcome) {
+        case 'FAILED':
+        case 'TIMEOUT':
+            lines.push(`      <failure message="${escapeXml(result.error ?? 'Failed')}"/>`);
+            break;
+        case 'SUCCESS':
+            break;
+        default:
+            lines.push(`      <skipped message="${escapeXml(result.error ?? result.outcome)}"/>`);
+    }
+
+    if (result.assertions?.length) {
+        const assertionLines = result.assertions
+            .map(assertion => `${assertion.passed ? 'PASSED' : 'FAILED'} ${assertion.name}: ${assertion.message}`);
+        lines.push(`      <system-out>${escapeXml(assertionLines.join('\n'))}</system-out>`);
+    }
+
+    lines.push(`    </testcase>`);
+    return lines.join('\n');
+}
+
+function toCountAttributes(results: ExportedTestResult[]): string {
+    const failures = results.filter(r => isFailure(r.outcome)).length;
+    const skipped = results.filter(r => !isFailure(r.outcome) && r.outcome !== 'SUCCESS').length;
+    const totalTime = results
+        .map(r => r.elapsedTimeMs ?? 0)
+        .reduce((sum, time) => sum + time, 0);
+    return `tests="${results.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${toSeconds(totalTime)}"`;
+}
+
+function isFailure(outcome: string): boolean {
+    return outcome === 'FAILED' || outcome === 'TIMEOUT';
+}
+
+function toSeconds(elapsedTimeMs: number | undefined): string {
+    return elapsedTimeMs !== undefined && Number.isFinite(elapsedTimeMs) ? (elapsedTimeMs / 1000).toFixed(3) : '0';
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -14,6 +14,7 @@ import { PTestReport } from './PTestReport';
 import { TestsManifest } from './TestsManifest';
 import { Test } from './Test';
 import { PTEST_VIEW } from './PTestCommands';
+import { AssertionResult } from './TestAssertions';
 
 /** Visualizes PTest results on a web view panel. */
 export class PTestReportView {
@@ -99,7 +100,14 @@ export class PTestReportView {
         const testResult = this.report.getTestResultOrThrow(test);
         const elapsedTime = testResult.elapsedTime ? `${(testResult.elapsedTime / 1000).toFixed(2)}` : '';
         const viewTestLink = `<a  href="#" onclick="openTest('${test.getUriOrThrow().toString()}')" title="Open test case.">&#128065;</a>`;
-        return `<tr><td>${test.getLabel()} ${viewTestLink}</td><td>${testResult.outcomeChar}</td><td>${elapsedTime}</td><td>${testResult.error ?? ""}</td></tr>`;
+        const testRow = `<tr><td>${test.getLabel()} ${viewTestLink}</td><td>${testResult.outcomeChar}</td><td>${elapsedTime}</td><td>${testResult.error ?? ""}</td></tr>`;
+        const assertionRows = testResult.assertions?.map(assertion => this.renderAssertionRow(assertion)) ?? [];
+        return [testRow].concat(assertionRows).join('\n');
+    }
+
+    renderAssertionRow(assertion: AssertionResult): string {
+        const rowClass = assertion.passed ? 'assertionPassed' : 'assertionFailed';
+        return `<tr class="${rowClass}"><td class="assertionName">${assertion.name}</td><td>${PTestReport.getAssertionChar(assertion)}</td><td></td><td>${assertion.message}</td></tr>`;
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
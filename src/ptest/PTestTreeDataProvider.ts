@@ -86,6 +86,7 @@ export class PTestTreeDataProvider implements TreeDataProvider<PTestNode> {
                     icon = 'checked';
                     break;
                 case TestOutcome.FAILED:
+                case TestOutcome.TIMEOUT:
                     icon = 'error';
                     break;
                 case TestOutcome.SKIPPED:
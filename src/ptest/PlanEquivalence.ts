@@ -0,0 +1,282 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Plan, PlanStep, ProblemInfo, MetricDirection, parser } from 'pddl-workspace';
+import { PlanEvaluator, ValStepOptions } from 'ai-planning-val';
+
+/** Result of comparing an actual plan to an expected plan. */
+export class PlanComparison {
+    constructor(readonly matches: boolean, readonly reason?: string) { }
+
+    static match(): PlanComparison {
+        return new PlanComparison(true);
+    }
+
+    static mismatch(reason: string): PlanComparison {
+        return new PlanComparison(false, reason);
+    }
+}
+
+/** Evaluates the final state reached by the plan e.g. using ValStep, see `evaluateFinalState`. */
+export type FinalStateEvaluator = (plan: Plan) => Promise<FinalState>;
+
+/**
+ * Compares plans semantically, i.e. by the final state they reach (evaluated by ValStep),
+ * or by the metric, rather than step by step.
+ */
+export class PlanEquivalence {
+
+    constructor(private readonly finalStateEvaluator: FinalStateEvaluator, private readonly epsilon: number) { }
+
+    /**
+     * Compares the plans. The `actualPlan` must have the domain and problem associated.
+     * @param actualPlan plan found by the planner
+     * @param expectedPlan expected plan (typically loaded from a file)
+     * @returns match, if both plans reach the goal and the final states are the same, or the actual plan metric is equal or better
+     */
+    async compare(actualPlan: Plan, expectedPlan: Plan): Promise<PlanComparison> {
+        if (!actualPlan.domain || !actualPlan.problem) {
+            throw new Error(`Plan has no domain or problem associated.`);
+        }
+
+        const expectedPlanInContext = new Plan(expectedPlan.steps, actualPlan.domain, actualPlan.problem);
+
+        const actualFinalState = await this.finalStateEvaluator(actualPlan);
+        const expectedFinalState = await this.finalStateEvaluator(expectedPlanInContext);
+
+        const actualUnsatisfiedGoal = this.findUnsatisfiedGoal(actualPlan.problem, actualFinalState);
+        if (actualUnsatisfiedGoal) {
+            return PlanComparison.mismatch(`Actual plan does not reach the goal ${actualUnsatisfiedGoal}.`);
+        }
+
+        const expectedUnsatisfiedGoal = this.findUnsatisfiedGoal(actualPlan.problem, expectedFinalState);
+        if (expectedUnsatisfiedGoal) {
+            return PlanComparison.mismatch(`Expected plan does not reach the goal ${expectedUnsatisfiedGoal}.`);
+        }
+
+        const divergence = this.findFirstDivergence(actualFinalState, expectedFinalState);
+
+        if (!divergence) {
+            return PlanComparison.match();
+        }
+
+        if (this.isMetricEqualOrBetter(actualPlan, expectedPlan, getMetricDirection(actualPlan.problem))) {
+            return PlanComparison.match();
+        }
+
+        return PlanComparison.mismatch(`Final state differs in ${divergence.variableName}: expected ${divergence.expected}, actual ${divergence.actual}.`);
+    }
+
+    /**
+     * Compares the plan costs (metric values reported by the planner) in the direction of the problem metric.
+     */
+    private isMetricEqualOrBetter(actualPlan: Plan, expectedPlan: Plan, direction: MetricDirection): boolean {
+        if (!actualPlan.isCostDefined() || !expectedPlan.isCostDefined()) {
+            return false;
+        }
+        const isBetter = direction === MetricDirection.MAXIMIZE
+            ? actualPlan.cost > expectedPlan.cost
+            : actualPlan.cost < expectedPlan.cost;
+        return isBetter || PlanStep.equalsWithin(actualPlan.cost, expectedPlan.cost, this.epsilon);
+    }
+
+    /**
+     * Evaluates the problem `:goal` in the final state. Goal conditions that cannot be evaluated from the final state
+     * (e.g. quantified conditions or preferences) are considered satisfied.
+     * @returns the first goal condition not satisfied in the final state, or `undefined` if the goal is reached
+     */
+    private findUnsatisfiedGoal(problem: ProblemInfo, finalState: FinalState): string | undefined {
+        const goalNode = problem.syntaxTree.getDefineNode()?.getFirstOpenBracket(':goal');
+        const goal = goalNode?.getNonWhitespaceNonCommentChildren()[0];
+        if (!goal) { return undefined; }
+
+        // report the individual conjunct, rather than the whole goal
+        const conditions = getOperatorName(goal) === 'and' ? goal.getNonWhitespaceNonCommentChildren() : [goal];
+        return conditions
+            .find(condition => new GoalEvaluator(finalState, this.epsilon).evaluate(condition) === false)
+            ?.getNonCommentText();
+    }
+
+    /**
+     * Finds the first (alphabetically) state variable, whose final value differs.
+     */
+    private findFirstDivergence(actualFinalState: FinalState, expectedFinalState: FinalState): StateVariableDivergence | undefined {
+        const variableNames = [...new Set([...actualFinalState.keys(), ...expectedFinalState.keys()])].sort();
+
+        for (const variableName of variableNames) {
+            const actual = actualFinalState.get(variableName) ?? false;
+            const expected = expectedFinalState.get(variableName) ?? false;
+
+            if (!this.sameValue(actual, expected)) {
+                return { variableName, actual, expected };
+            }
+        }
+
+        return undefined;
+    }
+
+    private sameValue(actual: number | boolean, expected: number | boolean): boolean {
+        if (typeof actual === 'number' && typeof expected === 'number') {
+            return PlanStep.equalsWithin(actual, expected, this.epsilon);
+        }
+        return actual === expected;
+    }
+}
+
+interface StateVariableDivergence {
+    variableName: string;
+    actual: number | boolean;
+    expected: number | boolean;
+}
+
+/** State variable values keyed by the normalized variable name. Predicates that are false may be absent. */
+export type FinalState = Map<string, number | boolean>;
+
+/**
+ * @returns direction of the first problem metric, or _minimize_, if the problem declares no metric
+ */
+function getMetricDirection(problem: ProblemInfo): MetricDirection {
+    const metrics = problem.getMetrics();
+    return metrics.length > 0 ? metrics[0].getDirection() : MetricDirection.MINIMIZE;
+}
+
+/**
+ * @returns lower-case operator e.g. `and` in `(and ...)`, or `undefined` for a plain bracket e.g. `(on a b)`
+ */
+function getOperatorName(node: parser.PddlSyntaxNode): string | undefined {
+    return node.isType(parser.PddlTokenType.OpenBracketOperator)
+        ? node.getToken().tokenText.substring(1).trim().toLowerCase()
+        : undefined;
+}
+
+const COMPARISONS: { [operator: string]: (left: number, right: number, epsilon: number) => boolean } = {
+    '<': (left, right, epsilon): boolean => left < right && !PlanStep.equalsWithin(left, right, epsilon),
+    '<=': (left, right, epsilon): boolean => left <= right || PlanStep.equalsWithin(left, right, epsilon),
+    '>': (left, right, epsilon): boolean => left > right && !PlanStep.equalsWithin(left, right, epsilon),
+    '>=': (left, right, epsilon): boolean => left >= right || PlanStep.equalsWithin(left, right, epsilon),
+    '=': (left, right, epsilon): boolean => PlanStep.equalsWithin(left, right, epsilon),
+};
+
+const ARITHMETIC: { [operator: string]: (left: number, right: number) => number } = {
+    '+': (left, right): number => left + right,
+    '-': (left, right): number => left - right,
+    '*': (left, right): number => left * right,
+    '/': (left, right): number => left / right,
+};
+
+/**
+ * Evaluates ground goal conditions (`and`, `or`, `not`, `imply`, atoms and numeric comparisons) in the final state.
+ */
+class GoalEvaluator {
+    constructor(private readonly finalState: FinalState, private readonly epsilon: number) { }
+
+    /**
+     * @returns `undefined` if the condition cannot be evaluated
+     */
+    evaluate(condition: parser.PddlSyntaxNode): boolean | undefined {
+        const operator = getOperatorName(condition);
+        const operands = condition.getNonWhitespaceNonCommentChildren();
+
+        switch (operator) {
+            case 'and': {
+                const values = operands.map(operand => this.evaluate(operand));
+                if (values.includes(false)) { return false; }
+                return values.includes(undefined) ? undefined : true;
+            }
+            case 'or': {
+                const values = operands.map(operand => this.evaluate(operand));
+                if (values.includes(true)) { return true; }
+                return values.includes(undefined) ? undefined : false;
+            }
+            case 'not': {
+                const value = this.evaluate(operands[0]);
+                return value === undefined ? undefined : !value;
+            }
+            case 'imply': {
+                const antecedent = this.evaluate(operands[0]);
+                const consequent = this.evaluate(operands[1]);
+                if (antecedent === false || consequent === true) { return true; }
+                return antecedent === true && consequent === false ? false : undefined;
+            }
+        }
+
+        if (operator !== undefined && COMPARISONS[operator] && operands.length === 2) {
+            const left = this.evaluateExpression(operands[0]);
+            const right = this.evaluateExpression(operands[1]);
+            return left === undefined || right === undefined ? undefined : COMPARISONS[operator](left, right, this.epsilon);
+        }
+
+        if (condition.isType(parser.PddlTokenType.OpenBracket) || operator === 'at') {
+            // atom e.g. `(on a b)`, or `(at truck1 depot)`, which the parser reads as the `at` operator
+            const value = this.finalState.get(normalizeVariableName(condition.getNonCommentText()));
+            return value === undefined ? false : value === true;
+        }
+
+        return undefined;
+    }
+
+    private evaluateExpression(expression: parser.PddlSyntaxNode): number | undefined {
+        if (expression.isType(parser.PddlTokenType.Other)) {
+            const number = parseFloat(expression.getText());
+            return isNaN(number) ? undefined : number;
+        }
+
+        const operator = getOperatorName(expression);
+        const operands = expression.getNonWhitespaceNonCommentChildren();
+        if (operator !== undefined && ARITHMETIC[operator]) {
+            const values = operands.map(operand => this.evaluateExpression(operand));
+            if (values.length === 0 || values.some(value => value === undefined)) { return undefined; }
+            // unary minus e.g. `(- (f))`
+            if (operator === '-' && values.length === 1) { return -values[0]!; }
+            return values.reduce((left, right) => ARITHMETIC[operator](left!, right!));
+        }
+
+        if (expression.isType(parser.PddlTokenType.OpenBracket)) {
+            const value = this.finalState.get(normalizeVariableName(expression.getNonCommentText()));
+            return typeof value === 'number' ? value : undefined;
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Evaluates the final state reached by the plan using ValStep.
+ * ValStep may only return values that were modified by the plan, so the unmodified ones are taken from the problem `:init`.
+ * @param plan plan with domain and problem associated
+ * @param valStepOptions ValStep options
+ */
+export async function evaluateFinalState(plan: Plan, valStepOptions: ValStepOptions): Promise<FinalState> {
+    if (!plan.problem) {
+        throw new Error(`Plan has no problem associated.`);
+    }
+
+    const finalValues = await new PlanEvaluator().evaluatePlan(plan, valStepOptions);
+
+    if (!finalValues) {
+        throw new Error(`ValStep failed to evaluate the final state.`);
+    }
+
+    const finalState: FinalState = new Map();
+    plan.problem.getInits()
+        .filter(init => init.getTime() <= 0)
+        .forEach(init => finalState.set(normalizeVariableName(init.getVariableName()), init.getValue()));
+    finalValues.forEach(value => finalState.set(normalizeVariableName(value.getVariableName()), value.getValue()));
+    return finalState;
+}
+
+/**
+ * Normalizes the state variable name, so `(at  Truck1 depot)` and `at truck1 depot` are the same.
+ * @param variableName state variable name with or without brackets
+ */
+export function normalizeVariableName(variableName: string): string {
+    return variableName.trim()
+        .replace(/^\(/, '').replace(/\)$/, '')
+        .trim()
+        .split(/\s+/)
+        .join(' ')
+        .toLowerCase();
+}
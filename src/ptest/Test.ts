@@ -4,16 +4,32 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import { Uri } from 'vscode';
+import { URI } from 'vscode-uri';
 import { join, dirname } from 'path';
 import { TestsManifest } from './TestsManifest';
 import { PreProcessor, CommandPreProcessor, NunjucksPreProcessor, PythonPreProcessor, Jinja2PreProcessor } from 'pddl-workspace';
 import { PddlExtensionContext } from 'pddl-workspace';
-import { throwForUndefined } from '../utils';
+import { throwForUndefined } from '../util/Asserts';
+import { TestAssertions } from './TestAssertions';
 
-export enum TestOutcome { UNKNOWN, SUCCESS, FAILED, SKIPPED, IN_PROGRESS }
+export enum TestOutcome { UNKNOWN, SUCCESS, FAILED, SKIPPED, IN_PROGRESS, TIMEOUT }
 
-const EXPECTED_PLANS = "expectedPlans";
+/** How is the actual plan compared to the expected plans. */
+export enum PlanAssertionMode {
+    /** Plans must have the same steps (within epsilon) and makespan. */
+    EXACT = "exact",
+    /** Plans must reach the same final state, or the actual plan must have an equal or better metric. */
+    EQUIVALENT = "equivalent"
+}
+
+function isPlanAssertionMode(value: unknown): value is PlanAssertionMode {
+    return Object.values(PlanAssertionMode).includes(value as PlanAssertionMode);
+}
+
+export const EXPECTED_PLANS = "expectedPlans";
+const PLAN_ASSERTION = "planAssertion";
+const ASSERTIONS = "assertions";
+export const TIMEOUT_MS = "timeoutMs";
 
 const LABEL = "label";
 const DESCRIPTION = "description";
@@ -31,7 +47,9 @@ const PRE_PROCESSOR_ARGS = "args";
 export class Test {
     private manifest: TestsManifest | undefined;
     private index: number | undefined;
-    private uri: Uri | undefined;
+    private uri: URI | undefined;
+    /** Unsupported `planAssertion` value, which is kept, so it is not lost when the manifest is saved. */
+    private invalidPlanAssertion: unknown;
 
     constructor(private label: string | undefined,
         private description: string | undefined,
@@ -39,7 +57,10 @@ export class Test {
         private problem: string | undefined,
         private options: string | undefined,
         private preProcessor: PreProcessor | undefined,
-        private expectedPlans: string[] | undefined) {
+        private expectedPlans: string[] | undefined,
+        private planAssertion?: PlanAssertionMode,
+        private assertions?: TestAssertions,
+        private timeoutMs?: number) {
 
     }
 
@@ -51,6 +72,9 @@ export class Test {
         const problem = json[PROBLEM];
         const options = json[OPTIONS];
         const expectedPlans = json[EXPECTED_PLANS] ?? [];
+        const planAssertion = json[PLAN_ASSERTION];
+        const assertions = json[ASSERTIONS] ? TestAssertions.fromJSON(json[ASSERTIONS]) : undefined;
+        const timeoutMs = json[TIMEOUT_MS];
 
         const preProcessSettings = json[PRE_PROCESSOR];
         let preProcessor: PreProcessor | undefined;
@@ -74,7 +98,12 @@ export class Test {
             }
         }
 
-        return new Test(label, description, domain, problem, options, preProcessor, expectedPlans);
+        const validPlanAssertion = isPlanAssertionMode(planAssertion) ? planAssertion : undefined;
+        const test = new Test(label, description, domain, problem, options, preProcessor, expectedPlans, validPlanAssertion, assertions, timeoutMs);
+        if (planAssertion !== undefined && !validPlanAssertion) {
+            test.invalidPlanAssertion = planAssertion;
+        }
+        return test;
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -88,6 +117,9 @@ export class Test {
         if (this.problem) { json[PROBLEM] = this.problem; }
         if (this.options) { json[OPTIONS] = this.options; }
         if (this.expectedPlans?.length) { json[EXPECTED_PLANS] = this.expectedPlans; }
+        if (this.planAssertion ?? this.invalidPlanAssertion) { json[PLAN_ASSERTION] = this.planAssertion ?? this.invalidPlanAssertion; }
+        if (this.assertions && !this.assertions.isEmpty()) { json[ASSERTIONS] = this.assertions.toJSON(); }
+        if (this.timeoutMs !== undefined) { json[TIMEOUT_MS] = this.timeoutMs; }
 
         if (this.preProcessor) { json[PRE_PROCESSOR] = { kind: "unsupported" }; } // creating test cases with pre-processing is currently not supported
 
@@ -115,23 +147,23 @@ export class Test {
         return this.domain ?? this.manifest?.defaultDomain ?? throwForUndefined('domain');
     }
 
-    getDomainUri(): Uri {
-        return Uri.file(this.toAbsolutePath(this.getDomain()));
+    getDomainUri(): URI {
+        return URI.file(this.toAbsolutePath(this.getDomain()));
     }
 
     getProblem(): string {
         return this.problem ?? this.manifest?.defaultProblem ?? throwForUndefined("problem");
     }
 
-    getProblemUri(): Uri {
-        return Uri.file(this.toAbsolutePath(this.getProblem()));
+    getProblemUri(): URI {
+        return URI.file(this.toAbsolutePath(this.getProblem()));
     }
 
-    getUri(): Uri | undefined {
+    getUri(): URI | undefined {
         return this.uri;
     }
 
-    getUriOrThrow(): Uri {
+    getUriOrThrow(): URI {
         if (!this.uri) { throw new Error(`Test ${this.getLabel()} has no URI.`); }
         return this.uri;
     }
@@ -160,6 +192,31 @@ export class Test {
         return this.expectedPlans ?? [];
     }
 
+    getPlanAssertionMode(): PlanAssertionMode {
+        return this.planAssertion ?? PlanAssertionMode.EXACT;
+    }
+
+    /**
+     * @returns reason why the test case definition is invalid, or `undefined` if it is valid
+     */
+    getDefinitionError(): string | undefined {
+        if (this.invalidPlanAssertion !== undefined) {
+            return `Unsupported ${PLAN_ASSERTION} '${this.invalidPlanAssertion}'. Supported values: ${Object.values(PlanAssertionMode).join(', ')}.`;
+        }
+        return undefined;
+    }
+
+    getAssertions(): TestAssertions | undefined {
+        return this.assertions;
+    }
+
+    /**
+     * @returns planner time limit in milliseconds (falls back to the manifest `timeoutMs`), or `undefined` for no limit
+     */
+    getTimeoutMs(): number | undefined {
+        return this.timeoutMs ?? this.manifest?.timeoutMs;
+    }
+
     toAbsolutePath(fileName: string): string {
         if (!this.manifest) {
             throw new Error(`Test ${this.getLabel()} is not associated to a manifest.`);
@@ -167,7 +224,7 @@ export class Test {
         return join(dirname(this.manifest.path), fileName);
     }
 
-    static fromUri(uri: Uri, context: PddlExtensionContext): Test | undefined {
+    static fromUri(uri: URI, context: PddlExtensionContext): Test | undefined {
         const testIndex = parseInt(uri.fragment);
         if (Number.isFinite(testIndex)) {
             const manifest = TestsManifest.load(uri.fsPath, context);
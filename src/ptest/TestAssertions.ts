@@ -0,0 +1,202 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { Plan, PlanStep } from 'pddl-workspace';
+import { FinalState, normalizeVariableName } from './PlanEquivalence';
+
+const MAX_MAKESPAN = "maxMakespan";
+const MAX_COST = "maxCost";
+const MIN_PLANS = "minPlans";
+const MUST_CONTAIN_ACTION = "mustContainAction";
+const MUST_NOT_CONTAIN_ACTION = "mustNotContainAction";
+const EXPECT_UNSOLVABLE = "expectUnsolvable";
+const MAX_ELAPSED_TIME_MS = "maxElapsedTimeMs";
+const FINAL_STATE = "finalState";
+
+/** Outcome of one assertion evaluated on the planner output. */
+export class AssertionResult {
+    constructor(readonly name: string, readonly passed: boolean, readonly message: string) { }
+
+    static passed(name: string, message: string): AssertionResult {
+        return new AssertionResult(name, true, message);
+    }
+
+    static failed(name: string, message: string): AssertionResult {
+        return new AssertionResult(name, false, message);
+    }
+}
+
+/** Planner output, which the assertions are evaluated against. */
+export interface PlannerOutcome {
+    /** Plans found by the planner. The last one is considered the best. */
+    plans: Plan[];
+    /** Planner elapsed time in milliseconds. */
+    elapsedTime: number;
+}
+
+/**
+ * Declarative assertions of a test case (the `assertions` object in the `.ptest.json` test case).
+ */
+export class TestAssertions {
+
+    constructor(
+        readonly maxMakespan?: number,
+        readonly maxCost?: number,
+        readonly minPlans?: number,
+        readonly mustContainAction?: string[],
+        readonly mustNotContainAction?: string[],
+        readonly expectUnsolvable?: boolean,
+        readonly maxElapsedTimeMs?: number,
+        readonly finalState?: Record<string, number | boolean>) {
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    static fromJSON(json: any): TestAssertions {
+        return new TestAssertions(
+            json[MAX_MAKESPAN],
+            json[MAX_COST],
+            json[MIN_PLANS],
+            toArray(json[MUST_CONTAIN_ACTION]),
+            toArray(json[MUST_NOT_CONTAIN_ACTION]),
+            json[EXPECT_UNSOLVABLE],
+            json[MAX_ELAPSED_TIME_MS],
+            json[FINAL_STATE]);
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    toJSON(): any {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const json: any = {};
+
+        if (this.maxMakespan !== undefined) { json[MAX_MAKESPAN] = this.maxMakespan; }
+        if (this.maxCost !== undefined) { json[MAX_COST] = this.maxCost; }
+        if (this.minPlans !== undefined) { json[MIN_PLANS] = this.minPlans; }
+        if (this.mustContainAction?.length) { json[MUST_CONTAIN_ACTION] = this.mustContainAction; }
+        if (this.mustNotContainAction?.length) { json[MUST_NOT_CONTAIN_ACTION] = this.mustNotContainAction; }
+        if (this.expectUnsolvable !== undefined) { json[EXPECT_UNSOLVABLE] = this.expectUnsolvable; }
+        if (this.maxElapsedTimeMs !== undefined) { json[MAX_ELAPSED_TIME_MS] = this.maxElapsedTimeMs; }
+        if (this.finalState && Object.keys(this.finalState).length) { json[FINAL_STATE] = this.finalState; }
+
+        return json;
+    }
+
+    isEmpty(): boolean {
+        return Object.keys(this.toJSON()).length === 0;
+    }
+
+    /** Final state assertions need the plan to be evaluated by ValStep. */
+    needsFinalState(): boolean {
+        return this.finalState !== undefined && Object.keys(this.finalState).length > 0;
+    }
+
+    /**
+     * Evaluates all the assertions.
+     * @param outcome planner output
+     * @param finalState state reached by the best plan, if `needsFinalState()` and a plan was found
+     * @param epsilon tolerance for comparing the numeric state variable values
+     * @returns one result per assertion
+     */
+    evaluate(outcome: PlannerOutcome, finalState: FinalState | undefined, epsilon: number): AssertionResult[] {
+        const results: AssertionResult[] = [];
+        const bestPlan = outcome.plans.length ? outcome.plans[outcome.plans.length - 1] : undefined;
+
+        if (this.expectUnsolvable !== undefined) {
+            const solved = bestPlan !== undefined;
+            results.push(solved === this.expectUnsolvable
+                ? AssertionResult.failed(EXPECT_UNSOLVABLE, this.expectUnsolvable ? `Plan was found.` : `No plan found.`)
+                : AssertionResult.passed(EXPECT_UNSOLVABLE, this.expectUnsolvable ? `No plan found.` : `Plan was found.`));
+        }
+
+        if (this.minPlans !== undefined) {
+            results.push(outcome.plans.length >= this.minPlans
+                ? AssertionResult.passed(MIN_PLANS, `${outcome.plans.length} plan(s) found.`)
+                : AssertionResult.failed(MIN_PLANS, `${outcome.plans.length} plan(s) found, expected at least ${this.minPlans}.`));
+        }
+
+        if (this.maxElapsedTimeMs !== undefined) {
+            results.push(outcome.elapsedTime <= this.maxElapsedTimeMs
+                ? AssertionResult.passed(MAX_ELAPSED_TIME_MS, `Elapsed ${outcome.elapsedTime}ms.`)
+                : AssertionResult.failed(MAX_ELAPSED_TIME_MS, `Elapsed ${outcome.elapsedTime}ms, expected at most ${this.maxElapsedTimeMs}ms.`));
+        }
+
+        if (this.maxMakespan !== undefined) {
+            results.push(this.assertPlan(MAX_MAKESPAN, bestPlan, plan =>
+                plan.makespan <= this.maxMakespan!
+                    ? AssertionResult.passed(MAX_MAKESPAN, `Makespan ${plan.makespan}.`)
+                    : AssertionResult.failed(MAX_MAKESPAN, `Makespan ${plan.makespan}, expected at most ${this.maxMakespan}.`)));
+        }
+
+        if (this.maxCost !== undefined) {
+            results.push(this.assertPlan(MAX_COST, bestPlan, plan => {
+                if (!plan.isCostDefined()) {
+                    return AssertionResult.failed(MAX_COST, `Plan cost is not known.`);
+                }
+                return plan.cost <= this.maxCost!
+                    ? AssertionResult.passed(MAX_COST, `Cost ${plan.cost}.`)
+                    : AssertionResult.failed(MAX_COST, `Cost ${plan.cost}, expected at most ${this.maxCost}.`);
+            }));
+        }
+
+        this.mustContainAction?.forEach(action =>
+            results.push(this.assertPlan(MUST_CONTAIN_ACTION, bestPlan, plan =>
+                containsAction(plan, action)
+                    ? AssertionResult.passed(MUST_CONTAIN_ACTION, `Plan contains '${action}'.`)
+                    : AssertionResult.failed(MUST_CONTAIN_ACTION, `Plan does not contain '${action}'.`))));
+
+        this.mustNotContainAction?.forEach(action =>
+            results.push(this.assertPlan(MUST_NOT_CONTAIN_ACTION, bestPlan, plan =>
+                containsAction(plan, action)
+                    ? AssertionResult.failed(MUST_NOT_CONTAIN_ACTION, `Plan contains '${action}'.`)
+                    : AssertionResult.passed(MUST_NOT_CONTAIN_ACTION, `Plan does not contain '${action}'.`))));
+
+        if (this.finalState) {
+            Object.keys(this.finalState).forEach(variableName => {
+                const expectedValue = this.finalState![variableName];
+                results.push(this.assertPlan(FINAL_STATE, bestPlan, () => {
+                    if (!finalState) {
+                        return AssertionResult.failed(FINAL_STATE, `Final state was not evaluated.`);
+                    }
+                    const actualValue = finalState.get(normalizeVariableName(variableName)) ?? false;
+                    return sameValue(actualValue, expectedValue, epsilon)
+                        ? AssertionResult.passed(FINAL_STATE, `(${normalizeVariableName(variableName)}) is ${actualValue}.`)
+                        : AssertionResult.failed(FINAL_STATE, `(${normalizeVariableName(variableName)}) is ${actualValue}, expected ${expectedValue}.`);
+                }));
+            });
+        }
+
+        return results;
+    }
+
+    private assertPlan(name: string, bestPlan: Plan | undefined, assertion: (plan: Plan) => AssertionResult): AssertionResult {
+        if (!bestPlan) {
+            return AssertionResult.failed(name, `No plan found.`);
+        }
+        return assertion(bestPlan);
+    }
+}
+
+function sameValue(actualValue: number | boolean, expectedValue: number | boolean, epsilon: number): boolean {
+    if (typeof actualValue === 'number' && typeof expectedValue === 'number') {
+        return PlanStep.equalsWithin(actualValue, expectedValue, epsilon);
+    }
+    return actualValue === expectedValue;
+}
+
+/**
+ * Matches either the action name (e.g. `move`), or the full action name including the objects (e.g. `move truck1 a b`).
+ */
+function containsAction(plan: Plan, action: string): boolean {
+    const normalizedAction = normalizeVariableName(action);
+    return plan.steps.some(step =>
+        step.getActionName().toLowerCase() === normalizedAction
+        || normalizeVariableName(step.getFullActionName()) === normalizedAction);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toArray(value: any): string[] | undefined {
+    if (value === undefined) { return undefined; }
+    return Array.isArray(value) ? value : [value];
+}
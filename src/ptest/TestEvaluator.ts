@@ -0,0 +1,142 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { readFileSync } from 'fs';
+import { URI } from 'vscode-uri';
+import { Plan, PlanStep, parser } from 'pddl-workspace';
+import { ValStepOptions } from 'ai-planning-val';
+import { Test, TestOutcome, PlanAssertionMode, EXPECTED_PLANS } from './Test';
+import { PlanningOutcome, PlanningResult } from '../planning/PlanningResult';
+import { PlanEquivalence, PlanComparison, evaluateFinalState } from './PlanEquivalence';
+import { AssertionResult } from './TestAssertions';
+
+/** Test outcome with the reason of failure and the individual assertion results. */
+export class TestEvaluation {
+    constructor(readonly outcome: TestOutcome, readonly error?: string, readonly assertions?: AssertionResult[]) { }
+}
+
+/**
+ * Evaluates the planner output against the test case expected plans and assertions.
+ * Does not depend on VS Code, so it may be used by the headless test runner too.
+ */
+export class TestEvaluator {
+
+    /**
+     * @param epsilon epsilon time step used to compare plans
+     * @param valStepOptionsProvider supplies the ValStep options, if the final state must be evaluated
+     */
+    constructor(private readonly epsilon: number, private readonly valStepOptionsProvider: () => Promise<ValStepOptions>) { }
+
+    /**
+     * Evaluates the expected plans and the declarative assertions.
+     * @param test test case
+     * @param result planning result
+     */
+    async evaluate(test: Test, result: PlanningResult): Promise<TestEvaluation> {
+        if (result.outcome === PlanningOutcome.FAILURE) {
+            return new TestEvaluation(TestOutcome.FAILED, result.error ?? "Unknown error while planning.");
+        } else if (result.outcome === PlanningOutcome.KILLED) {
+            return new TestEvaluation(TestOutcome.SKIPPED, 'Killed by the user.');
+        }
+
+        try {
+            return await this.evaluateAssertions(test, result);
+        } catch (err) {
+            return new TestEvaluation(TestOutcome.FAILED, "Failed to evaluate test assertions. Error: " + (err.message ?? err));
+        }
+    }
+
+    private async evaluateAssertions(test: Test, result: PlanningResult): Promise<TestEvaluation> {
+        const assertions = test.getAssertions();
+        const assertionResults: AssertionResult[] = [];
+
+        if (assertions) {
+            const finalState = assertions.needsFinalState() && result.plans.length
+                ? await evaluateFinalState(result.plans[result.plans.length - 1], await this.valStepOptionsProvider())
+                : undefined;
+            assertionResults.push(...assertions.evaluate(result, finalState, this.epsilon));
+        }
+
+        if (result.plans.length === 0 && !assertions?.expectUnsolvable) {
+            return new TestEvaluation(TestOutcome.FAILED, 'No plan found.', assertionResults);
+        }
+
+        if (test.hasExpectedPlans() && result.plans.length) {
+            assertionResults.push(await this.assertMatchesAnExpectedPlan(result, test));
+        }
+
+        const failedAssertions = assertionResults.filter(assertion => !assertion.passed);
+
+        if (failedAssertions.length) {
+            const error = failedAssertions.map(assertion => assertion.message).join(' ');
+            return new TestEvaluation(TestOutcome.FAILED, error, assertionResults);
+        }
+        else {
+            return new TestEvaluation(TestOutcome.SUCCESS, undefined, assertionResults);
+        }
+    }
+
+    private async assertMatchesAnExpectedPlan(result: PlanningResult, test: Test): Promise<AssertionResult> {
+        const expectedPlans = test.getExpectedPlans()
+            .map(expectedPlanFileName => this.loadPlan(test.toAbsolutePath(expectedPlanFileName)));
+
+        for (const plan of result.plans) {
+            let firstMismatch: string | undefined;
+            let matchFound = false;
+
+            for (const expectedPlan of expectedPlans) {
+                const comparison = await this.comparePlans(plan, expectedPlan, test.getPlanAssertionMode());
+                if (comparison.matches) {
+                    matchFound = true;
+                    break;
+                }
+                firstMismatch = firstMismatch ?? comparison.reason;
+            }
+
+            if (!matchFound) {
+                const reason = firstMismatch ? ` ${firstMismatch}` : '';
+                return AssertionResult.failed(EXPECTED_PLANS, "Actual plan is NOT matching any of the expected plans." + reason);
+            }
+        }
+
+        return AssertionResult.passed(EXPECTED_PLANS, "Actual plan is matching an expected plan.");
+    }
+
+    private async comparePlans(actualPlan: Plan, expectedPlan: Plan, mode: PlanAssertionMode): Promise<PlanComparison> {
+        if (this.areSame(actualPlan, expectedPlan)) {
+            return PlanComparison.match();
+        }
+
+        switch (mode) {
+            case PlanAssertionMode.EQUIVALENT:
+                const valStepOptions = await this.valStepOptionsProvider();
+                return await new PlanEquivalence(plan => evaluateFinalState(plan, valStepOptions), this.epsilon).compare(actualPlan, expectedPlan);
+            default:
+                return PlanComparison.mismatch("Plan steps or makespan differ.");
+        }
+    }
+
+    areSame(actualPlan: Plan, expectedPlan: Plan): boolean {
+        if (actualPlan.steps.length !== expectedPlan.steps.length) { return false; }
+        if (actualPlan.steps.length === 0) { return true; }
+
+        if (!PlanStep.equalsWithin(actualPlan.makespan, expectedPlan.makespan, this.epsilon)) { return false; }
+
+        for (let index = 0; index < actualPlan.steps.length; index++) {
+            const actualStep = actualPlan.steps[index];
+            const expectedStep = expectedPlan.steps[index];
+
+            if (!expectedStep.equals(actualStep, this.epsilon)) { return false; }
+        }
+
+        return true;
+    }
+
+    loadPlan(expectedPlanPath: string): Plan {
+        const expectedPlanText = readFileSync(expectedPlanPath, { encoding: "utf-8" });
+        return parser.PddlPlannerOutputParser.parseOnePlan(expectedPlanText, URI.file(expectedPlanPath), this.epsilon);
+    }
+}
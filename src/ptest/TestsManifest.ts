@@ -7,8 +7,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { readFileSync } from 'fs';
-import { Test } from './Test';
-import { Uri, window } from 'vscode';
+import { Test, TIMEOUT_MS } from './Test';
+import { URI } from 'vscode-uri';
 import { PddlExtensionContext } from 'pddl-workspace';
 import { utils } from 'pddl-workspace';
 
@@ -21,7 +21,7 @@ export class TestsManifest {
     testCases: Test[] = [];
 
     constructor(public readonly defaultDomain: string | undefined, public readonly defaultProblem: string | undefined,
-        public readonly defaultOptions: string | undefined, public readonly uri: Uri) {
+        public readonly defaultOptions: string | undefined, public readonly uri: URI, public readonly timeoutMs?: number) {
         this.path = uri.fsPath;
     }
 
@@ -29,9 +29,10 @@ export class TestsManifest {
         const defaultDomain: string | undefined = json["defaultDomain"];
         const defaultProblem: string | undefined = json["defaultProblem"];
         const defaultOptions: string | undefined = json["defaultOptions"];
-        const uri = Uri.file(path);
+        const timeoutMs: number | undefined = json[TIMEOUT_MS];
+        const uri = URI.file(path);
 
-        const manifest = new TestsManifest(defaultDomain, defaultProblem, defaultOptions, uri);
+        const manifest = new TestsManifest(defaultDomain, defaultProblem, defaultOptions, uri, timeoutMs);
         const tests: Test[] = json["cases"] ? json["cases"].map((t: any) => Test.fromJSON(t, context)) : [];
         tests.forEach(case1 => manifest.addCase(case1));
 
@@ -53,6 +54,7 @@ export class TestsManifest {
         if (this.defaultDomain !== undefined) { obj["defaultDomain"] = this.defaultDomain; }
         if (this.defaultProblem !== undefined) { obj["defaultProblem"] = this.defaultProblem; }
         if (this.defaultOptions !== undefined) { obj["defaultOptions"] = this.defaultOptions; }
+        if (this.timeoutMs !== undefined) { obj[TIMEOUT_MS] = this.timeoutMs; }
         const cases: Test[] = [];
         this.testCases.forEach(test => cases.push(test.toJSON()));
         if (cases.length > 0) { obj["cases"] = cases; }
@@ -62,7 +64,7 @@ export class TestsManifest {
             await utils.afs.writeFile(this.uri.fsPath, json, 'utf8');
         }
         catch(err) {
-            window.showErrorMessage(`Error saving test case manifest ${err.name}: ${err.message}`);
+            throw new Error(`Error saving test case manifest ${err.name}: ${err.message}`);
         }
     }
 }
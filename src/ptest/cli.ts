@@ -0,0 +1,231 @@
+#!/usr/bin/env node
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { parse } from 'jsonc-parser';
+import { PddlExtensionContext, planner } from 'pddl-workspace';
+import { ValStepOptions } from 'ai-planning-val';
+import { TestsManifest } from './TestsManifest';
+import { TestOutcome } from './Test';
+import { HeadlessTestRunner, HeadlessTestResult, allPassed, createExecutablePlannerFactory } from './HeadlessTestRunner';
+import { ExportedTestResult, toJson, toJUnitXml } from './PTestReportExporter';
+import { PlannerExecutable } from '../planning/PlannerExecutable';
+
+/** Same as the `pddlPlanner.epsilonTimeStep` setting default. */
+const DEFAULT_EPSILON = 1e-3;
+
+const USAGE = `Usage: pddl-test [options] <manifest.ptest.json | folder>...
+
+Runs PDDL test manifests outside of VS Code. Folders are searched recursively for *.ptest.json files.
+
+Options:
+  --planner <path>         planner executable or command
+  --syntax <template>      planner command-line syntax (default: "${PlannerExecutable.DEFAULT_SYNTAX}")
+  --planner-title <title>  planner title shown in the report
+  --settings <file>        VS Code settings file to read the 'pddl.planners' and 'pddl.selectedPlanner' from,
+                           if --planner is not specified (default: .vscode/settings.json)
+  --epsilon <number>       epsilon time step (default: ${DEFAULT_EPSILON})
+  --valStep <path>         ValStep executable (needed by the final state assertions)
+  --workers <number>       number of test cases executed in parallel (default: 1)
+  --python <path>          python interpreter used by the python/jinja2 pre-processors (default: python)
+  --junit <file>           writes the JUnit XML report
+  --json <file>            writes the JSON report
+  --verbose                echoes the planner output
+  --help                   prints this help`;
+
+interface CliOptions {
+    paths: string[];
+    planner?: string;
+    syntax?: string;
+    plannerTitle?: string;
+    settings: string;
+    epsilon: number;
+    valStepPath?: string;
+    workers: number;
+    pythonPath: string;
+    junit?: string;
+    json?: string;
+    verbose: boolean;
+    help: boolean;
+}
+
+function parseArguments(args: string[]): CliOptions {
+    const options: CliOptions = {
+        paths: [], settings: path.join('.vscode', 'settings.json'), epsilon: DEFAULT_EPSILON, workers: 1, pythonPath: 'python', verbose: false, help: false
+    };
+
+    for (let index = 0; index < args.length; index++) {
+        const arg = args[index];
+        const value = (): string => {
+            const nextArg = args[++index];
+            if (nextArg === undefined) { throw new Error(`Missing value for ${arg}`); }
+            return nextArg;
+        };
+
+        switch (arg) {
+            case '--planner': options.planner = value(); break;
+            case '--syntax': options.syntax = value(); break;
+            case '--planner-title': options.plannerTitle = value(); break;
+            case '--settings': options.settings = value(); break;
+            case '--epsilon': options.epsilon = parseFloat(value()); break;
+            case '--valStep': options.valStepPath = value(); break;
+            case '--workers': options.workers = parseInt(value()); break;
+            case '--python': options.pythonPath = value(); break;
+            case '--junit': options.junit = value(); break;
+            case '--json': options.json = value(); break;
+            case '--verbose': options.verbose = true; break;
+            case '--help': case '-h': options.help = true; break;
+            default:
+                if (arg.startsWith('--')) { throw new Error(`Unknown option: ${arg}`); }
+                options.paths.push(arg);
+        }
+    }
+
+    if (!Number.isFinite(options.epsilon)) { throw new Error(`Invalid --epsilon value.`); }
+    if (!Number.isFinite(options.workers) || options.workers < 1) { throw new Error(`Invalid --workers value.`); }
+
+    return options;
+}
+
+/**
+ * Planner from the command-line, or the selected planner from the VS Code settings file.
+ */
+function getPlannerConfiguration(options: CliOptions): planner.PlannerConfiguration {
+    if (options.planner) {
+        return {
+            kind: 'cli',
+            title: options.plannerTitle ?? options.planner,
+            path: options.planner,
+            syntax: options.syntax ?? PlannerExecutable.DEFAULT_SYNTAX,
+            canConfigure: false
+        };
+    }
+
+    if (!fs.existsSync(options.settings)) {
+        throw new Error(`No planner specified. Use the --planner option, or the --settings option to point to a VS Code settings file.`);
+    }
+
+    const settings = parse(fs.readFileSync(options.settings, { encoding: 'utf8' }));
+    const planners: planner.PlannerConfiguration[] = settings?.['pddl.planners'] ?? [];
+    const selectedPlannerTitle: string | undefined = options.plannerTitle ?? settings?.['pddl.selectedPlanner'];
+
+    const plannerConfiguration = selectedPlannerTitle !== undefined
+        ? planners.find(p => p.title === selectedPlannerTitle)
+        : planners[0];
+
+    if (!plannerConfiguration) {
+        throw new Error(`Planner ${selectedPlannerTitle ?? ''} not found in ${options.settings}.`);
+    }
+
+    return plannerConfiguration;
+}
+
+/**
+ * Finds the manifest files. Folders are searched recursively.
+ * @param paths manifest or folder paths, absolute or relative to the current directory
+ * @returns absolute manifest paths, so the domain and problem files resolve relative to the manifest
+ */
+function findManifests(paths: string[]): string[] {
+    const manifests: string[] = [];
+    for (const manifestOrFolder of paths.map(manifestOrFolder => path.resolve(manifestOrFolder))) {
+        if (fs.statSync(manifestOrFolder).isDirectory()) {
+            const children = fs.readdirSync(manifestOrFolder)
+                .filter(child => child !== 'node_modules' && !child.startsWith('.'))
+                .map(child => path.join(manifestOrFolder, child))
+                .filter(child => fs.statSync(child).isDirectory() || child.endsWith('.ptest.json'));
+            manifests.push(...findManifests(children));
+        } else {
+            manifests.push(manifestOrFolder);
+        }
+    }
+    return manifests;
+}
+
+function createContext(options: CliOptions): PddlExtensionContext {
+    const extensionPath = path.resolve(__dirname, '..', '..');
+    return {
+        extensionPath,
+        asAbsolutePath: (relativePath: string): string => path.join(extensionPath, relativePath),
+        pythonPath: (): string => options.pythonPath,
+        storagePath: undefined,
+        subscriptions: []
+    };
+}
+
+function toExportedResult(result: HeadlessTestResult, manifestPath: string): ExportedTestResult {
+    return {
+        label: result.test.getLabel(),
+        manifest: path.relative(process.cwd(), manifestPath),
+        outcome: TestOutcome[result.evaluation.outcome],
+        elapsedTimeMs: result.elapsedTime,
+        error: result.evaluation.error,
+        planner: result.plannerTitle,
+        assertions: result.evaluation.assertions?.map(a => ({ name: a.name, passed: a.passed, message: a.message }))
+    };
+}
+
+function printResult(result: HeadlessTestResult): void {
+    const outcomeChar = result.evaluation.outcome === TestOutcome.SUCCESS ? '✓' : '✗';
+    const error = result.evaluation.error ? ` - ${result.evaluation.error}` : '';
+    console.log(`  ${outcomeChar} ${result.test.getLabel()} (${(result.elapsedTime / 1000).toFixed(2)} sec)${error}`);
+    result.evaluation.assertions
+        ?.filter(assertion => !assertion.passed)
+        .forEach(assertion => console.log(`      ✗ ${assertion.name}: ${assertion.message}`));
+}
+
+async function main(args: string[]): Promise<number> {
+    const options = parseArguments(args);
+
+    if (options.help || options.paths.length === 0) {
+        console.log(USAGE);
+        return options.help ? 0 : 2;
+    }
+
+    const context = createContext(options);
+    const runner = new HeadlessTestRunner(context, {
+        createPlanner: createExecutablePlannerFactory(getPlannerConfiguration(options)),
+        epsilon: options.epsilon,
+        valStepOptions: options.valStepPath ? async (): Promise<ValStepOptions> => ({ valStepPath: options.valStepPath!, verbose: false }) : undefined,
+        workerPoolSize: options.workers,
+        output: (text): void => {
+            if (options.verbose) { process.stdout.write(text); }
+        }
+    });
+
+    const allResults: ExportedTestResult[] = [];
+    let success = true;
+
+    for (const manifestPath of findManifests(options.paths)) {
+        console.log(path.relative(process.cwd(), manifestPath));
+        const manifest = TestsManifest.load(manifestPath, context);
+        const results = await runner.runManifest(manifest);
+        results.forEach(result => printResult(result));
+        allResults.push(...results.map(result => toExportedResult(result, manifestPath)));
+        success = success && allPassed(results);
+    }
+
+    const failedCount = allResults.filter(result => result.outcome !== TestOutcome[TestOutcome.SUCCESS]).length;
+    console.log(`\n${allResults.length - failedCount} passed, ${failedCount} failed or skipped.`);
+
+    const timestamp = new Date();
+    if (options.junit) {
+        fs.writeFileSync(options.junit, toJUnitXml(allResults, timestamp), { encoding: 'utf8' });
+    }
+    if (options.json) {
+        fs.writeFileSync(options.json, toJson(allResults, timestamp), { encoding: 'utf8' });
+    }
+
+    return success ? 0 : 1;
+}
+
+main(process.argv.slice(2))
+    .then(exitCode => { process.exitCode = exitCode; })
+    .catch(err => {
+        console.error(err.message ?? err);
+        process.exitCode = 2;
+    });
@@ -9,6 +9,15 @@ import { StateResolver } from "./StateResolver";
 import { SearchHappening } from "./SearchHappening";
 import { HappeningType } from 'pddl-workspace';
 import { HelpfulAction } from 'pddl-workspace';
+import { SearchTraceEventType } from "./SearchTrace";
+
+/** Planner message posted as part of a batch or a stream of messages. */
+export interface SearchMessage {
+    /** Endpoint the message would be posted to individually, e.g. `state/heuristic`. */
+    type: SearchTraceEventType;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    body: any;
+}
 
 export class MessageParser {
 
@@ -44,6 +53,36 @@ export class MessageParser {
         return assignedStateId;
     }
 
+    /**
+     * Parses the batch of planner messages posted to the `/batch` endpoint as one JSON array
+     * e.g. `[{"type": "state", "body": {...}}, {"type": "state/heuristic", "body": {...}}]`.
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    parseBatch(messages: any): SearchMessage[] {
+        if (!Array.isArray(messages)) {
+            throw new Error("Batch of messages must be a JSON array.");
+        }
+        return messages.map(message => this.parseMessage(message));
+    }
+
+    /**
+     * Parses one line of the NDJSON stream posted to the `/stream` endpoint.
+     * @returns the message, or `undefined` for a blank line
+     */
+    parseStreamLine(line: string): SearchMessage | undefined {
+        if (line.trim().length === 0) { return undefined; }
+        return this.parseMessage(JSON.parse(line));
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    parseMessage(message: any): SearchMessage {
+        const types: string[] = Object.values(SearchTraceEventType);
+        if (!message || !types.includes(message.type)) {
+            throw new Error(`Unexpected message type: ${message?.type}. Expected one of: ${types.join(', ')}`);
+        }
+        return { type: message.type, body: message.body };
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     parseInitialState(state: any): State {
         const assignedStateId = this.parseStateId(state.id);
@@ -149,4 +188,28 @@ export class MessageParser {
                 throw new Error("Unexpected happening type: " + happeningTypeAsString);
         }
     }
-}
\ No newline at end of file
+}
+
+/** Splits the NDJSON stream, which arrives in arbitrary chunks, to complete lines. */
+export class NdJsonLineSplitter {
+    private incompleteLine = '';
+
+    /**
+     * @param chunk next chunk of the stream
+     * @returns lines completed by the chunk
+     */
+    push(chunk: string): string[] {
+        const lines = (this.incompleteLine + chunk).split(/\r?\n/);
+        this.incompleteLine = lines.pop() ?? '';
+        return lines;
+    }
+
+    /**
+     * @returns the last line, if the stream did not end with a new line
+     */
+    end(): string[] {
+        const lines = this.incompleteLine.length ? [this.incompleteLine] : [];
+        this.incompleteLine = '';
+        return lines;
+    }
+}
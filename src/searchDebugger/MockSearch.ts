@@ -12,6 +12,8 @@ import { SearchHappening, MockSearchHappening, MockHelpfulAction } from './Searc
 import { HappeningType } from 'pddl-workspace';
 import { HelpfulAction } from 'pddl-workspace';
 import { DEFAULT_EPSILON } from '../configuration/configuration';
+import * as WebSocket from 'ws';
+import { PlannerCommand, PlannerControlChannel, PlannerSearchStatus } from './PlannerControlChannel';
 
 export class MockSearch {
     url: string;
@@ -56,6 +58,35 @@ export class MockSearch {
         console.log('Mock-search finished.');
     }
 
+    /**
+     * Posts a large randomly generated search to the `/batch` and `/stream` endpoints (alternately)
+     * to exercise the search debugger under the load of planners expanding thousands of states per second.
+     * @param stateCount number of states to generate
+     * @param batchSize number of messages posted in one request
+     */
+    async runHighVolume(stateCount: number, batchSize = 1000): Promise<void> {
+        const messages = createHighVolumeMessages(stateCount);
+        const startTime = Date.now();
+
+        for (let batchStart = 0; batchStart < messages.length; batchStart += batchSize) {
+            const batch = messages.slice(batchStart, batchStart + batchSize);
+            try {
+                if ((batchStart / batchSize) % 2 === 0) {
+                    await this.post('/batch', batch);
+                }
+                else {
+                    await this.postStream('/stream', batch);
+                }
+            }
+            catch (ex) {
+                console.log(ex);
+                break;
+            }
+        }
+
+        console.log(`Mock-search posted ${messages.length} messages in ${Date.now() - startTime}ms.`);
+    }
+
     private async send(mockEvent: MockEvent): Promise<void> {
         switch (mockEvent.operation) {
             case 'post-initial':
@@ -93,6 +124,24 @@ export class MockSearch {
         });
     }
 
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private async postStream(path: string, messages: any[]): Promise<void> {
+        const ndJson = messages.map(message => JSON.stringify(message)).join('\n');
+        return await new Promise<void>((resolve, reject) => {
+            request.post(this.url + path, { body: ndJson, headers: { 'Content-Type': 'application/x-ndjson' } }, (error, httpResponse) => {
+                if (error) {
+                    reject(error);
+                }
+                else if (httpResponse && httpResponse.statusCode > 204) {
+                    reject('HTTP status code ' + httpResponse.statusCode);
+                }
+                else {
+                    resolve(void 0);
+                }
+            });
+        });
+    }
+
     /**
      * the `patch` method will be useful when the contract migrates `patch` HTTP verb.
      */
@@ -166,6 +215,213 @@ export class MockSearch {
     ];
 }
 
+/**
+ * Generates messages of a random search, which finds a plan at the end.
+ * @param stateCount number of states to generate
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function createHighVolumeMessages(stateCount: number): any[] {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const messages: any[] = [];
+    const actionNames = ["drive", "load", "unload", "refuel"];
+    const initialH = Math.ceil(Math.log2(stateCount + 1)) + 1;
+    const initialState = MockStateContext.createInitial();
+    const open: { stateContext: MockStateContext; h: number }[] = [{ stateContext: initialState, h: initialH }];
+    let best = open[0];
+
+    messages.push({ type: 'state/initial', body: new MockStateContextEvent('post-initial', initialState).toWireMessage() });
+    messages.push({ type: 'state/heuristic', body: toWireEvaluation(initialState, initialH) });
+
+    for (let stateIndex = 1; stateIndex < stateCount && open.length; stateIndex++) {
+        // random parents keep the tree shallow, so the plan heads (posted with each state) stay short
+        const parent = open[Math.floor(Math.random() * open.length)];
+        const actionName = actionNames[Math.floor(Math.random() * actionNames.length)];
+        const child = parent.stateContext.planHead.length % 2 === 0
+            ? parent.stateContext.applyStart(actionName, 0)
+            : parent.stateContext.applyEnd(actionName, 0, 1);
+        messages.push({ type: 'state', body: new MockStateContextEvent('post', child).toWireMessage() });
+
+        if (Math.random() < .05) {
+            // dead-ends are reported without the heuristic value
+            messages.push({ type: 'state/heuristic', body: { id: child.state.id } });
+        }
+        else {
+            const h = Math.max(1, parent.h + Math.floor(Math.random() * 3) - 1);
+            messages.push({ type: 'state/heuristic', body: toWireEvaluation(child, h) });
+            open.push({ stateContext: child, h });
+            if (h < best.h) { best = open[open.length - 1]; }
+        }
+    }
+
+    const goal = best.stateContext.applyEnd(actionNames[0], 0, 1);
+    messages.push({ type: 'plan', body: new MockStateContextEvent('post', goal).toWireMessage() });
+    return messages;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function toWireEvaluation(stateContext: MockStateContext, h: number): any {
+    return new MockStateSearchContextEvent('patch', stateContext.evaluate(h, [], state => state.buildRelaxedPlan().end(h, "drive"))).toWireMessage();
+}
+
+/**
+ * Planner side of the search debugger control channel. Runs a random search, which obeys the pause, resume, step and expand commands.
+ */
+export class MockControlledSearch {
+    private socket: WebSocket | undefined;
+    private status: PlannerSearchStatus;
+    private expansions = 0;
+    /** Number of expansions to perform before pausing, or `undefined` to run until paused. */
+    private remainingExpansions: number | undefined;
+    /** State requested to be expanded next. */
+    private nextStateId: string | undefined;
+    private readonly open = new Map<string, { stateContext: MockStateContext; h: number }>();
+    private expansionTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * @param port search debugger port
+     * @param options `startPaused`: waits for the first command, `expansionIntervalMs`: delay between the expansions, `initialH`: heuristic value of the initial state
+     */
+    constructor(private readonly port: number, private readonly options: { startPaused?: boolean; expansionIntervalMs?: number; initialH?: number } = {}) {
+        this.status = options.startPaused ? 'paused' : 'running';
+    }
+
+    /**
+     * Connects to the search debugger and posts the initial state.
+     */
+    async connect(): Promise<void> {
+        const socket = this.socket = new WebSocket(`ws://localhost:${this.port}${PlannerControlChannel.PATH}`);
+        await new Promise<void>((resolve, reject) => {
+            socket.once('open', () => resolve());
+            socket.once('error', error => reject(error));
+        });
+
+        socket.on('message', data => {
+            try {
+                this.handleCommand(JSON.parse(data.toString()));
+            }
+            catch (ex) {
+                console.log(`Invalid command from the search debugger: ${ex.message ?? ex}`);
+            }
+        });
+        socket.on('close', () => this.stopExpanding());
+
+        const initialState = MockStateContext.createInitial();
+        const initialH = this.options.initialH ?? 10;
+        this.open.set(initialState.state.id, { stateContext: initialState, h: initialH });
+        this.sendMessage('state/initial', new MockStateContextEvent('post-initial', initialState).toWireMessage());
+        this.sendMessage('state/heuristic', toWireEvaluation(initialState, initialH));
+        this.setStatus(this.status);
+    }
+
+    close(): void {
+        this.stopExpanding();
+        this.socket?.close();
+        this.socket = undefined;
+    }
+
+    private handleCommand(command: PlannerCommand): void {
+        switch (command.command) {
+            case 'pause':
+                this.stopExpanding();
+                this.setStatus('paused');
+                break;
+            case 'resume':
+                this.run(undefined);
+                break;
+            case 'step':
+                this.run(command.expansions);
+                break;
+            case 'expand':
+                if (!this.open.has(command.stateId)) {
+                    console.log(`State ${command.stateId} cannot be expanded.`);
+                    break;
+                }
+                this.nextStateId = command.stateId;
+                this.run(1);
+                break;
+            default:
+                console.log("Unsupported command: " + JSON.stringify(command));
+        }
+    }
+
+    private run(expansions: number | undefined): void {
+        if (this.status === 'finished') { return; }
+        this.remainingExpansions = expansions;
+        this.setStatus('running');
+        this.scheduleExpansion();
+    }
+
+    private scheduleExpansion(): void {
+        if (!this.expansionTimer) {
+            this.expansionTimer = setTimeout(() => {
+                this.expansionTimer = undefined;
+                this.expand();
+            }, this.options.expansionIntervalMs ?? 100);
+        }
+    }
+
+    private stopExpanding(): void {
+        if (this.expansionTimer) {
+            clearTimeout(this.expansionTimer);
+            this.expansionTimer = undefined;
+        }
+    }
+
+    /**
+     * Expands the requested state, or the open state with the lowest heuristic value.
+     */
+    private expand(): void {
+        const parent = this.nextStateId !== undefined ? this.open.get(this.nextStateId) : this.getBestOpenState();
+        this.nextStateId = undefined;
+        if (!parent) {
+            this.setStatus('finished');
+            return;
+        }
+        this.open.delete(parent.stateContext.state.id);
+
+        const goals: MockStateContext[] = [];
+        ["drive", "load"].forEach(actionName => {
+            const child = parent.stateContext.applyStart(actionName, 0);
+            const h = Math.max(0, parent.h - Math.floor(Math.random() * 2));
+            this.sendMessage('state', new MockStateContextEvent('post', child).toWireMessage());
+            this.sendMessage('state/heuristic', toWireEvaluation(child, h));
+            this.open.set(child.state.id, { stateContext: child, h });
+            if (h === 0) { goals.push(child); }
+        });
+        this.expansions++;
+
+        if (goals.length) {
+            this.sendMessage('plan', new MockStateContextEvent('post', goals[0]).toWireMessage());
+            this.setStatus('finished');
+        }
+        else if (this.remainingExpansions !== undefined && --this.remainingExpansions <= 0) {
+            this.setStatus('paused');
+        }
+        else {
+            this.setStatus('running');
+            this.scheduleExpansion();
+        }
+    }
+
+    private getBestOpenState(): { stateContext: MockStateContext; h: number } | undefined {
+        let best: { stateContext: MockStateContext; h: number } | undefined;
+        this.open.forEach(openState => {
+            if (!best || openState.h < best.h) { best = openState; }
+        });
+        return best;
+    }
+
+    private setStatus(status: PlannerSearchStatus): void {
+        this.status = status;
+        this.sendMessage('status', { status, expansions: this.expansions });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private sendMessage(type: string, body: any): void {
+        this.socket?.send(JSON.stringify({ type, body }));
+    }
+}
+
 abstract class MockEvent {
     constructor(public readonly operation: string) {
 
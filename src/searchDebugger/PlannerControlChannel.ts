@@ -0,0 +1,128 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { EventEmitter, Event } from "vscode";
+import * as http from 'http';
+import * as WebSocket from 'ws';
+import { MessageParser, SearchMessage } from "./MessageParser";
+
+/** Command sent to the planner. See the `schemas/searchDebugger.json` for the protocol. */
+export type PlannerCommand =
+    { command: 'pause' } |
+    { command: 'resume' } |
+    { command: 'step'; expansions: number } |
+    { command: 'expand'; stateId: string };
+
+/** Status `unknown` stands for a connected planner, which did not report its status yet. */
+export type PlannerSearchStatus = 'unknown' | 'running' | 'paused' | 'finished';
+
+/** Status of the search reported by the planner. */
+export interface PlannerStatus {
+    status: PlannerSearchStatus;
+    /** Number of states expanded so far. */
+    expansions?: number;
+}
+
+/**
+ * WebSocket back-channel between the search debugger and a cooperating planner.
+ * The planner connects to `ws://localhost:<port>/control`, reports its status and may post the search messages,
+ * while the search debugger sends it the commands to pause, resume, step and expand a given state next.
+ */
+export class PlannerControlChannel {
+    static readonly PATH = '/control';
+
+    private readonly server: WebSocket.Server;
+    private readonly sockets = new Set<WebSocket>();
+    private status: PlannerStatus | undefined;
+
+    private _onStatusChanged = new EventEmitter<PlannerStatus | undefined>();
+
+    /**
+     * @param httpServer server hosting the search debugger REST endpoints
+     * @param messageParser parser of the search messages received from the planner
+     * @param receive applies the search message received from the planner
+     */
+    constructor(httpServer: http.Server, private readonly messageParser: MessageParser,
+        private readonly receive: (message: SearchMessage) => void) {
+        this.server = new WebSocket.Server({
+            server: httpServer, path: PlannerControlChannel.PATH,
+            // browsers do not apply CORS to web sockets, but send the Origin header, which planners do not
+            verifyClient: (info: { req: http.IncomingMessage }): boolean => !info.req.headers.origin
+        });
+        this.server.on('connection', socket => this.connected(socket));
+        // errors of the http server are re-emitted here, but are handled by the search debugger
+        this.server.on('error', error => console.log(error));
+    }
+
+    /** Fires when a planner connects, disconnects or reports a new status. Fires `undefined` when no planner is connected. */
+    get onStatusChanged(): Event<PlannerStatus | undefined> {
+        return this._onStatusChanged.event;
+    }
+
+    isConnected(): boolean {
+        return this.sockets.size > 0;
+    }
+
+    getStatus(): PlannerStatus | undefined {
+        return this.status;
+    }
+
+    /**
+     * Sends the command to all connected planners.
+     * @returns `false` if no planner is connected
+     */
+    send(command: PlannerCommand): boolean {
+        const text = JSON.stringify(command);
+        this.sockets.forEach(socket => socket.send(text));
+        return this.isConnected();
+    }
+
+    dispose(): void {
+        this.sockets.forEach(socket => socket.terminate());
+        this.sockets.clear();
+        this.server.close();
+        this.setStatus(undefined);
+    }
+
+    private connected(socket: WebSocket): void {
+        this.sockets.add(socket);
+        // the planner reports its status right after connecting
+        if (!this.status) {
+            this.setStatus({ status: 'unknown' });
+        }
+
+        socket.on('message', data => {
+            try {
+                this.handleMessage(JSON.parse(data.toString()));
+            }
+            catch (ex) {
+                console.log(`Invalid message from the planner: ${ex.message ?? ex}`);
+            }
+        });
+        socket.on('close', () => {
+            this.sockets.delete(socket);
+            if (!this.isConnected()) {
+                this.setStatus(undefined);
+            }
+        });
+        socket.on('error', error => console.log(error));
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private handleMessage(message: any): void {
+        if (message?.type === 'status') {
+            this.setStatus({ status: message.body.status, expansions: message.body.expansions });
+        }
+        else {
+            this.receive(this.messageParser.parseMessage(message));
+        }
+    }
+
+    private setStatus(status: PlannerStatus | undefined): void {
+        this.status = status;
+        this._onStatusChanged.fire(status);
+    }
+}
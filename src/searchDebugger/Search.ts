@@ -17,10 +17,12 @@ export class Search implements StateResolver {
 
     private states = new Map<number, State>();
     private bestStateHeuristic = Number.MAX_VALUE;
+    private plan: State[] | undefined;
 
     clear(): void {
         this.states.clear();
         this.bestStateHeuristic = Number.MAX_VALUE;
+        this.plan = undefined;
     }
 
     get onStateAdded(): Event<State> {
@@ -76,6 +78,7 @@ export class Search implements StateResolver {
             plan.push(state);
             state = state.parentId !== undefined ? this.states.get(state.parentId) : undefined;
         }
+        this.plan = plan;
         this._onPlanFound.fire(plan);
     }
 
@@ -94,4 +97,9 @@ export class Search implements StateResolver {
     getStates(): State[] {
         return [...this.states.values()];
     }
+
+    /** @returns states from the goal state back to the initial state, if a plan was found */
+    getPlan(): State[] | undefined {
+        return this.plan;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { HappeningType } from "pddl-workspace";
+import { State } from "./State";
+import { Search } from "./Search";
+import { SearchTrace, SearchTraceEventType } from "./SearchTrace";
+
+/** Best heuristic value found so far, when it improved. */
+export interface HeuristicProgress {
+    /** Milliseconds since the search started. */
+    time: number;
+    /** Number of states evaluated so far. */
+    evaluated: number;
+    h: number;
+}
+
+/** Summary statistics of one search. */
+export interface SearchStatistics {
+    /** Number of states generated by the search. */
+    generated: number;
+    /** Number of states, which have at least one successor. */
+    expanded: number;
+    /** Number of states evaluated by the heuristic (incl. the dead ends and the goal state). */
+    evaluated: number;
+    deadEnds: number;
+    visitedOrWorse: number;
+    /** Number of happenings in the plan, if found. */
+    planLength?: number;
+    /** Best heuristic value found by the search. */
+    bestH?: number;
+    bestHProgress: HeuristicProgress[];
+}
+
+/** State of one or both searches with the same plan head. */
+export interface AlignedState {
+    /** Plan head happening sequence, which identifies the state in both searches. */
+    key: string;
+    left?: State;
+    right?: State;
+    /** Both searches evaluated the state, but to different heuristic values. */
+    hDiffers: boolean;
+    /** One search evaluated the state as a dead-end, while the other did not. */
+    deadEndDiffers: boolean;
+    /** Both searches generated the state, but generated different successors of it. */
+    branchesDiverge: boolean;
+}
+
+/**
+ * Compares two searches of the same problem by aligning their states by the plan head happening sequence.
+ */
+export class SearchComparison {
+    readonly leftSearch: Search;
+    readonly rightSearch: Search;
+    readonly leftStatistics: SearchStatistics;
+    readonly rightStatistics: SearchStatistics;
+    /** States in the order of discovery by the left search, followed by the states only generated by the right search. */
+    readonly alignedStates: AlignedState[];
+
+    constructor(readonly leftTrace: SearchTrace, readonly rightTrace: SearchTrace) {
+        this.leftSearch = leftTrace.replay();
+        this.rightSearch = rightTrace.replay();
+        this.leftStatistics = SearchComparison.getStatistics(leftTrace, this.leftSearch);
+        this.rightStatistics = SearchComparison.getStatistics(rightTrace, this.rightSearch);
+        this.alignedStates = SearchComparison.align(this.leftSearch, this.rightSearch);
+    }
+
+    /**
+     * @returns states, where the searches diverge
+     */
+    getDivergentStates(): AlignedState[] {
+        return this.alignedStates.filter(state => !state.left || !state.right || state.hDiffers || state.deadEndDiffers || state.branchesDiverge);
+    }
+
+    static getStatistics(trace: SearchTrace, search: Search): SearchStatistics {
+        const states = search.getStates();
+        const parentIds = new Set(states.map(state => state.parentId).filter(parentId => parentId !== undefined));
+        const plan = search.getPlan();
+
+        return {
+            generated: states.length,
+            expanded: parentIds.size,
+            evaluated: states.filter(state => state.isEvaluated).length,
+            deadEnds: states.filter(state => state.isDeadEnd).length,
+            visitedOrWorse: states.filter(state => state.wasVisitedOrIsWorse).length,
+            planLength: plan ? plan[0].planHead.length : undefined,
+            bestH: plan ? 0 : getBestH(states),
+            bestHProgress: SearchComparison.getBestHProgress(trace),
+        };
+    }
+
+    /**
+     * @returns the best heuristic value after each improvement (the plan has the heuristic value of zero)
+     */
+    static getBestHProgress(trace: SearchTrace): HeuristicProgress[] {
+        const events = trace.getEvents();
+        const startTime = events.length ? events[0].time : 0;
+        const progress: HeuristicProgress[] = [];
+        let evaluated = 0;
+        let bestH = Number.POSITIVE_INFINITY;
+
+        events.forEach(event => {
+            let h: number | undefined;
+            if (event.type === SearchTraceEventType.HEURISTIC) {
+                evaluated++;
+                h = event.body.h; // dead-ends do not have `h`
+            }
+            else if (event.type === SearchTraceEventType.PLAN) {
+                evaluated++;
+                h = 0;
+            }
+
+            if (h !== undefined && h < bestH) {
+                bestH = h;
+                progress.push({ time: event.time - startTime, evaluated, h });
+            }
+        });
+
+        return progress;
+    }
+
+    static align(leftSearch: Search, rightSearch: Search): AlignedState[] {
+        const leftStates = getStatesByKey(leftSearch);
+        const rightStates = getStatesByKey(rightSearch);
+        const leftSuccessors = getSuccessorKeys(leftSearch);
+        const rightSuccessors = getSuccessorKeys(rightSearch);
+
+        const keys = [...leftStates.keys()].concat([...rightStates.keys()].filter(key => !leftStates.has(key)));
+
+        return keys.map(key => {
+            const left = leftStates.get(key);
+            const right = rightStates.get(key);
+            const bothEvaluated = !!left?.isEvaluated && !!right?.isEvaluated;
+
+            return {
+                key,
+                left,
+                right,
+                hDiffers: bothEvaluated && !left?.isDeadEnd && !right?.isDeadEnd && left?.h !== right?.h,
+                deadEndDiffers: bothEvaluated && !!left?.isDeadEnd !== !!right?.isDeadEnd,
+                branchesDiverge: !!left && !!right && !equalSets(leftSuccessors.get(left.id) ?? [], rightSuccessors.get(right.id) ?? []),
+            };
+        });
+    }
+}
+
+/**
+ * @returns key identifying the state by its plan head e.g. `drive t1 a b[0]:START, drive t1 a b[0]:END`
+ */
+export function getStateKey(state: State): string {
+    return state.planHead.map(happening => `${happening.actionName}[${happening.shotCounter}]:${HappeningType[happening.kind]}`).join(', ');
+}
+
+/**
+ * @returns the states by their key; if more states have the same plan head, the first one generated is used
+ */
+function getStatesByKey(search: Search): Map<string, State> {
+    const states = new Map<string, State>();
+    search.getStates().forEach(state => {
+        const key = getStateKey(state);
+        if (!states.has(key)) {
+            states.set(key, state);
+        }
+    });
+    return states;
+}
+
+/**
+ * @returns keys of the successor states by the parent state ID
+ */
+function getSuccessorKeys(search: Search): Map<number, string[]> {
+    const successors = new Map<number, string[]>();
+    search.getStates()
+        .filter(state => state.parentId !== undefined)
+        .forEach(state => {
+            const parentId = state.parentId ?? -1;
+            successors.set(parentId, (successors.get(parentId) ?? []).concat(getStateKey(state)));
+        });
+    return successors;
+}
+
+function getBestH(states: State[]): number | undefined {
+    // spreading the values to `Math.min` would exceed the call stack size for large searches
+    return states
+        .filter(state => state.isEvaluated && !state.isDeadEnd && state.h !== undefined)
+        .map(state => state.h ?? Number.POSITIVE_INFINITY)
+        .reduce<number | undefined>((bestH, h) => bestH === undefined ? h : Math.min(bestH, h), undefined);
+}
+
+function equalSets(left: string[], right: string[]): boolean {
+    return left.length === right.length && left.every(key => right.includes(key));
+}
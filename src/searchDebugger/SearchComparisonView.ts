@@ -0,0 +1,173 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { window, Uri, ViewColumn, WebviewPanel, Webview } from 'vscode';
+import * as path from 'path';
+import { getWebViewHtml } from '../utils';
+import { PddlExtensionContext } from 'pddl-workspace';
+import { SearchComparison, SearchStatistics, AlignedState, HeuristicProgress } from './SearchComparison';
+import { State } from './State';
+
+/** Maximum number of divergent states rendered to the table. */
+const MAX_DIVERGENT_ROWS = 1000;
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+/** Visualizes the comparison of two search traces on a web view panel. */
+export class SearchComparisonView {
+    private webViewPanel: WebviewPanel | undefined;
+    readonly CONTENT_FOLDER = path.join("views", "searchview");
+
+    constructor(private context: PddlExtensionContext, private comparison: SearchComparison,
+        private leftName: string, private rightName: string) {
+    }
+
+    async showComparison(): Promise<void> {
+        const iconUri = this.context.asAbsolutePath('images/icon.png');
+
+        this.webViewPanel = window.createWebviewPanel(
+            "pddl.searchDebugger.comparison",
+            "Search Comparison",
+            {
+                viewColumn: ViewColumn.Active,
+                preserveFocus: false
+            },
+            {
+                retainContextWhenHidden: true,
+                enableFindWidget: true,
+                enableScripts: false,
+                localResourceRoots: [Uri.file(this.context.asAbsolutePath(this.CONTENT_FOLDER))]
+            }
+        );
+
+        this.webViewPanel.iconPath = Uri.file(iconUri);
+
+        this.webViewPanel.onDidDispose(() => this.webViewPanel = undefined, undefined, this.context.subscriptions);
+
+        this.context.subscriptions.push(this.webViewPanel);
+
+        this.webViewPanel.webview.html = await this.getHtml(this.webViewPanel.webview);
+    }
+
+    async getHtml(webview: Webview): Promise<string> {
+        const html = await getWebViewHtml(this.context, {
+            relativePath: this.CONTENT_FOLDER,
+            htmlFileName: 'comparison.html'
+        }, webview);
+
+        return html
+            .replace("<!--SUMMARY-->", () => this.renderSummary())
+            .replace("<!--CHART-->", () => this.renderChart())
+            .replace("<!--TABLE-->", () => this.renderDivergentStates());
+    }
+
+    renderSummary(): string {
+        const left = this.comparison.leftStatistics;
+        const right = this.comparison.rightStatistics;
+        const row = (label: string, getValue: (statistics: SearchStatistics) => number | undefined): string =>
+            `<tr><td>${label}</td><td class="number">${getValue(left) ?? ''}</td><td class="number">${getValue(right) ?? ''}</td></tr>`;
+
+        return [
+            `<tr><th></th><th class="first">${escape(this.leftName)}</th><th class="second">${escape(this.rightName)}</th></tr>`,
+            row('States generated', statistics => statistics.generated),
+            row('States expanded', statistics => statistics.expanded),
+            row('States evaluated', statistics => statistics.evaluated),
+            row('Dead ends', statistics => statistics.deadEnds),
+            row('Visited or worse', statistics => statistics.visitedOrWorse),
+            row('Best h', statistics => statistics.bestH),
+            row('Plan length', statistics => statistics.planLength),
+        ].join('\n');
+    }
+
+    /**
+     * Renders the best heuristic value over time as a step chart of both searches.
+     */
+    renderChart(): string {
+        const left = this.comparison.leftStatistics.bestHProgress;
+        const right = this.comparison.rightStatistics.bestHProgress;
+        const all = left.concat(right);
+        if (all.length === 0) {
+            return '<p>No states were evaluated.</p>';
+        }
+
+        const endTimes = this.getEndTimes();
+        const maxTime = Math.max(1, ...all.map(progress => progress.time), ...endTimes);
+        const maxH = Math.max(1, ...all.map(progress => progress.h));
+        const x = (time: number): number => time / maxTime * CHART_WIDTH;
+        const y = (h: number): number => CHART_HEIGHT - h / maxH * CHART_HEIGHT;
+
+        const polyline = (progress: HeuristicProgress[], endTime: number, cssClass: string): string => {
+            if (progress.length === 0) { return ''; }
+            const points: string[] = [];
+            progress.forEach((point, index) => {
+                if (index > 0) {
+                    points.push(`${x(point.time)},${y(progress[index - 1].h)}`);
+                }
+                points.push(`${x(point.time)},${y(point.h)}`);
+            });
+            points.push(`${x(endTime)},${y(progress[progress.length - 1].h)}`);
+            return `<polyline class="${cssClass}" points="${points.join(' ')}"/>`;
+        };
+
+        return `<svg class="chart" width="${CHART_WIDTH + 60}" height="${CHART_HEIGHT + 40}" viewBox="-50 -10 ${CHART_WIDTH + 60} ${CHART_HEIGHT + 40}">` +
+            `<line class="axis" x1="0" y1="${CHART_HEIGHT}" x2="${CHART_WIDTH}" y2="${CHART_HEIGHT}"/>` +
+            `<line class="axis" x1="0" y1="0" x2="0" y2="${CHART_HEIGHT}"/>` +
+            `<text x="-5" y="5" text-anchor="end">${maxH}</text>` +
+            `<text x="-5" y="${CHART_HEIGHT}" text-anchor="end">0</text>` +
+            `<text x="${CHART_WIDTH}" y="${CHART_HEIGHT + 20}" text-anchor="end">${(maxTime / 1000).toFixed(2)} sec.</text>` +
+            polyline(left, endTimes[0], 'first') +
+            polyline(right, endTimes[1], 'second') +
+            `</svg>`;
+    }
+
+    /** @returns duration of the left and right searches in milliseconds */
+    private getEndTimes(): number[] {
+        return [this.comparison.leftTrace, this.comparison.rightTrace].map(trace => {
+            const events = trace.getEvents();
+            return events.length ? events[events.length - 1].time - events[0].time : 0;
+        });
+    }
+
+    renderDivergentStates(): string {
+        const divergentStates = this.comparison.getDivergentStates();
+        if (divergentStates.length === 0) {
+            return '<p>The searches do not diverge.</p>';
+        }
+
+        const header = `<tr><th>Plan head</th><th class="first">h (${escape(this.leftName)})</th><th class="second">h (${escape(this.rightName)})</th><th>Divergence</th></tr>`;
+        const rows = divergentStates.slice(0, MAX_DIVERGENT_ROWS).map(state => this.renderDivergentState(state));
+        const note = divergentStates.length > MAX_DIVERGENT_ROWS
+            ? `<p>Showing first ${MAX_DIVERGENT_ROWS} of ${divergentStates.length} divergent states.</p>`
+            : '';
+
+        return `<table>${header}\n${rows.join('\n')}</table>${note}`;
+    }
+
+    renderDivergentState(state: AlignedState): string {
+        const divergence: string[] = [];
+        if (!state.left) { divergence.push(`only in ${escape(this.rightName)}`); }
+        if (!state.right) { divergence.push(`only in ${escape(this.leftName)}`); }
+        if (state.hDiffers) { divergence.push('h'); }
+        if (state.deadEndDiffers) { divergence.push('dead end'); }
+        if (state.branchesDiverge) { divergence.push('branches'); }
+
+        return `<tr><td>${escape(state.key) || '(initial state)'}</td>` +
+            `<td class="number${state.hDiffers || state.deadEndDiffers ? ' differs' : ''}">${renderH(state.left)}</td>` +
+            `<td class="number${state.hDiffers || state.deadEndDiffers ? ' differs' : ''}">${renderH(state.right)}</td>` +
+            `<td>${divergence.join(', ')}</td></tr>`;
+    }
+}
+
+function renderH(state: State | undefined): string {
+    if (!state) { return ''; }
+    else if (state.isDeadEnd) { return 'dead end'; }
+    else if (state.isEvaluated) { return `${state.h}`; }
+    else { return '?'; }
+}
+
+function escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
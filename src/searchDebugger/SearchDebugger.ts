@@ -4,39 +4,63 @@
  * ------------------------------------------------------------------------------------------ */
 'use strict';
 
-import { ExtensionContext, window, workspace, StatusBarItem, StatusBarAlignment } from "vscode";
+import { ExtensionContext, window, workspace, StatusBarItem, StatusBarAlignment, Uri } from "vscode";
 import { instrumentOperationAsVsCodeCommand } from "vscode-extension-telemetry-wrapper";
 
 import * as express from 'express';
 import bodyParser = require('body-parser');
 import http = require('http');
+import * as path from 'path';
 import { Search } from "./Search";
-import { MessageParser } from "./MessageParser";
-import { MockSearch } from "./MockSearch";
+import { MessageParser, NdJsonLineSplitter, SearchMessage } from "./MessageParser";
+import { MockSearch, MockControlledSearch } from "./MockSearch";
 import { SearchDebuggerView } from "./SearchDebuggerView";
-import { planner } from "pddl-workspace";
+import { SearchTrace, SearchTraceReplay, SearchTraceEventType } from "./SearchTrace";
+import { SearchComparison } from "./SearchComparison";
+import { SearchComparisonView } from "./SearchComparisonView";
+import { PlannerControlChannel, PlannerCommand } from "./PlannerControlChannel";
+import { planner, utils } from "pddl-workspace";
 import { PddlConfiguration } from "../configuration/configuration";
+import { createPddlExtensionContext } from "../utils";
 
 export class SearchDebugger implements planner.PlannerOptionsProvider {
 
     private server: http.Server | null = null;
+    private plannerChannel: PlannerControlChannel | undefined;
     private search: Search | undefined; // lazy init
     private port = 0; //port is randomized
     private view: SearchDebuggerView;
     private messageParser: MessageParser | undefined; // lazy init
+    private trace: SearchTrace | undefined; // lazy init
+    /** Search trace loaded from a file and being replayed. */
+    private traceReplay: SearchTraceReplay | undefined;
     private statusBarItem: StatusBarItem | undefined; // lazy init
     static readonly TOGGLE_COMMAND = "pddl.searchDebugger.toggle";
+    static readonly REPLAY_COMMAND = "pddl.searchDebugger.replay";
 
     private readonly CONFIG_PDDL_SEARCH_DEBUGGER = "pddlSearchDebugger";
     private readonly CONF_DEFAULT_PORT = "defaultPort";
     private readonly CONF_STATE_ID_PATTERN = "stateIdPattern";
+    private readonly CONF_MAX_TRACE_LENGTH = "maxTraceLength";
     private readonly CONFIG_PLANNER_OPTION = "plannerCommandLine";
+    /** Maximum size of the JSON array posted to the `/batch` endpoint. */
+    private readonly MAX_BATCH_SIZE = '50mb';
 
     constructor(private context: ExtensionContext, private pddlConfiguration: PddlConfiguration) {
         this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.start", () => this.tryStart()));
         this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.stop", () => this.tryStop()));
         this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.reset", () => this.reset()));
         this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.mock", () => this.mock()));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.mockHighVolume", () => this.mockHighVolume()));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.mockControlled", () => this.mockControlled()));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.save", () => this.saveTrace()));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.load", () => this.loadTrace()));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand(SearchDebugger.REPLAY_COMMAND, (stepCount: number) => this.replay(stepCount)));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.compare", () => this.compareTraces()));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.pause", () => this.sendPlannerCommand({ command: 'pause' })));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.resume", () => this.sendPlannerCommand({ command: 'resume' })));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.step", (expansions?: number) => this.sendPlannerCommand({ command: 'step', expansions: expansions ?? 1 })));
+        this.context.subscriptions.push(instrumentOperationAsVsCodeCommand("pddl.searchDebugger.expandState", (stateId: number) => this.expandState(stateId)));
 
         this.view = new SearchDebuggerView(this.context);
     }
@@ -60,7 +84,9 @@ export class SearchDebugger implements planner.PlannerOptionsProvider {
     reset(): void {
         if (this.search) { this.search.clear(); }
         if (this.messageParser) { this.messageParser.clear(); }
+        if (this.trace) { this.trace.clear(); }
         if (this.view) { this.view.clear(); }
+        this.stopReplay();
     }
 
     tryStart(): void {
@@ -85,19 +111,30 @@ export class SearchDebugger implements planner.PlannerOptionsProvider {
     }
 
     private startServer(): void {
-        if (!this.search || !this.messageParser) {
+        if (!this.search || !this.messageParser || !this.trace) {
             this.search = new Search();
             const stateIdPattern = this.getStateIdPattern();
             this.messageParser = new MessageParser(this.search, stateIdPattern);
+            const maxTraceLength = workspace.getConfiguration(this.CONFIG_PDDL_SEARCH_DEBUGGER).get<number>(this.CONF_MAX_TRACE_LENGTH, 100000);
+            this.trace = new SearchTrace(stateIdPattern, maxTraceLength);
             this.view.observe(this.search);
         }
 
-        const app: express.Application = this.createApplication(this.search, this.messageParser);
+        if (this.traceReplay) {
+            // the view shows the live search again
+            this.view.clear();
+            this.stopReplay();
+        }
+
+        const app: express.Application = this.createApplication(this.search, this.messageParser, this.trace);
 
         const defaultPort = workspace.getConfiguration(this.CONFIG_PDDL_SEARCH_DEBUGGER).get<number>(this.CONF_DEFAULT_PORT, 0);
 
         this.port = defaultPort > 0 ? defaultPort : 8000 + Math.floor(Math.random() * 1000);
         this.server = http.createServer(app);
+        this.plannerChannel = new PlannerControlChannel(this.server, this.messageParser,
+            SearchDebugger.createReceiver(this.search, this.messageParser, this.trace));
+        this.plannerChannel.onStatusChanged(status => this.view.setPlannerStatus(status));
         this.server.on('error', e => {
             window.showErrorMessage(e.message);
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -133,15 +170,44 @@ export class SearchDebugger implements planner.PlannerOptionsProvider {
         return stateIdPattern;
     }
 
-    private createApplication(search: Search, messageParser: MessageParser): express.Application {
+    /**
+     * @returns function that records the planner message to the trace and applies it to the search
+     */
+    private static createReceiver(search: Search, messageParser: MessageParser, trace: SearchTrace): (message: SearchMessage) => void {
+        return (message: SearchMessage): void => {
+            trace.record(message.type, message.body);
+            SearchTrace.apply(message.type, message.body, search, messageParser);
+        };
+    }
+
+    private createApplication(search: Search, messageParser: MessageParser, trace: SearchTrace): express.Application {
+        const receiveMessage = SearchDebugger.createReceiver(search, messageParser, trace);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const receive = (type: SearchTraceEventType, body: any): void => receiveMessage({ type, body });
+
+        /** @returns number of messages, which could not be applied */
+        const receiveAll = (messages: SearchMessage[]): number => {
+            let failed = 0;
+            messages.forEach(message => {
+                try {
+                    receiveMessage(message);
+                }
+                catch (ex) {
+                    console.log(ex);
+                    failed++;
+                }
+            });
+            return failed;
+        };
+
         const app: express.Application = express();
-        app.use(bodyParser.json());
+        app.use(bodyParser.json({ limit: this.MAX_BATCH_SIZE }));
         app.get('/about', function (_req: express.Request, res: express.Response) {
             res.status(200).send('Visual search debugger.');
         });
         app.post('/state/initial', function (req: express.Request, res: express.Response) {
             try {
-                search.addInitialState(messageParser.parseInitialState(req.body));
+                receive(SearchTraceEventType.INITIAL_STATE, req.body);
                 res.status(201).end();
             }
             catch (ex) {
@@ -150,24 +216,85 @@ export class SearchDebugger implements planner.PlannerOptionsProvider {
             }
         });
         app.post('/state', function (req: express.Request, res: express.Response) {
-            search.addState(messageParser.parseState(req.body));
+            receive(SearchTraceEventType.STATE, req.body);
             res.status(201).end();
         });
         // todo: the next one should be a 'patch' verb for '/state' path
         app.post('/state/visitedOrWorse', function (req: express.Request, res: express.Response) {
-            search.update(messageParser.parseState(req.body).setVisitedOrIsWorse());
+            receive(SearchTraceEventType.VISITED_OR_WORSE, req.body);
             res.status(201).end();
         });
         // todo: the next one should be a 'patch' verb for '/state' path
         app.post('/state/heuristic', function (req: express.Request, res: express.Response) {
-            search.update(messageParser.parseEvaluatedState(req.body));
+            receive(SearchTraceEventType.HEURISTIC, req.body);
             res.status(200).end();
         });
 
         app.post('/plan', function (req: express.Request, res: express.Response) {
-            search.setPlan(messageParser.parseState(req.body));
+            receive(SearchTraceEventType.PLAN, req.body);
             res.status(200).end();
         });
+
+        // batch of messages posted as one JSON array
+        app.post('/batch', function (req: express.Request, res: express.Response) {
+            let messages: SearchMessage[];
+            try {
+                messages = messageParser.parseBatch(req.body);
+            }
+            catch (ex) {
+                res.status(400).send(ex.message ?? ex);
+                return;
+            }
+            const failed = receiveAll(messages);
+            res.status(201).json({ received: messages.length - failed, failed });
+        });
+
+        // stream of messages posted as NDJSON (one message per line), applied as the lines arrive
+        app.post('/stream', function (req: express.Request, res: express.Response) {
+            const lineSplitter = new NdJsonLineSplitter();
+            let received = 0;
+            let failed = 0;
+            const receiveLines = (lines: string[]): void => {
+                lines.forEach(line => {
+                    try {
+                        const message = messageParser.parseStreamLine(line);
+                        if (message) {
+                            receiveMessage(message);
+                            received++;
+                        }
+                    }
+                    catch (ex) {
+                        console.log(ex);
+                        failed++;
+                    }
+                });
+            };
+
+            // the partial last line of an interrupted stream is incomplete, so it is abandoned
+            let interrupted = false;
+            const abandon = (reason: string): void => {
+                // an aborted request also emits an error
+                if (interrupted) { return; }
+                interrupted = true;
+                lineSplitter.end();
+                console.log(`Search debugger message stream interrupted: ${reason}`);
+                if (!res.headersSent) {
+                    res.status(400).json({ received, failed, error: reason });
+                }
+                else if (!res.finished) {
+                    res.end();
+                }
+            };
+
+            req.setEncoding('utf8');
+            req.on('data', (chunk: string) => receiveLines(lineSplitter.push(chunk)));
+            req.on('end', () => {
+                receiveLines(lineSplitter.end());
+                res.status(201).json({ received, failed });
+            });
+            req.on('aborted', () => abandon('aborted by the client'));
+            req.on('error', (err: Error) => abandon(err.message));
+        });
         return app;
     }
 
@@ -181,6 +308,9 @@ export class SearchDebugger implements planner.PlannerOptionsProvider {
     }
 
     stop(): void {
+        // open web sockets would keep the server from closing
+        this.plannerChannel?.dispose();
+        this.plannerChannel = undefined;
         if (this.server !== null) {
             this.server.close();
         }
@@ -212,6 +342,165 @@ export class SearchDebugger implements planner.PlannerOptionsProvider {
         }
     }
 
+    async mockControlled(): Promise<void> {
+        try {
+            this.view.clear();
+            this.stop();
+            this.startAndShow();
+            await new MockControlledSearch(this.port, { expansionIntervalMs: 500 }).connect();
+        }
+        catch (ex) {
+            window.showErrorMessage("Error starting the mock search: " + ex);
+        }
+    }
+
+    /**
+     * Sends the command to the planner connected via the control channel.
+     */
+    sendPlannerCommand(command: PlannerCommand): void {
+        if (!this.plannerChannel?.send(command)) {
+            window.showInformationMessage(`No planner is connected to the search debugger control channel ws://localhost:${this.port}${PlannerControlChannel.PATH}.`);
+        }
+    }
+
+    /**
+     * Asks the planner to expand the given state next.
+     * @param stateId state ID as displayed by the search debugger
+     */
+    expandState(stateId: number): void {
+        const state = this.search?.getState(stateId);
+        if (!state) {
+            window.showInformationMessage(`State ${stateId} is not known to the search debugger.`);
+            return;
+        }
+        this.sendPlannerCommand({ command: 'expand', stateId: state.origId });
+    }
+
+    async mockHighVolume(): Promise<void> {
+        const stateCountAsString = await window.showInputBox({
+            prompt: "Number of states to post to the search debugger",
+            value: "10000",
+            validateInput: value => /^\d+$/.test(value) && parseInt(value) > 0 ? undefined : "Enter a positive integer."
+        });
+        if (stateCountAsString === undefined) { return; } // canceled by user
+
+        try {
+            this.view.clear();
+            this.stop();
+            this.startAndShow();
+            await new MockSearch(this.port).runHighVolume(parseInt(stateCountAsString));
+        }
+        catch (ex) {
+            window.showErrorMessage("Error starting the mock search: " + ex);
+        }
+    }
+
+    async saveTrace(): Promise<void> {
+        const trace = this.traceReplay?.trace ?? this.trace;
+        if (!trace || trace.length === 0) {
+            window.showInformationMessage("There is no search to save. Start the search debugger and run the planner first.");
+            return;
+        }
+        else if (trace.isTruncated) {
+            window.showWarningMessage(`Only the first ${trace.length} planner messages were recorded. Increase the ${this.CONFIG_PDDL_SEARCH_DEBUGGER}.${this.CONF_MAX_TRACE_LENGTH} setting to record longer searches.`);
+        }
+
+        const uri = await window.showSaveDialog({
+            saveLabel: "Save search trace",
+            filters: {
+                "Search trace": ["json"]
+            }
+        });
+        if (uri === undefined) { return; } // canceled by user
+
+        try {
+            trace.plannerLog = this.view.getStateLogText() ?? trace.plannerLog;
+            await utils.afs.writeFile(uri.fsPath, trace.toJson(), { encoding: 'utf8' });
+        }
+        catch (ex) {
+            window.showErrorMessage(`Cannot save search trace: ${ex.message ?? ex}`);
+        }
+    }
+
+    async loadTrace(traceUri?: Uri): Promise<void> {
+        if (!traceUri) {
+            traceUri = await this.selectTrace("Load search trace");
+            if (!traceUri) { return; } // canceled by user
+        }
+
+        try {
+            const trace = SearchTrace.fromJson((await utils.afs.readFile(traceUri.fsPath, { encoding: 'utf8' })).toString());
+
+            // messages from the planner would mix with the replayed search
+            this.stop();
+            this.reset();
+            this.traceReplay = new SearchTraceReplay(trace);
+            this.view.observe(this.traceReplay.search);
+
+            await this.view.showDebugView();
+            if (trace.plannerLog) {
+                await this.view.showStateLogText(trace.plannerLog);
+            }
+            this.replay(trace.length);
+        }
+        catch (ex) {
+            window.showErrorMessage(`Cannot load search trace: ${ex.message ?? ex}`);
+        }
+    }
+
+    /**
+     * Loads two search traces and displays where the searches diverge.
+     */
+    async compareTraces(): Promise<void> {
+        const leftUri = await this.selectTrace("Select first search trace");
+        if (!leftUri) { return; } // canceled by user
+        const rightUri = await this.selectTrace("Compare with search trace");
+        if (!rightUri) { return; } // canceled by user
+
+        try {
+            const [leftTrace, rightTrace] = await Promise.all([leftUri, rightUri]
+                .map(async uri => SearchTrace.fromJson((await utils.afs.readFile(uri.fsPath, { encoding: 'utf8' })).toString())));
+
+            const comparison = new SearchComparison(leftTrace, rightTrace);
+            await new SearchComparisonView(createPddlExtensionContext(this.context), comparison, path.basename(leftUri.fsPath), path.basename(rightUri.fsPath)).showComparison();
+        }
+        catch (ex) {
+            window.showErrorMessage(`Cannot compare search traces: ${ex.message ?? ex}`);
+        }
+    }
+
+    private async selectTrace(openLabel: string): Promise<Uri | undefined> {
+        const selectedUris = await window.showOpenDialog({
+            canSelectMany: false, canSelectFolders: false,
+            openLabel,
+            filters: {
+                "Search trace": ["json"]
+            }
+        });
+        return selectedUris && selectedUris[0];
+    }
+
+    /**
+     * Displays the search progression after the given number of the replayed trace messages.
+     */
+    replay(stepCount: number): void {
+        if (!this.traceReplay) { return; }
+
+        const previousStep = this.traceReplay.currentStep;
+        this.traceReplay.seek(stepCount);
+        this.view.showReplay(this.traceReplay.currentStep, this.traceReplay.trace.length, this.traceReplay.currentStep >= previousStep);
+    }
+
+    private stopReplay(): void {
+        if (this.traceReplay) {
+            this.traceReplay = undefined;
+            this.view.hideReplay();
+        }
+        if (this.search) {
+            this.view.observe(this.search);
+        }
+    }
+
     showStatusBarItem(): void {
         if (!this.statusBarItem) {
             // create it and show it the first time the search debugger is used
@@ -16,6 +16,9 @@ import { StateToPlan } from './StateToPlan';
 import { StateResolver } from './StateResolver';
 import { ProblemInfo } from 'pddl-workspace';
 import { DomainInfo } from 'pddl-workspace';
+import { PlannerStatus } from './PlannerControlChannel';
+import { StateQuery } from './StateQuery';
+import { SearchTreeStatistics } from './SearchTreeStatistics';
 
 export class SearchDebuggerView {
     private webViewPanel: WebviewPanel | undefined;
@@ -31,6 +34,21 @@ export class SearchDebuggerView {
     // cached values
     private debuggerState: boolean | undefined;
     private port: number | undefined;
+    private replayState: { step: number; stepCount: number } | undefined;
+    private plannerStatus: PlannerStatus | undefined;
+    private query: StateQuery | undefined;
+    private statisticsVisible = false;
+
+    // states changed since the last update of the webview
+    private addedStates = new Map<number, State>();
+    private updatedStates = new Map<number, State>();
+    private betterState: State | undefined;
+    private pendingUpdate: NodeJS.Timeout | undefined;
+    /** Minimal interval between updates of the webview, so it does not freeze when the planner posts thousands of states per second. */
+    static readonly UPDATE_INTERVAL_MS = 200;
+    private pendingQueryAndStatistics: NodeJS.Timeout | undefined;
+    /** Minimal interval between re-evaluations of the query and statistics, which iterate over all states. */
+    static readonly QUERY_AND_STATISTICS_INTERVAL_MS = 2000;
 
     constructor(private context: ExtensionContext) {
     }
@@ -44,6 +62,7 @@ export class SearchDebuggerView {
         // first unsubscribe from previous search
         this.subscriptions.forEach(subscription => subscription.dispose());
         this.subscriptions = [];
+        this.discardPendingUpdate();
 
         this.subscriptions.push(search.onStateAdded(newState => this.addState(newState)));
         this.subscriptions.push(search.onStateUpdated(newState => this.update(newState)));
@@ -115,6 +134,11 @@ export class SearchDebuggerView {
         switch (message.command) {
             case 'onload':
                 this.showDebuggerState();
+                if (this.replayState) {
+                    this.showReplayState();
+                }
+                this.showPlannerStatus();
+                this.showQueryAndStatistics();
                 break;
             case 'stateSelected':
                 try {
@@ -138,6 +162,34 @@ export class SearchDebuggerView {
             case 'toggleStateLog':
                 this.toggleStateLog();
                 break;
+            case 'saveTrace':
+                commands.executeCommand("pddl.searchDebugger.save");
+                break;
+            case 'loadTrace':
+                commands.executeCommand("pddl.searchDebugger.load");
+                break;
+            case 'replayStep':
+                commands.executeCommand("pddl.searchDebugger.replay", message.step);
+                break;
+            case 'pausePlanner':
+                commands.executeCommand("pddl.searchDebugger.pause");
+                break;
+            case 'resumePlanner':
+                commands.executeCommand("pddl.searchDebugger.resume");
+                break;
+            case 'stepPlanner':
+                commands.executeCommand("pddl.searchDebugger.step", message.expansions);
+                break;
+            case 'expandState':
+                commands.executeCommand("pddl.searchDebugger.expandState", message.stateId);
+                break;
+            case 'queryStates':
+                this.setQuery(message.query);
+                break;
+            case 'showStatistics':
+                this.statisticsVisible = message.visible;
+                this.showStatistics();
+                break;
             default:
                 console.warn('Unexpected command: ' + message.command);
         }
@@ -176,31 +228,178 @@ export class SearchDebuggerView {
         });
     }
 
+    /**
+     * Shows the planner control buttons, while a planner is connected via the control channel.
+     * @param status status reported by the planner, or `undefined` if no planner is connected
+     */
+    setPlannerStatus(status: PlannerStatus | undefined): void {
+        this.plannerStatus = status;
+        this.showPlannerStatus();
+    }
+
+    private showPlannerStatus(): void {
+        this.postMessage({ command: 'plannerStatus', state: this.plannerStatus ?? null });
+    }
+
+    /**
+     * Shows the replay scrubber and the search progression after the given number of replayed messages.
+     * @param incremental the replayed search only progressed, so the states are posted as they change
+     */
+    showReplay(step: number, stepCount: number, incremental = false): void {
+        this.replayState = { step, stepCount };
+        if (incremental) {
+            this.postMessage({ command: 'replay', state: this.replayState });
+        }
+        else {
+            this.showReplayState();
+        }
+    }
+
+    hideReplay(): void {
+        this.replayState = undefined;
+        this.postMessage({ command: 'replay', state: null });
+    }
+
+    private showReplayState(): void {
+        this.postMessage({ command: 'replay', state: this.replayState });
+        this.showAllStates();
+        const plan = this.search?.getPlan();
+        if (plan) {
+            this.displayPlan(plan);
+        }
+    }
+
     addState(newState: State): void {
-        new Promise(() => this.postMessage({ command: 'stateAdded', state: newState }))
-            .catch(reason => console.log(reason));
+        this.addedStates.set(newState.id, newState);
+        this.scheduleUpdate();
     }
 
     update(state: State): void {
-        new Promise(() => this.postMessage({ command: 'stateUpdated', state: state }))
-            .catch(reason => console.log(reason));
+        // states added since the last update are posted with their latest values anyway
+        if (!this.addedStates.has(state.id)) {
+            this.updatedStates.set(state.id, state);
+        }
+        this.scheduleUpdate();
+    }
+
+    private scheduleUpdate(): void {
+        if (!this.pendingUpdate) {
+            this.pendingUpdate = setTimeout(() => this.flushUpdate(), SearchDebuggerView.UPDATE_INTERVAL_MS);
+        }
+    }
+
+    /**
+     * Posts the states added and updated since the last update to the webview in one message.
+     */
+    private flushUpdate(): void {
+        if (this.pendingUpdate) {
+            clearTimeout(this.pendingUpdate);
+            this.pendingUpdate = undefined;
+        }
+
+        if (this.addedStates.size || this.updatedStates.size) {
+            const added = [...this.addedStates.values()];
+            const updated = [...this.updatedStates.values()];
+            this.addedStates.clear();
+            this.updatedStates.clear();
+            new Promise(() => this.postMessage({ command: 'statesChanged', state: { added, updated } }))
+                .catch(reason => console.log(reason));
+            this.scheduleQueryAndStatistics();
+        }
+
+        if (this.betterState) {
+            const betterState = this.betterState;
+            this.betterState = undefined;
+            try {
+                this.showStatePlan(betterState.id);
+            } catch (ex) {
+                window.showErrorMessage(ex.message ?? ex);
+            }
+        }
+    }
+
+    private discardPendingUpdate(): void {
+        if (this.pendingUpdate) {
+            clearTimeout(this.pendingUpdate);
+            this.pendingUpdate = undefined;
+        }
+        this.addedStates.clear();
+        this.updatedStates.clear();
+        this.betterState = undefined;
     }
 
     showAllStates(): void {
+        // all states are posted, so the pending changes are not needed
+        this.discardPendingUpdate();
         const allStates = this.search?.getStates() ?? [];
         new Promise(() => this.postMessage({ command: 'showAllStates', state: allStates }))
             .catch(reason => console.log(reason));
+        this.showQueryAndStatistics();
     }
 
-    displayBetterState(state: State): void {
+    /**
+     * Filters the states displayed by the search debugger.
+     * @param queryText query, see `StateQuery`; empty query shows all states
+     */
+    setQuery(queryText: string): void {
         try {
-            this.showStatePlan(state.id);
-        } catch (ex) {
-            window.showErrorMessage(ex.message ?? ex);
+            const query = StateQuery.parse(queryText ?? '');
+            this.query = query.isEmpty() ? undefined : query;
+            this.showQueryResult();
+        }
+        catch (ex) {
+            this.query = undefined;
+            this.postMessage({ command: 'queryResult', state: { error: ex.message ?? ex } });
         }
     }
 
+    private scheduleQueryAndStatistics(): void {
+        if (!this.pendingQueryAndStatistics && (this.query || this.statisticsVisible)) {
+            this.pendingQueryAndStatistics = setTimeout(() => this.showQueryAndStatistics(), SearchDebuggerView.QUERY_AND_STATISTICS_INTERVAL_MS);
+        }
+    }
+
+    private showQueryAndStatistics(): void {
+        if (this.pendingQueryAndStatistics) {
+            clearTimeout(this.pendingQueryAndStatistics);
+            this.pendingQueryAndStatistics = undefined;
+        }
+        if (this.query) {
+            this.showQueryResult();
+        }
+        this.showStatistics();
+    }
+
+    private showQueryResult(): void {
+        if (!this.query) {
+            this.postMessage({ command: 'queryResult', state: { stateIds: null } });
+            return;
+        }
+        const states = this.search?.getStates() ?? [];
+        const stateIds = this.query.filter(states).map(state => state.id);
+        this.postMessage({ command: 'queryResult', state: { stateIds, stateCount: states.length } });
+    }
+
+    private showStatistics(): void {
+        if (!this.statisticsVisible) { return; }
+        const statistics = new SearchTreeStatistics(this.search?.getStates() ?? []);
+        this.postMessage({
+            command: 'statistics', state: {
+                heuristicByExpansion: statistics.getHeuristicByExpansionOrder(),
+                branchingByDepth: statistics.getBranchingFactorByDepth()
+            }
+        });
+    }
+
+    displayBetterState(state: State): void {
+        // only the best state since the last update is displayed
+        this.betterState = state;
+        this.scheduleUpdate();
+    }
+
     displayPlan(planStates: State[]): void {
+        // the plan states must be displayed before they get highlighted
+        this.flushUpdate();
         new Promise(() => this.postMessage({ command: 'showPlan', state: planStates }))
             .catch(reason => console.log(reason));
     }
@@ -232,6 +431,7 @@ export class SearchDebuggerView {
     }
 
     clear(): void {
+        this.discardPendingUpdate();
         this.postMessage({ command: 'clear', state: 'n/a' });
         this.stateLogLineCache.clear();
         this.domain = undefined;
@@ -251,6 +451,24 @@ export class SearchDebuggerView {
         }
     }
 
+    /**
+     * @returns text of the state log (planner log) synchronized with the state selection, if any
+     */
+    getStateLogText(): string | undefined {
+        return this.stateLogFile && this.stateLogEditor ? this.stateLogEditor.document.getText() : undefined;
+    }
+
+    /**
+     * Opens the planner log saved in the search trace and synchronizes the state selection with it.
+     */
+    async showStateLogText(plannerLog: string): Promise<void> {
+        const document = await workspace.openTextDocument({ content: plannerLog });
+        this.stateLogEditor = await window.showTextDocument(document, { preserveFocus: true, viewColumn: ViewColumn.Beside });
+        this.stateLogFile = document.uri;
+        this.stateLogLineCache.clear();
+        this.postMessage({ command: 'stateLog', state: 'planner log saved in the search trace' });
+    }
+
     async scrollStateLog(stateId: number): Promise<void> {
         if (!this.stateLogFile || !this.stateLogEditor || !this.search) { return; }
         const state = this.search.getState(stateId);
@@ -0,0 +1,184 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { Search } from "./Search";
+import { MessageParser } from "./MessageParser";
+
+/** Search debugger endpoint, which received the planner message. */
+export enum SearchTraceEventType {
+    INITIAL_STATE = "state/initial",
+    STATE = "state",
+    VISITED_OR_WORSE = "state/visitedOrWorse",
+    HEURISTIC = "state/heuristic",
+    PLAN = "plan",
+}
+
+/** Planner message received by the search debugger. */
+export interface SearchTraceEvent {
+    type: SearchTraceEventType;
+    /** Message body as posted by the planner. */
+    body: any;
+    /** Time the message was received (milliseconds since epoch). */
+    time: number;
+}
+
+/** Search trace as saved to the file. */
+interface SearchTraceFile {
+    version: number;
+    stateIdPattern: string;
+    events: SearchTraceEvent[];
+    plannerLog?: string;
+}
+
+/**
+ * Records the planner messages received by the search debugger, so the search may be saved to a file and replayed later.
+ * The messages are recorded as received, so the replay re-creates the states, evaluations, helpful actions and relaxed plans.
+ */
+export class SearchTrace {
+    static readonly VERSION = 1;
+    private readonly events: SearchTraceEvent[] = [];
+    private truncated = false;
+    /** Planner log (state log), which the state selection is synchronized with. */
+    plannerLog: string | undefined;
+
+    /**
+     * @param stateIdPattern pattern to parse the state ID
+     * @param maxLength number of messages to record at most (zero to not record any), so long searches do not exhaust the memory
+     */
+    constructor(readonly stateIdPattern: RegExp, private readonly maxLength = Number.MAX_SAFE_INTEGER) { }
+
+    get length(): number {
+        return this.events.length;
+    }
+
+    /** True, if messages were received after the trace reached its maximum length. */
+    get isTruncated(): boolean {
+        return this.truncated;
+    }
+
+    getEvents(): SearchTraceEvent[] {
+        return this.events;
+    }
+
+    record(type: SearchTraceEventType, body: any, time = Date.now()): void {
+        if (this.events.length >= this.maxLength) {
+            this.truncated = true;
+            return;
+        }
+        this.events.push({ type, body, time });
+    }
+
+    clear(): void {
+        this.events.length = 0;
+        this.truncated = false;
+        this.plannerLog = undefined;
+    }
+
+    /**
+     * Replays the recorded messages into a new search.
+     * @param stepCount number of messages to replay, all by default
+     */
+    replay(stepCount = this.events.length): Search {
+        return new SearchTraceReplay(this).seek(stepCount);
+    }
+
+    /**
+     * Applies the planner message to the search.
+     */
+    static apply(type: SearchTraceEventType, body: any, search: Search, messageParser: MessageParser): void {
+        switch (type) {
+            case SearchTraceEventType.INITIAL_STATE:
+                search.addInitialState(messageParser.parseInitialState(body));
+                break;
+            case SearchTraceEventType.STATE:
+                search.addState(messageParser.parseState(body));
+                break;
+            case SearchTraceEventType.VISITED_OR_WORSE:
+                search.update(messageParser.parseState(body).setVisitedOrIsWorse());
+                break;
+            case SearchTraceEventType.HEURISTIC:
+                search.update(messageParser.parseEvaluatedState(body));
+                break;
+            case SearchTraceEventType.PLAN:
+                search.setPlan(messageParser.parseState(body));
+                break;
+            default:
+                throw new Error("Unexpected search trace event: " + type);
+        }
+    }
+
+    toJson(): string {
+        const file: SearchTraceFile = {
+            version: SearchTrace.VERSION,
+            stateIdPattern: this.stateIdPattern.source,
+            events: this.events,
+            plannerLog: this.plannerLog,
+        };
+        return JSON.stringify(file);
+    }
+
+    static fromJson(text: string): SearchTrace {
+        const file: SearchTraceFile = JSON.parse(text);
+        if (typeof file.version !== 'number' || !Array.isArray(file.events)) {
+            throw new Error("Not a search trace file.");
+        }
+        if (file.version > SearchTrace.VERSION) {
+            throw new Error(`Search trace version ${file.version} is not supported. Update the extension.`);
+        }
+
+        const trace = new SearchTrace(new RegExp(file.stateIdPattern));
+        file.events.forEach(event => trace.record(event.type, event.body, event.time));
+        trace.plannerLog = file.plannerLog;
+        return trace;
+    }
+}
+
+/**
+ * Replays the trace messages into one search. Seeking forward applies just the messages after the current step,
+ * seeking backwards replays the search from the first message.
+ */
+export class SearchTraceReplay {
+    readonly search = new Search();
+    private readonly messageParser: MessageParser;
+    private step = 0;
+
+    constructor(readonly trace: SearchTrace) {
+        this.messageParser = new MessageParser(this.search, trace.stateIdPattern);
+    }
+
+    /** Number of messages applied to the search. */
+    get currentStep(): number {
+        return this.step;
+    }
+
+    /**
+     * Brings the search to the state after the given number of messages.
+     * @param stepCount number of messages (capped to the trace length)
+     * @returns the search
+     */
+    seek(stepCount: number): Search {
+        const targetStep = Math.max(0, Math.min(stepCount, this.trace.length));
+        if (targetStep < this.step) {
+            this.search.clear();
+            this.messageParser.clear();
+            this.step = 0;
+        }
+
+        this.trace.getEvents().slice(this.step, targetStep).forEach(event => {
+            try {
+                SearchTrace.apply(event.type, event.body, this.search, this.messageParser);
+            }
+            catch (ex) {
+                console.log(ex);
+            }
+        });
+        this.step = targetStep;
+
+        return this.search;
+    }
+}
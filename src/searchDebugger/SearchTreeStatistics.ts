@@ -0,0 +1,120 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { State } from "./State";
+
+/** Heuristic value of the state expanded in the given order. */
+export interface ExpansionHeuristic {
+    /** Order of the expansion (starting from 1). */
+    expansion: number;
+    stateId: number;
+    /** Heuristic value, or `undefined` if the expanded state was not evaluated. */
+    h?: number;
+}
+
+/** Branching of the search tree at the given depth. */
+export interface DepthBranching {
+    depth: number;
+    /** Number of states at this depth. */
+    states: number;
+    /** Number of states at this depth, which have at least one successor. */
+    expanded: number;
+    /** Average number of successors of the expanded states. */
+    branchingFactor: number;
+}
+
+/**
+ * Calculates the search tree statistics from the states of the search.
+ */
+export class SearchTreeStatistics {
+    private readonly depths: Map<number, number>;
+
+    /**
+     * @param states states in the order they were generated
+     */
+    constructor(private readonly states: State[]) {
+        this.depths = getStateDepths(states);
+    }
+
+    getDepth(state: State): number {
+        return this.depths.get(state.id) ?? 0;
+    }
+
+    /**
+     * States are considered expanded in the order of their first successor generation.
+     * @returns heuristic value of the expanded states in the order of expansion
+     */
+    getHeuristicByExpansionOrder(): ExpansionHeuristic[] {
+        const statesById = new Map<number, State>();
+        this.states.forEach(state => statesById.set(state.id, state));
+        const expandedStates: State[] = [];
+        const expandedIds = new Set<number>();
+
+        this.states.forEach(state => {
+            if (state.parentId !== undefined && !expandedIds.has(state.parentId)) {
+                expandedIds.add(state.parentId);
+                const parent = statesById.get(state.parentId);
+                if (parent) { expandedStates.push(parent); }
+            }
+        });
+
+        return expandedStates.map((state, index) => ({
+            expansion: index + 1,
+            stateId: state.id,
+            h: state.isDeadEnd ? undefined : state.h,
+        }));
+    }
+
+    /**
+     * @returns number of states, expanded states and the branching factor at each depth of the search tree
+     */
+    getBranchingFactorByDepth(): DepthBranching[] {
+        const statesAtDepth: number[] = [];
+        const successorsAtDepth: number[] = [];
+        const expandedIds = new Set<number>();
+        const expandedAtDepth: number[] = [];
+
+        this.states.forEach(state => {
+            const depth = this.getDepth(state);
+            statesAtDepth[depth] = (statesAtDepth[depth] ?? 0) + 1;
+
+            // states with unknown parent are at depth zero
+            if (state.parentId !== undefined && depth > 0) {
+                const parentDepth = depth - 1;
+                successorsAtDepth[parentDepth] = (successorsAtDepth[parentDepth] ?? 0) + 1;
+                if (!expandedIds.has(state.parentId)) {
+                    expandedIds.add(state.parentId);
+                    expandedAtDepth[parentDepth] = (expandedAtDepth[parentDepth] ?? 0) + 1;
+                }
+            }
+        });
+
+        const branching: DepthBranching[] = [];
+        for (let depth = 0; depth < statesAtDepth.length; depth++) {
+            const expanded = expandedAtDepth[depth] ?? 0;
+            branching.push({
+                depth,
+                states: statesAtDepth[depth] ?? 0,
+                expanded,
+                branchingFactor: expanded > 0 ? (successorsAtDepth[depth] ?? 0) / expanded : 0,
+            });
+        }
+        return branching;
+    }
+}
+
+/**
+ * @param states states in the order they were generated (parents before their successors)
+ * @returns depth of each state in the search tree by state ID
+ */
+export function getStateDepths(states: State[]): Map<number, number> {
+    const depths = new Map<number, number>();
+    states.forEach(state => {
+        const parentDepth = state.parentId !== undefined ? depths.get(state.parentId) : undefined;
+        depths.set(state.id, parentDepth !== undefined ? parentDepth + 1 : 0);
+    });
+    return depths;
+}
@@ -0,0 +1,110 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { State } from "./State";
+import { getStateDepths } from "./SearchTreeStatistics";
+
+/** Condition on the state and its depth in the search tree. */
+type StateCondition = (state: State, depth: number) => boolean;
+
+const NUMERIC_FIELDS: { [field: string]: (state: State, depth: number) => number | undefined } = {
+    'h': (state: State): number | undefined => state.isDeadEnd ? undefined : state.h,
+    'g': (state: State): number | undefined => state.g,
+    'earliestTime': (state: State): number | undefined => state.earliestTime,
+    'depth': (_state: State, depth: number): number | undefined => depth,
+};
+
+const BOOLEAN_FIELDS: { [field: string]: (state: State) => boolean } = {
+    'isDeadEnd': (state: State): boolean => !!state.isDeadEnd,
+    'wasVisitedOrIsWorse': (state: State): boolean => !!state.wasVisitedOrIsWorse,
+};
+
+const COMPARISONS: { [operator: string]: (value: number, limit: number) => boolean } = {
+    '<': (value, limit): boolean => value < limit,
+    '<=': (value, limit): boolean => value <= limit,
+    '>': (value, limit): boolean => value > limit,
+    '>=': (value, limit): boolean => value >= limit,
+    '=': (value, limit): boolean => value === limit,
+    '==': (value, limit): boolean => value === limit,
+    '!=': (value, limit): boolean => value !== limit,
+};
+
+/**
+ * Query filtering the search debugger states. The query is a space separated list of conditions, which must all hold, e.g.
+ * `h<=3 depth>2 !isDeadEnd action~^drive`. Supported conditions:
+ * - `h`, `g`, `earliestTime` or `depth` compared (`<`, `<=`, `>`, `>=`, `=`, `!=`) to a number,
+ * - `isDeadEnd` and `wasVisitedOrIsWorse` flags, optionally negated by `!`,
+ * - `action~<regex>` matching the name of the action that created the state.
+ * Terms `and` and `&&` are ignored, so the query may also read `h<=3 and !isDeadEnd`.
+ */
+export class StateQuery {
+
+    private constructor(readonly text: string, private readonly conditions: StateCondition[]) { }
+
+    /**
+     * @param text query text
+     * @throws Error when the query is not valid
+     */
+    static parse(text: string): StateQuery {
+        const terms = text.trim().split(/\s+/)
+            .filter(term => term.length > 0 && term.toLowerCase() !== 'and' && term !== '&&');
+        return new StateQuery(text, terms.map(term => StateQuery.parseTerm(term)));
+    }
+
+    private static parseTerm(term: string): StateCondition {
+        const comparisonMatch = term.match(/^(\w+)(<=|>=|==|!=|<|>|=)(-?\d+(?:\.\d+)?)$/);
+        if (comparisonMatch) {
+            const getValue = NUMERIC_FIELDS[comparisonMatch[1]];
+            if (!getValue) {
+                throw new Error(`Unknown state field '${comparisonMatch[1]}' in '${term}'. Expected one of: ${Object.keys(NUMERIC_FIELDS).join(', ')}.`);
+            }
+            const compare = COMPARISONS[comparisonMatch[2]];
+            const limit = parseFloat(comparisonMatch[3]);
+            return (state, depth): boolean => {
+                const value = getValue(state, depth);
+                return value !== undefined && compare(value, limit);
+            };
+        }
+
+        const flagMatch = term.match(/^(!?)(\w+)$/);
+        if (flagMatch && BOOLEAN_FIELDS[flagMatch[2]]) {
+            const negated = flagMatch[1] === '!';
+            const getFlag = BOOLEAN_FIELDS[flagMatch[2]];
+            return (state): boolean => getFlag(state) !== negated;
+        }
+
+        const actionMatch = term.match(/^action~(.+)$/);
+        if (actionMatch) {
+            let pattern: RegExp;
+            try {
+                pattern = new RegExp(actionMatch[1]);
+            }
+            catch (ex) {
+                throw new Error(`Invalid action name regular expression in '${term}': ${ex.message ?? ex}`);
+            }
+            return (state): boolean => state.actionName !== undefined && pattern.test(state.actionName);
+        }
+
+        throw new Error(`Unexpected query condition '${term}'. Use e.g. 'h<=3', 'depth>2', '!isDeadEnd', 'wasVisitedOrIsWorse' or 'action~^drive'.`);
+    }
+
+    isEmpty(): boolean {
+        return this.conditions.length === 0;
+    }
+
+    matches(state: State, depth: number): boolean {
+        return this.conditions.every(condition => condition(state, depth));
+    }
+
+    /**
+     * @param states states in the order they were generated
+     * @returns states matching the query
+     */
+    filter(states: State[]): State[] {
+        const depths = getStateDepths(states);
+        return states.filter(state => this.matches(state, depths.get(state.id) ?? 0));
+    }
+}
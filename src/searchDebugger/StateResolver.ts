@@ -19,4 +19,6 @@ export interface StateResolver {
     getState(stateId: number): State | undefined;
 
     getStates(): State[];
+
+    getPlan(): State[] | undefined;
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { TextDocument, WorkspaceEdit, Diagnostic, Range } from 'vscode';
+import { parser } from 'pddl-workspace';
+import { FileInfo } from 'pddl-workspace';
+import { UndeclaredVariable } from './UndeclaredVariable';
+import { getTypedNames } from './TypedNames';
+
+/**
+ * Edits the problem `:objects` section to fix the undeclared and duplicate objects.
+ */
+export class ObjectDeclarations {
+    static readonly undeclaredObjectDiagnosticPattern = /^Undeclared object: ([\w-]+)\. Expected type: ([\w-]+)/i;
+    syntaxTree: parser.PddlSyntaxTree;
+
+    constructor(fileInfo: FileInfo) {
+        this.syntaxTree = new parser.PddlSyntaxTreeBuilder(fileInfo.getText()).getTree();
+    }
+
+    getUndeclaredObject(diagnosticMessage: string): { objectName: string; type: string } | undefined {
+        const match = ObjectDeclarations.undeclaredObjectDiagnosticPattern.exec(diagnosticMessage);
+        return match ? { objectName: match[1], type: match[2] } : undefined;
+    }
+
+    createDeclarationEdit(document: TextDocument, objectName: string, type: string): WorkspaceEdit {
+        const defineNode = this.syntaxTree.getDefineNode();
+        const objectsNode = defineNode.getFirstOpenBracket(':objects');
+
+        const edit = new WorkspaceEdit();
+
+        if (objectsNode) {
+            // inserted at the start, so it does not change the type of the trailing untyped objects
+            edit.insert(document.uri, document.positionAt(objectsNode.getToken().getEnd()), ` ${objectName} - ${type}`);
+        } else {
+            const domainNode = defineNode.getFirstOpenBracketOrThrow(':domain');
+            const indent = UndeclaredVariable.createIndent(document, 1);
+            const eol = UndeclaredVariable.createEolString(document);
+            edit.insert(document.uri, document.positionAt(domainNode.getEnd()), eol + indent + `(:objects ${objectName} - ${type})`);
+        }
+
+        return edit;
+    }
+
+    /**
+     * Removes the object declared at the diagnostic range, incl. its type, unless the type is shared with other objects.
+     */
+    createRemovalEdit(document: TextDocument, diagnostic: Diagnostic): WorkspaceEdit | undefined {
+        const offset = document.offsetAt(diagnostic.range.start);
+        const objects = getTypedNames(this.syntaxTree, ':objects');
+        const object = objects.find(o => o.node.getStart() === offset);
+        if (!object) { return undefined; }
+
+        const sharesType = objects.some(o => o !== object && o.typeNode === object.typeNode);
+        const end = !sharesType && object.typeNode ? object.typeNode.getEnd() : object.node.getToken().getEnd();
+        const trailingWhitespace = document.getText().substring(end).search(/\S|$/);
+
+        const edit = new WorkspaceEdit();
+        edit.delete(document.uri, new Range(document.positionAt(object.node.getStart()), document.positionAt(end + trailingWhitespace)));
+        return edit;
+    }
+}
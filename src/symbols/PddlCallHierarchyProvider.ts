@@ -0,0 +1,92 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import {
+    TextDocument, Position, CancellationToken, CallHierarchyProvider, CallHierarchyItem, CallHierarchyIncomingCall, CallHierarchyOutgoingCall, SymbolKind, Range
+} from 'vscode';
+import { DomainInfo, Variable } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
+import { SymbolUtils, VariableInfo } from './SymbolUtils';
+import { findVariable, findVariableUsages, VariableUsage, VariableUsages, VariableUsageKind } from './VariableUsages';
+import { toRange, toUri } from '../utils';
+
+/**
+ * Shows which actions, processes, events and problems access a predicate or function.
+ * The _incoming calls_ are the writers (effects and problem `:init`), the _outgoing calls_ are the readers (conditions and problem goals).
+ */
+export class PddlCallHierarchyProvider implements CallHierarchyProvider {
+
+    private readonly symbolUtils: SymbolUtils;
+
+    constructor(private readonly pddlWorkspace: CodePddlWorkspace) {
+        this.symbolUtils = new SymbolUtils(pddlWorkspace);
+    }
+
+    async prepareCallHierarchy(document: TextDocument, position: Position, token: CancellationToken): Promise<CallHierarchyItem | undefined> {
+        await this.symbolUtils.assertFileParsed(document);
+        if (token.isCancellationRequested) { return undefined; }
+
+        const symbolInfo = this.symbolUtils.getSymbolInfo(document, position);
+        if (!(symbolInfo instanceof VariableInfo)) { return undefined; }
+
+        const domainInfo = this.pddlWorkspace.getFileInfoByUri<DomainInfo>(symbolInfo.location.uri);
+        return domainInfo && createVariableItem(domainInfo, symbolInfo.variable);
+    }
+
+    provideCallHierarchyIncomingCalls(item: CallHierarchyItem, token: CancellationToken): CallHierarchyIncomingCall[] | undefined {
+        const usages = this.findUsages(item);
+        if (token.isCancellationRequested || !usages) { return undefined; }
+
+        return usages.writers.map(usage => new CallHierarchyIncomingCall(createUsageItem(usage), getReferenceRanges(usage)));
+    }
+
+    provideCallHierarchyOutgoingCalls(item: CallHierarchyItem, token: CancellationToken): CallHierarchyOutgoingCall[] | undefined {
+        const usages = this.findUsages(item);
+        if (token.isCancellationRequested || !usages) { return undefined; }
+
+        // the ranges must be in the document of the variable item, so references in problem files are not highlighted
+        return usages.readers.map(usage => new CallHierarchyOutgoingCall(createUsageItem(usage),
+            usage.fileInfo.fileUri.toString() === item.uri.toString() ? getReferenceRanges(usage) : []));
+    }
+
+    private findUsages(item: CallHierarchyItem): VariableUsages | undefined {
+        // only the predicates and functions are expanded, the actions and problems are leaves
+        if (item.kind !== SymbolKind.Boolean && item.kind !== SymbolKind.Function) { return undefined; }
+
+        const domainInfo = this.pddlWorkspace.getFileInfoByUri<DomainInfo>(item.uri);
+        const variable = domainInfo && findVariable(domainInfo, item.name);
+        if (!domainInfo || !variable) { return undefined; }
+
+        return findVariableUsages(domainInfo, this.pddlWorkspace.pddlWorkspace.getProblemFiles(domainInfo), variable);
+    }
+}
+
+function createVariableItem(domainInfo: DomainInfo, variable: Variable): CallHierarchyItem {
+    const kind = domainInfo.getFunctions().includes(variable) ? SymbolKind.Function : SymbolKind.Boolean;
+    const range = toRange(variable.getLocation());
+    return new CallHierarchyItem(kind, variable.name, `(${variable.declaredName})`, toUri(domainInfo.fileUri), range, range);
+}
+
+const USAGE_SYMBOL_KINDS: { [kind in VariableUsageKind]: SymbolKind } = {
+    'action': SymbolKind.Module,
+    'durative-action': SymbolKind.Module,
+    'process': SymbolKind.Struct,
+    'event': SymbolKind.Event,
+    'problem': SymbolKind.File
+};
+
+function createUsageItem(usage: VariableUsage): CallHierarchyItem {
+    const ranges = getReferenceRanges(usage);
+    const parts = usage.references.map(reference => reference.part)
+        .filter((part, index, allParts) => allParts.indexOf(part) === index);
+    return new CallHierarchyItem(USAGE_SYMBOL_KINDS[usage.kind], usage.name, parts.join(', '), toUri(usage.fileInfo.fileUri),
+        ranges.reduce((union, range) => union.union(range)), ranges[0]);
+}
+
+function getReferenceRanges(usage: VariableUsage): Range[] {
+    const positionResolver = usage.fileInfo.getDocumentPositionResolver();
+    return usage.references.map(reference => toRange(positionResolver.nodeToRange(reference.node)));
+}
@@ -0,0 +1,80 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { TextDocument, CancellationToken, FoldingRangeProvider, FoldingRange, FoldingRangeKind, FoldingContext } from 'vscode';
+import { parser } from 'pddl-workspace';
+
+/** Region markers, which are also declared in the `language-configuration.json`. */
+const REGION_START = /^\s*;;\(/;
+const REGION_END = /^\s*;;\)/;
+const COMMENT_LINE = /^\s*;/;
+
+/**
+ * Folds every multi-line s-expression (e.g. `(:action ...)`, `(:init ...)` or `(and ...)`), blocks of comment lines
+ * and the `;;(` ... `;;)` regions. Unlike the indentation-based folding, this also works for compact or machine-generated PDDL.
+ */
+export class PddlFoldingRangeProvider implements FoldingRangeProvider {
+
+    provideFoldingRanges(document: TextDocument, _context: FoldingContext, token: CancellationToken): FoldingRange[] | undefined {
+        const syntaxTree = new parser.PddlSyntaxTreeBuilder(document.getText()).getTree();
+        if (token.isCancellationRequested) { return undefined; }
+
+        const ranges: FoldingRange[] = [];
+        this.addBracketRanges(document, syntaxTree.getRootNode(), ranges);
+        this.addCommentRanges(document, ranges);
+        return ranges;
+    }
+
+    private addBracketRanges(document: TextDocument, node: parser.PddlSyntaxNode, ranges: FoldingRange[]): void {
+        node.getNestedChildren().forEach(child => {
+            if (parser.isOpenBracket(child.getToken())) {
+                const startLine = document.positionAt(child.getStart()).line;
+                const end = document.positionAt(child.getEnd());
+                // keep the closing bracket visible, if it is on its own line
+                const endLine = (child as parser.PddlBracketNode).isClosed &&
+                    document.lineAt(end.line).firstNonWhitespaceCharacterIndex === end.character - 1 ? end.line - 1 : end.line;
+
+                if (endLine > startLine) {
+                    ranges.push(new FoldingRange(startLine, endLine));
+                }
+            }
+
+            if (child.hasChildren()) {
+                this.addBracketRanges(document, child, ranges);
+            }
+        });
+    }
+
+    private addCommentRanges(document: TextDocument, ranges: FoldingRange[]): void {
+        const regionStarts: number[] = [];
+        let commentBlockStart: number | undefined;
+
+        for (let lineIndex = 0; lineIndex <= document.lineCount; lineIndex++) {
+            const lineText = lineIndex < document.lineCount ? document.lineAt(lineIndex).text : '';
+
+            if (REGION_START.test(lineText)) {
+                regionStarts.push(lineIndex);
+            }
+            else if (REGION_END.test(lineText)) {
+                const regionStart = regionStarts.pop();
+                if (regionStart !== undefined) {
+                    ranges.push(new FoldingRange(regionStart, lineIndex, FoldingRangeKind.Region));
+                }
+            }
+
+            const isCommentLine = lineIndex < document.lineCount && COMMENT_LINE.test(lineText) && !REGION_START.test(lineText) && !REGION_END.test(lineText);
+            if (isCommentLine && commentBlockStart === undefined) {
+                commentBlockStart = lineIndex;
+            }
+            else if (!isCommentLine && commentBlockStart !== undefined) {
+                if (lineIndex - 1 > commentBlockStart) {
+                    ranges.push(new FoldingRange(commentBlockStart, lineIndex - 1, FoldingRangeKind.Comment));
+                }
+                commentBlockStart = undefined;
+            }
+        }
+    }
+}
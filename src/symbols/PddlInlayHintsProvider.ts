@@ -0,0 +1,142 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import {
+    ExtensionContext, TextDocument, Range, CancellationToken, InlayHintsProvider, InlayHint, InlayHintKind, EventEmitter, Event, workspace, Disposable
+} from 'vscode';
+import { PddlWorkspace, FileInfo, DomainInfo, Term, Parameter, parser } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
+import { CONF_PDDL } from '../configuration/configuration';
+
+/** Configuration with the `pddl`, `plan` and `happenings` switches named after the language IDs. */
+const INLAY_HINTS = 'inlayHints';
+const INLAY_HINTS_LABEL = INLAY_HINTS + '.label';
+
+/** Problem file sections, where the predicate and function arguments are annotated. */
+const PROBLEM_SECTIONS = [':init', ':goal'];
+
+/**
+ * Displays the parameter names (or types) before the arguments of the `:init` and `:goal` atoms in problem files
+ * and before the action arguments in plan and happenings files.
+ */
+export class PddlInlayHintsProvider implements InlayHintsProvider, Disposable {
+
+    private _onDidChangeInlayHints = new EventEmitter<void>();
+    readonly onDidChangeInlayHints: Event<void> = this._onDidChangeInlayHints.event;
+
+    /** The hints in problems, plans and happenings depend on the domain signatures. */
+    private readonly onFileUpdated = (fileInfo: FileInfo): void => {
+        if (fileInfo.isDomain()) {
+            this._onDidChangeInlayHints.fire();
+        }
+    };
+
+    constructor(context: ExtensionContext, private readonly pddlWorkspace: CodePddlWorkspace) {
+        pddlWorkspace.pddlWorkspace.on(PddlWorkspace.UPDATED, this.onFileUpdated);
+
+        context.subscriptions.push(workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(CONF_PDDL + '.' + INLAY_HINTS)) {
+                this._onDidChangeInlayHints.fire();
+            }
+        }));
+    }
+
+    dispose(): void {
+        this.pddlWorkspace.pddlWorkspace.removeListener(PddlWorkspace.UPDATED, this.onFileUpdated);
+        this._onDidChangeInlayHints.dispose();
+    }
+
+    async provideInlayHints(document: TextDocument, range: Range, token: CancellationToken): Promise<InlayHint[] | undefined> {
+        const configuration = workspace.getConfiguration(CONF_PDDL, document.uri);
+        if (!configuration.get<boolean>(INLAY_HINTS + '.' + document.languageId, true)) { return undefined; }
+
+        const fileInfo = await this.pddlWorkspace.upsertAndParseFile(document);
+        if (token.isCancellationRequested || !fileInfo || fileInfo.isDomain()) { return undefined; }
+
+        const domainInfo = this.pddlWorkspace.pddlWorkspace.asDomain(fileInfo);
+        if (!domainInfo) { return undefined; }
+
+        const syntaxTree = new parser.PddlSyntaxTreeBuilder(document.getText()).getTree();
+        const scopes = fileInfo.isProblem() ?
+            PROBLEM_SECTIONS.map(section => syntaxTree.getDefineNode()?.getFirstOpenBracket(section)).filter(node => !!node) :
+            [syntaxTree.getRootNode()];
+
+        const showTypes = configuration.get<string>(INLAY_HINTS_LABEL, 'name') === 'type';
+        const hints: InlayHint[] = [];
+
+        scopes.forEach(scope => scope.getChildrenRecursively(node => parser.isOpenBracket(node.getToken()), bracket => {
+            const head = getHead(bracket);
+            const parameters = head && findParameters(domainInfo, fileInfo, head.name);
+            if (!head || !parameters) { return; }
+            const argumentNodes = head.argumentNodes;
+
+            argumentNodes.slice(0, parameters.length).forEach((argumentNode, index) => {
+                const position = document.positionAt(argumentNode.getStart());
+                if (!isArgument(argumentNode) || !range.contains(position)) { return; }
+
+                const label = createLabel(parameters[index], argumentNode.getToken().tokenText, showTypes);
+                if (label) {
+                    const hint = new InlayHint(position, label, InlayHintKind.Parameter);
+                    hint.paddingRight = true;
+                    hint.tooltip = parameters[index].toPddlString();
+                    hints.push(hint);
+                }
+            });
+        }));
+
+        return hints;
+    }
+}
+
+/**
+ * @returns name and argument nodes of the bracket; `(at` is tokenized as an operator, even if it is a predicate name,
+ * but `(at 10 (p))` is a timed initial literal
+ */
+function getHead(bracket: parser.PddlSyntaxNode): { name: string; argumentNodes: parser.PddlSyntaxNode[] } | undefined {
+    const children = bracket.getNonWhitespaceNonCommentChildren();
+    if (bracket.isType(parser.PddlTokenType.OpenBracketOperator)) {
+        const name = bracket.getToken().tokenText.substring(1).trim();
+        const isTimedInitialLiteral = children[0]?.isType(parser.PddlTokenType.Other) && !isNaN(Number(children[0].getToken().tokenText));
+        return isTimedInitialLiteral ? undefined : { name, argumentNodes: children };
+    }
+    else if (bracket.isType(parser.PddlTokenType.OpenBracket) && children[0]?.isType(parser.PddlTokenType.Other)) {
+        return { name: children[0].getToken().tokenText, argumentNodes: children.slice(1) };
+    }
+    return undefined;
+}
+
+/**
+ * @returns parameters of the predicate/function in problem files, or of the action in plan and happenings files
+ */
+function findParameters(domainInfo: DomainInfo, fileInfo: FileInfo, name: string): Term[] | undefined {
+    const lowerCaseName = name.toLowerCase();
+    if (fileInfo.isProblem()) {
+        return domainInfo.getPredicates().concat(domainInfo.getFunctions(), domainInfo.getDerived())
+            .find(variable => variable.name.toLowerCase() === lowerCaseName)?.parameters;
+    }
+    else {
+        return domainInfo.getActions().find(action => action.name?.toLowerCase() === lowerCaseName)?.parameters;
+    }
+}
+
+function isArgument(node: parser.PddlSyntaxNode): boolean {
+    return node.isType(parser.PddlTokenType.Other) || node.isType(parser.PddlTokenType.Parameter);
+}
+
+/**
+ * @returns `?name:` or `type:` label, or undefined if the argument already tells the parameter name
+ */
+function createLabel(parameter: Term, argument: string, showTypes: boolean): string | undefined {
+    if (showTypes || !(parameter instanceof Parameter)) {
+        return `${parameter.type}:`;
+    }
+    else if (argument.replace(/^\?/, '').toLowerCase() === parameter.name.toLowerCase()) {
+        return undefined;
+    }
+    else {
+        return `?${parameter.name}:`;
+    }
+}
@@ -0,0 +1,78 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { TextDocument, CancellationToken, SelectionRangeProvider, SelectionRange, Position, Range } from 'vscode';
+import { parser } from 'pddl-workspace';
+
+/**
+ * Expands the selection along the syntax tree: name, bracket content, bracket (incl. the preceding keyword e.g. `:effect`),
+ * parent bracket content and so on up to the whole document.
+ */
+export class PddlSelectionRangeProvider implements SelectionRangeProvider {
+
+    provideSelectionRanges(document: TextDocument, positions: Position[], token: CancellationToken): SelectionRange[] | undefined {
+        const syntaxTree = new parser.PddlSyntaxTreeBuilder(document.getText()).getTree();
+        if (token.isCancellationRequested) { return undefined; }
+
+        return positions.map(position => {
+            const node = syntaxTree.getNodeAt(document.offsetAt(position));
+            const ranges = getEnclosingRanges(document, node);
+
+            // from the outermost range to the innermost
+            return ranges.reduceRight<SelectionRange | undefined>((parent, range) =>
+                parent && parent.range.isEqual(range) ? parent : new SelectionRange(range, parent), undefined)
+                ?? new SelectionRange(new Range(position, position));
+        });
+    }
+}
+
+/**
+ * @returns ranges enclosing the node from the innermost to the outermost
+ */
+function getEnclosingRanges(document: TextDocument, node: parser.PddlSyntaxNode): Range[] {
+    const toRange = (start: number, end: number): Range => new Range(document.positionAt(start), document.positionAt(end));
+    const ranges: Range[] = [];
+
+    // names, parameters and keywords (whitespace, comments and brackets do not make meaningful selections on their own)
+    if (node.isType(parser.PddlTokenType.Other) || node.isType(parser.PddlTokenType.Parameter) || node.isType(parser.PddlTokenType.Keyword)) {
+        ranges.push(toRange(node.getToken().getStart(), node.getToken().getEnd()));
+    }
+
+    let current: parser.PddlSyntaxNode | undefined = node;
+    while (current && !current.isType(parser.PddlTokenType.Document)) {
+        const significantChildren = current.getNonWhitespaceChildren();
+        const contentEnd = significantChildren.length ? getEndWithoutWhitespace(significantChildren[significantChildren.length - 1]) : current.getToken().getEnd();
+
+        if (parser.isOpenBracket(current.getToken())) {
+            // the operator e.g. `:action` or `and` is part of the open bracket token
+            const contentStart = current.isType(parser.PddlTokenType.OpenBracketOperator) || !significantChildren.length ?
+                current.getStart() + 1 : significantChildren[0].getStart();
+            if (contentEnd > contentStart) {
+                ranges.push(toRange(contentStart, contentEnd));
+            }
+            ranges.push(toRange(current.getStart(), current.getEnd()));
+        }
+        else if (current.isType(parser.PddlTokenType.Keyword) && significantChildren.length) {
+            // keyword with its value e.g. `:precondition (and ...)`
+            ranges.push(toRange(current.getStart(), contentEnd));
+        }
+        current = current.getParent();
+    }
+
+    ranges.push(toRange(0, document.getText().length));
+    return ranges;
+}
+
+/**
+ * @returns end of the node excluding the trailing whitespace, which is nested in the keyword nodes
+ */
+function getEndWithoutWhitespace(node: parser.PddlSyntaxNode): number {
+    if ((node as parser.PddlBracketNode).isClosed) {
+        return node.getEnd();
+    }
+    const significantChildren = node.getNonWhitespaceChildren();
+    return significantChildren.length ? getEndWithoutWhitespace(significantChildren[significantChildren.length - 1]) : node.getToken().getEnd();
+}
@@ -0,0 +1,209 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import {
+    TextDocument, CancellationToken, DocumentSemanticTokensProvider, SemanticTokens, SemanticTokensBuilder, SemanticTokensLegend, EventEmitter, Event, Disposable
+} from 'vscode';
+import { PddlWorkspace, DomainInfo, ProblemInfo, FileInfo, parser } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
+
+/** Semantic token types. Except for `type` and `parameter`, they are contributed in the package.json. */
+const TOKEN_TYPES = ['type', 'parameter', 'constant', 'object', 'predicate', 'numericFunction', 'action', 'undeclared'];
+const TOKEN_MODIFIERS = ['declaration'];
+
+export const PDDL_SEMANTIC_TOKENS_LEGEND = new SemanticTokensLegend(TOKEN_TYPES, TOKEN_MODIFIERS);
+
+type TokenType = 'type' | 'parameter' | 'constant' | 'object' | 'predicate' | 'numericFunction' | 'action' | 'undeclared';
+
+/** Names that are part of the PDDL language, but are not tokenized as operators or keywords. */
+const RESERVED_NAMES = ['either', 'imply', 'preference', 'is-violated', 'minimize', 'maximize', 'total-time', 'hold-during', 'hold-after', 'sometime-after', 'scale-up', 'scale-down', 'number', 'object'];
+/** Lists, whose arguments are not domain or problem symbols. */
+const NON_SYMBOL_LISTS = ['domain', 'problem', ':domain', ':requirements', 'preference', 'is-violated'];
+const ACTION_SECTIONS = [':action', ':durative-action', ':process', ':event'];
+
+/**
+ * Colors the declared types, constants, objects, predicates, functions, parameters and actions as well as the undeclared names.
+ * Problem files are colored using the declarations of their domain file.
+ */
+export class PddlSemanticTokensProvider implements DocumentSemanticTokensProvider, Disposable {
+
+    private readonly _onDidChangeSemanticTokens = new EventEmitter<void>();
+    readonly onDidChangeSemanticTokens: Event<void> = this._onDidChangeSemanticTokens.event;
+
+    /** Problem files are colored using the domain declarations. */
+    private readonly onFileUpdated = (updatedFile: FileInfo): void => {
+        if (updatedFile.isDomain()) {
+            this._onDidChangeSemanticTokens.fire();
+        }
+    };
+
+    constructor(private readonly pddlWorkspace: CodePddlWorkspace) {
+        pddlWorkspace.pddlWorkspace.on(PddlWorkspace.UPDATED, this.onFileUpdated);
+    }
+
+    dispose(): void {
+        this.pddlWorkspace.pddlWorkspace.removeListener(PddlWorkspace.UPDATED, this.onFileUpdated);
+        this._onDidChangeSemanticTokens.dispose();
+    }
+
+    async provideDocumentSemanticTokens(document: TextDocument, token: CancellationToken): Promise<SemanticTokens | undefined> {
+        const fileInfo = await this.pddlWorkspace.upsertAndParseFile(document);
+        if (token.isCancellationRequested || !fileInfo) { return undefined; }
+
+        let classifier: SymbolClassifier;
+        if (fileInfo.isDomain()) {
+            const domainInfo = fileInfo as DomainInfo;
+            classifier = new SymbolClassifier(domainInfo, undefined);
+        }
+        else if (fileInfo.isProblem()) {
+            const problemInfo = fileInfo as ProblemInfo;
+            classifier = new SymbolClassifier(this.pddlWorkspace.pddlWorkspace.getDomainFileFor(problemInfo), problemInfo);
+        }
+        else {
+            return undefined;
+        }
+
+        const builder = new SemanticTokensBuilder();
+        const syntaxTree = (fileInfo as DomainInfo | ProblemInfo).syntaxTree;
+        classifier.classify(syntaxTree.getRootNode(), (offset, length, tokenType, declaration) => {
+            const position = document.positionAt(offset);
+            builder.push(position.line, position.character, length, TOKEN_TYPES.indexOf(tokenType), declaration ? 1 : 0);
+        });
+
+        return builder.build();
+    }
+}
+
+/** Callback receiving the classified symbols in the document order. */
+type SymbolCallback = (offset: number, length: number, tokenType: TokenType, declaration: boolean) => void;
+
+/** Classifies names in the syntax tree using the domain and problem declarations. */
+class SymbolClassifier {
+    private readonly predicates: Set<string>;
+    private readonly functions: Set<string>;
+    private readonly types: Set<string>;
+
+    /**
+     * @param domainInfo domain declarations; if undefined, undeclared names are not reported
+     * @param problemInfo problem, if the classified document is a problem file
+     */
+    constructor(private readonly domainInfo: DomainInfo | undefined, private readonly problemInfo: ProblemInfo | undefined) {
+        this.predicates = new Set((domainInfo?.getPredicates() ?? []).concat(domainInfo?.getDerived() ?? []).map(p => p.name.toLowerCase()));
+        this.functions = new Set((domainInfo?.getFunctions() ?? []).map(f => f.name.toLowerCase()));
+        this.types = new Set((domainInfo?.getTypesInclObject() ?? []).map(t => t.toLowerCase()));
+    }
+
+    classify(node: parser.PddlSyntaxNode, callback: SymbolCallback, section?: string): void {
+        const children = node.getNestedChildren();
+        const significantChildren = children.filter(child => child.isNotType(parser.PddlTokenType.Whitespace) && child.isNotType(parser.PddlTokenType.Comment));
+
+        children.forEach(child => {
+            const token = child.getToken();
+            switch (token.type) {
+                case parser.PddlTokenType.OpenBracketOperator: {
+                    const operator = getOperator(child);
+                    if (operator === 'at' && this.predicates.has('at') && !isNumber(child.getNonWhitespaceChildren()[0])) {
+                        // `at` is a common predicate name, but also a timed initial literal operator
+                        callback(token.getStart() + token.tokenText.indexOf('at'), 'at'.length, 'predicate', section === ':predicates');
+                    }
+                    this.classify(child, callback, operator.startsWith(':') ? operator : section);
+                    break;
+                }
+                case parser.PddlTokenType.OpenBracket:
+                case parser.PddlTokenType.Keyword:
+                    this.classify(child, callback, section);
+                    break;
+                case parser.PddlTokenType.Parameter:
+                    callback(token.getStart(), token.tokenText.length, 'parameter', false);
+                    break;
+                case parser.PddlTokenType.Other: {
+                    const index = significantChildren.indexOf(child);
+                    const classification = this.classifyName(child, node, significantChildren[index - 1], index === 0, section);
+                    if (classification) {
+                        callback(token.getStart(), token.tokenText.length, classification.tokenType, classification.declaration);
+                    }
+                    break;
+                }
+            }
+        });
+    }
+
+    private classifyName(nameNode: parser.PddlSyntaxNode, parent: parser.PddlSyntaxNode, previous: parser.PddlSyntaxNode | undefined,
+        isFirst: boolean, section: string | undefined): { tokenType: TokenType; declaration: boolean } | undefined {
+
+        const declaredName = nameNode.getToken().tokenText;
+        const name = declaredName.toLowerCase();
+        if (isNumber(nameNode) || name === '#t' || (RESERVED_NAMES.includes(name) && !previous?.isType(parser.PddlTokenType.Dash))) {
+            return undefined;
+        }
+
+        const parentOperator = getOperator(parent);
+        const isHead = isFirst && parent.isType(parser.PddlTokenType.OpenBracket);
+
+        if (previous?.isType(parser.PddlTokenType.Dash) || (parentOperator === 'either' && !isHead)) {
+            return { tokenType: this.isDeclaredType(name) ? 'type' : 'undeclared', declaration: false };
+        }
+        else if (NON_SYMBOL_LISTS.includes(parentOperator) || section === ':requirements') {
+            return undefined;
+        }
+        else if (parentOperator === ':types') {
+            return { tokenType: 'type', declaration: true };
+        }
+        else if (parentOperator === ':constants') {
+            return { tokenType: 'constant', declaration: true };
+        }
+        else if (parentOperator === ':objects') {
+            return { tokenType: 'object', declaration: true };
+        }
+        else if (ACTION_SECTIONS.includes(parentOperator) && isFirst) {
+            return { tokenType: 'action', declaration: true };
+        }
+        else if (isHead) {
+            const grandParent = parent.getParent();
+            const declaration = getOperator(grandParent) === section &&
+                (section === ':predicates' || section === ':functions' || (section === ':derived' && grandParent?.getNonWhitespaceChildren()[0] === parent));
+            if (section === ':functions' && declaration) {
+                return { tokenType: 'numericFunction', declaration };
+            }
+            else if (declaration || this.predicates.has(name)) {
+                return { tokenType: 'predicate', declaration };
+            }
+            else if (this.functions.has(name)) {
+                return { tokenType: 'numericFunction', declaration };
+            }
+        }
+        else if (this.domainInfo?.getConstants().getTypeOf(declaredName)) {
+            return { tokenType: 'constant', declaration: false };
+        }
+        else if (this.problemInfo?.getObjectsTypeMap().getTypeOf(declaredName)) {
+            return { tokenType: 'object', declaration: false };
+        }
+
+        return this.domainInfo ? { tokenType: 'undeclared', declaration: false } : undefined;
+    }
+
+    private isDeclaredType(name: string): boolean {
+        return !this.domainInfo || name === 'number' || this.types.has(name);
+    }
+}
+
+/**
+ * @returns lower-case operator (e.g. `:action`, `and`) of the bracket, or the first name in the bracket; empty string for other nodes
+ */
+function getOperator(node: parser.PddlSyntaxNode | undefined): string {
+    if (node?.isType(parser.PddlTokenType.OpenBracketOperator)) {
+        return node.getToken().tokenText.substr(1).trim().replace(/\s+/g, ' ').toLowerCase();
+    }
+    else if (node?.isType(parser.PddlTokenType.OpenBracket)) {
+        const firstChild = node.getNonWhitespaceChildren()[0];
+        return firstChild?.isType(parser.PddlTokenType.Other) ? firstChild.getToken().tokenText.toLowerCase() : '';
+    }
+    return '';
+}
+
+function isNumber(node: parser.PddlSyntaxNode | undefined): boolean {
+    return node !== undefined && /^[-+]?[0-9]*\.?[0-9]+$/.test(node.getToken().tokenText);
+}
@@ -0,0 +1,122 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import {
+    TextDocument, Position, CancellationToken, TypeHierarchyProvider, TypeHierarchyItem, SymbolKind, Range
+} from 'vscode';
+import { DomainInfo, ProblemInfo, FileInfo } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
+import { toRange, toUri } from '../utils';
+import { TypedName, getAllTypes, getSupertypes, getConstants, getObjects, getTypedNames } from './TypedNames';
+
+/**
+ * Navigates the domain type inheritance. Types declared using `(either ...)` inherit from all the listed types.
+ * Domain constants and problem objects are the leaf members of their types.
+ */
+export class PddlTypeHierarchyProvider implements TypeHierarchyProvider {
+
+    constructor(private readonly pddlWorkspace: CodePddlWorkspace) {
+    }
+
+    async prepareTypeHierarchy(document: TextDocument, position: Position, token: CancellationToken): Promise<TypeHierarchyItem | undefined> {
+        const fileInfo = await this.pddlWorkspace.upsertAndParseFile(document);
+        if (token.isCancellationRequested || !fileInfo) { return undefined; }
+
+        const wordRange = document.getWordRangeAtPosition(position, /\w[-\w]*/);
+        if (!wordRange) { return undefined; }
+        const word = document.getText(wordRange);
+
+        const problemInfo = fileInfo.isProblem() ? fileInfo as ProblemInfo : undefined;
+        const domainInfo = problemInfo ? this.pddlWorkspace.pddlWorkspace.getDomainFileFor(problemInfo) :
+            fileInfo.isDomain() ? fileInfo as DomainInfo : undefined;
+
+        if (domainInfo && getAllTypes(domainInfo).includes(word)) {
+            return createTypeItem(domainInfo, word);
+        }
+
+        const object = problemInfo && getObjects(problemInfo).find(o => o.name === word);
+        if (problemInfo && object) {
+            return createMemberItem(problemInfo, object, SymbolKind.Object);
+        }
+
+        const constant = domainInfo && getConstants(domainInfo).find(c => c.name === word);
+        if (domainInfo && constant) {
+            return createMemberItem(domainInfo, constant, SymbolKind.Constant);
+        }
+
+        return undefined;
+    }
+
+    provideTypeHierarchySupertypes(item: TypeHierarchyItem, token: CancellationToken): TypeHierarchyItem[] | undefined {
+        const fileInfo = this.pddlWorkspace.getFileInfoByUri<FileInfo>(item.uri);
+        const domainInfo = this.getDomainOf(fileInfo);
+        if (token.isCancellationRequested || !fileInfo || !domainInfo) { return undefined; }
+
+        let supertypes: string[];
+        if (item.kind === SymbolKind.Class) {
+            supertypes = getSupertypes(domainInfo, item.name);
+        }
+        else {
+            const members = fileInfo.isProblem() ? getObjects(fileInfo as ProblemInfo) : getConstants(domainInfo);
+            supertypes = members.find(member => member.name === item.name)?.types ?? [];
+        }
+
+        return supertypes.map(type => createTypeItem(domainInfo, type));
+    }
+
+    provideTypeHierarchySubtypes(item: TypeHierarchyItem, token: CancellationToken): TypeHierarchyItem[] | undefined {
+        if (item.kind !== SymbolKind.Class) {
+            // constants and objects are leaves of the type hierarchy
+            return [];
+        }
+
+        const domainInfo = this.getDomainOf(this.pddlWorkspace.getFileInfoByUri<FileInfo>(item.uri));
+        if (token.isCancellationRequested || !domainInfo) { return undefined; }
+
+        const subtypes = getAllTypes(domainInfo)
+            .filter(type => type !== item.name && getSupertypes(domainInfo, type).includes(item.name))
+            .map(type => createTypeItem(domainInfo, type));
+
+        const constants = getConstants(domainInfo)
+            .filter(constant => constant.types.includes(item.name))
+            .map(constant => createMemberItem(domainInfo, constant, SymbolKind.Constant));
+
+        const objects: TypeHierarchyItem[] = [];
+        this.pddlWorkspace.pddlWorkspace.getProblemFiles(domainInfo).forEach(problemInfo =>
+            getObjects(problemInfo)
+                .filter(object => object.types.includes(item.name))
+                .forEach(object => objects.push(createMemberItem(problemInfo, object, SymbolKind.Object))));
+
+        return subtypes.concat(constants, objects);
+    }
+
+    private getDomainOf(fileInfo: FileInfo | undefined): DomainInfo | undefined {
+        if (fileInfo?.isDomain()) {
+            return fileInfo as DomainInfo;
+        }
+        else if (fileInfo?.isProblem()) {
+            return this.pddlWorkspace.pddlWorkspace.getDomainFileFor(fileInfo as ProblemInfo);
+        }
+        return undefined;
+    }
+}
+
+function createTypeItem(domainInfo: DomainInfo, type: string): TypeHierarchyItem {
+    // the `object` type and types only listed in `(either ...)` are typically not declared, so the `:types` section (or the domain start) stands for them
+    const typeLocation = domainInfo.getTypeLocation(type);
+    const typeNode = getTypedNames(domainInfo.syntaxTree, ':types').find(declaration => declaration.name === type)?.node ??
+        domainInfo.syntaxTree.getDefineNode()?.getFirstOpenBracket(':types');
+    const range = typeLocation ? toRange(typeLocation) :
+        typeNode ? toRange(domainInfo.getDocumentPositionResolver().nodeToRange(typeNode)) :
+            new Range(0, 0, 0, 0);
+
+    return new TypeHierarchyItem(SymbolKind.Class, type, domainInfo.name, toUri(domainInfo.fileUri), range, range);
+}
+
+function createMemberItem(fileInfo: DomainInfo | ProblemInfo, member: TypedName, kind: SymbolKind): TypeHierarchyItem {
+    const range = toRange(fileInfo.getDocumentPositionResolver().nodeToRange(member.node));
+    return new TypeHierarchyItem(kind, member.name, member.types.join(' | '), toUri(fileInfo.fileUri), range, range);
+}
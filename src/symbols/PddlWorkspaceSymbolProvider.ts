@@ -0,0 +1,130 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { CancellationToken, SymbolInformation, SymbolKind, WorkspaceSymbolProvider, Location, Disposable } from 'vscode';
+import { PddlWorkspace, FileInfo, DomainInfo, ProblemInfo, PddlRange, parser } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
+import { toRange, toUri } from '../utils';
+
+/** Maximum number of symbols returned for one query. */
+const MAX_WORKSPACE_SYMBOLS = 1000;
+
+interface IndexEntry {
+    fileInfo: FileInfo;
+    /** Symbols of the file; `undefined` until the first query after the file was updated. */
+    symbols?: SymbolInformation[];
+}
+
+/**
+ * Finds actions, processes, events, predicates, functions, types and problem objects in all domain and problem files
+ * of the PDDL workspace. The symbols are indexed per file and re-indexed lazily, when the file is updated.
+ */
+export class PddlWorkspaceSymbolProvider implements WorkspaceSymbolProvider, Disposable {
+
+    private readonly index = new Map<string, IndexEntry>();
+
+    private readonly onFileUpdated = (fileInfo: FileInfo): void => this.invalidate(fileInfo);
+    private readonly onFileRemoving = (fileInfo: FileInfo): void => {
+        this.index.delete(fileInfo.fileUri.toString());
+    };
+
+    constructor(private readonly pddlWorkspace: CodePddlWorkspace) {
+        pddlWorkspace.pddlWorkspace.getAllFiles().forEach(fileInfo => this.invalidate(fileInfo));
+        pddlWorkspace.pddlWorkspace.on(PddlWorkspace.UPDATED, this.onFileUpdated);
+        pddlWorkspace.pddlWorkspace.on(PddlWorkspace.REMOVING, this.onFileRemoving);
+    }
+
+    dispose(): void {
+        this.pddlWorkspace.pddlWorkspace.removeListener(PddlWorkspace.UPDATED, this.onFileUpdated);
+        this.pddlWorkspace.pddlWorkspace.removeListener(PddlWorkspace.REMOVING, this.onFileRemoving);
+    }
+
+    private invalidate(fileInfo: FileInfo): void {
+        if (fileInfo.isDomain() || fileInfo.isProblem()) {
+            this.index.set(fileInfo.fileUri.toString(), { fileInfo });
+        }
+    }
+
+    provideWorkspaceSymbols(query: string, token: CancellationToken): SymbolInformation[] | undefined {
+        const matches: SymbolInformation[] = [];
+
+        for (const entry of this.index.values()) {
+            if (token.isCancellationRequested) { return undefined; }
+
+            if (!entry.symbols) {
+                entry.symbols = entry.fileInfo.isDomain() ?
+                    createDomainSymbols(entry.fileInfo as DomainInfo) :
+                    createProblemSymbols(entry.fileInfo as ProblemInfo);
+            }
+
+            for (const symbol of entry.symbols) {
+                if (matchesQuery(symbol.name, query)) {
+                    matches.push(symbol);
+                    if (matches.length >= MAX_WORKSPACE_SYMBOLS) { return matches; }
+                }
+            }
+        }
+
+        return matches;
+    }
+}
+
+function createDomainSymbols(domainInfo: DomainInfo): SymbolInformation[] {
+    const createSymbol = (name: string, kind: SymbolKind, range: PddlRange): SymbolInformation =>
+        new SymbolInformation(name, kind, domainInfo.name, new Location(toUri(domainInfo.fileUri), toRange(range)));
+
+    const actionSymbols = domainInfo.getActions()
+        .map(action => createSymbol(action.name ?? "unnamed action", SymbolKind.Module, action.getLocation()));
+
+    const processSymbols = (domainInfo.getProcesses() ?? [])
+        .map(process => createSymbol(process.name ?? "unnamed process", SymbolKind.Struct, process.getLocation()));
+
+    const eventSymbols = (domainInfo.getEvents() ?? [])
+        .map(event => createSymbol(event.name ?? "unnamed event", SymbolKind.Event, event.getLocation()));
+
+    const predicateSymbols = domainInfo.getPredicates()
+        .map(variable => createSymbol(variable.declaredName, SymbolKind.Boolean, variable.getLocation()));
+
+    const functionSymbols = domainInfo.getFunctions()
+        .map(variable => createSymbol(variable.declaredName, SymbolKind.Function, variable.getLocation()));
+
+    const typeSymbols: SymbolInformation[] = [];
+    domainInfo.getTypes().forEach(type => {
+        const typeLocation = domainInfo.getTypeLocation(type);
+        if (typeLocation) {
+            typeSymbols.push(createSymbol(type, SymbolKind.Class, typeLocation));
+        }
+    });
+
+    return actionSymbols.concat(processSymbols, eventSymbols, predicateSymbols, functionSymbols, typeSymbols);
+}
+
+function createProblemSymbols(problemInfo: ProblemInfo): SymbolInformation[] {
+    const objectsNode = problemInfo.syntaxTree.getDefineNode()?.getFirstOpenBracket(':objects');
+    if (!objectsNode) { return []; }
+
+    const positionResolver = problemInfo.getDocumentPositionResolver();
+    const fileUri = toUri(problemInfo.fileUri);
+
+    // object names, i.e. names not preceded by the `-` (which are types)
+    return objectsNode.getNonWhitespaceNonCommentChildren()
+        .filter((node, index, nodes) => node.isType(parser.PddlTokenType.Other) && !nodes[index - 1]?.isType(parser.PddlTokenType.Dash))
+        .map(node => new SymbolInformation(node.getToken().tokenText, SymbolKind.Object, problemInfo.name,
+            new Location(fileUri, toRange(positionResolver.nodeToRange(node)))));
+}
+
+/**
+ * @returns true if the query characters appear in the symbol name in the same order (case insensitive)
+ */
+function matchesQuery(name: string, query: string): boolean {
+    const lowerCaseName = name.toLowerCase();
+    let position = 0;
+    for (const character of query.toLowerCase()) {
+        position = lowerCaseName.indexOf(character, position) + 1;
+        if (position === 0) { return false; }
+    }
+    return true;
+}
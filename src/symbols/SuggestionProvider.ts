@@ -18,6 +18,8 @@ import { TestsManifest } from '../ptest/TestsManifest';
 import { basename } from 'path';
 import { PreProcessor } from 'pddl-workspace';
 import { UndeclaredVariable, VariableType } from './UndeclaredVariable';
+import { ObjectDeclarations } from './ObjectDeclarations';
+import { UNDECLARED_OBJECT, DUPLICATE_OBJECT } from '../diagnostics/ProblemDiagnostics';
 
 /**
  * Provides code actions for PDDL files.
@@ -62,9 +64,24 @@ export class SuggestionProvider implements CodeActionProvider {
 
         if (token.isCancellationRequested) { return []; }
 
+        const undeclaredObject = context.diagnostics
+            .filter(diagnostic => diagnostic.code === UNDECLARED_OBJECT)
+            .map(diagnostic => this.createUndeclaredObjectAction(document, diagnostic, fileInfo))
+            .filter(action => !!action)
+            .map(action => action!);
+
+        const duplicateObject = context.diagnostics
+            .filter(diagnostic => diagnostic.code === DUPLICATE_OBJECT)
+            .map(diagnostic => this.createDuplicateObjectAction(document, diagnostic, fileInfo))
+            .filter(action => !!action)
+            .map(action => action!);
+
+        if (token.isCancellationRequested) { return []; }
+
         const problemSnippets = this.createProblemActions(fileInfo, document, range, context);
 
-        return utils.Util.flatMap(insertSnippetCodeActions).concat(missingRequirement).concat(undeclaredVariable).concat(problemSnippets);
+        return utils.Util.flatMap(insertSnippetCodeActions).concat(missingRequirement).concat(undeclaredVariable)
+            .concat(undeclaredObject).concat(duplicateObject).concat(problemSnippets);
     }
 
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -174,4 +191,33 @@ export class SuggestionProvider implements CodeActionProvider {
         action.isPreferred = true;
         return action;
     }
+
+    private createUndeclaredObjectAction(document: TextDocument, diagnostic: Diagnostic, fileInfo: FileInfo): CodeAction | undefined {
+
+        const objectDeclarations = new ObjectDeclarations(fileInfo);
+
+        const undeclaredObject = objectDeclarations.getUndeclaredObject(diagnostic.message);
+        if (!undeclaredObject) { return undefined; }
+        const { objectName, type } = undeclaredObject;
+
+        const title = `Declare object ${objectName} - ${type}`;
+        const action = new CodeAction(title, CodeActionKind.QuickFix);
+        action.edit = objectDeclarations.createDeclarationEdit(document, objectName, type);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
+
+    private createDuplicateObjectAction(document: TextDocument, diagnostic: Diagnostic, fileInfo: FileInfo): CodeAction | undefined {
+
+        const edit = new ObjectDeclarations(fileInfo).createRemovalEdit(document, diagnostic);
+        if (!edit) { return undefined; }
+
+        const title = `Remove duplicate object ${document.getText(diagnostic.range)}`;
+        const action = new CodeAction(title, CodeActionKind.QuickFix);
+        action.edit = edit;
+        action.diagnostics = [diagnostic];
+        action.isPreferred = true;
+        return action;
+    }
 }
\ No newline at end of file
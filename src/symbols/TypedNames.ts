@@ -0,0 +1,147 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { DomainInfo, ProblemInfo, Variable, parser } from 'pddl-workspace';
+
+export const OBJECT = 'object';
+export const NUMBER = 'number';
+
+/** Name declared in a typed list (e.g. `:types`, `:constants` or `:objects`) together with its type(s). */
+export interface TypedName {
+    name: string;
+    node: parser.PddlSyntaxNode;
+    /** Declared type, or the types listed in the `(either ...)` type. */
+    types: string[];
+    /** Type node shared by all names of the same declaration e.g. `a b - t`. Undefined for names without a declared type. */
+    typeNode?: parser.PddlSyntaxNode;
+}
+
+/**
+ * The type inheritance graph does not capture types declared as `(either ...)`, so those are read from the `:types` section.
+ * @returns types in the inheritance graph, plus the `(either ...)` types and the types listed in them
+ */
+export function getAllTypes(domainInfo: DomainInfo): string[] {
+    const typeDeclarations = getTypedNames(domainInfo.syntaxTree, ':types');
+    const types = domainInfo.getTypesInclObject().concat(
+        typeDeclarations.map(declaration => declaration.name),
+        ...typeDeclarations.map(declaration => declaration.types));
+    return types.filter((type, index) => types.indexOf(type) === index);
+}
+
+/**
+ * @returns direct supertypes of the given type
+ */
+export function getSupertypes(domainInfo: DomainInfo, type: string): string[] {
+    if (type === OBJECT) { return []; }
+
+    const eitherDeclaration = getTypedNames(domainInfo.syntaxTree, ':types')
+        .find(declaration => declaration.name === type && declaration.types.length > 1);
+
+    const supertypes = eitherDeclaration?.types ?? domainInfo.getTypeInheritance().getVerticesWithEdgesFrom(type);
+    return supertypes?.length ? supertypes : [OBJECT];
+}
+
+/**
+ * @returns true if the type is the same as the supertype, or inherits from it (directly or indirectly)
+ */
+export function isSubtypeOf(domainInfo: DomainInfo, type: string, supertype: string): boolean {
+    if (supertype.toLowerCase() === OBJECT) { return true; }
+
+    const visited: string[] = [];
+    const pending = [type];
+    while (pending.length) {
+        const current = pending.pop() ?? OBJECT;
+        if (current.toLowerCase() === supertype.toLowerCase()) { return true; }
+
+        if (!visited.includes(current.toLowerCase())) {
+            visited.push(current.toLowerCase());
+            pending.push(...getSupertypes(domainInfo, current));
+        }
+    }
+    return false;
+}
+
+export function getConstants(domainInfo: DomainInfo): TypedName[] {
+    return getTypedNames(domainInfo.syntaxTree, ':constants');
+}
+
+export function getObjects(problemInfo: ProblemInfo): TypedName[] {
+    return getTypedNames(problemInfo.syntaxTree, ':objects');
+}
+
+/** Parsed parameters by the variable. Variables are re-created, when the domain is re-parsed. */
+const parametersCache = new WeakMap<Variable, TypedName[]>();
+
+/**
+ * The `Variable.parameters` omit the untyped parameters and the `(either ...)` parameters, so the declaration is parsed again.
+ * @returns parameters of the predicate or function declaration e.g. `?t` of type `truck`
+ */
+export function getParameters(variable: Variable): TypedName[] {
+    let parameters = parametersCache.get(variable);
+    if (!parameters) {
+        const declaration = new parser.PddlSyntaxTreeBuilder(`(${variable.declaredName})`).getTree().getRootNode()
+            .getNonWhitespaceNonCommentChildren()[0];
+        // the name of the predicate `at` is part of the operator token, otherwise it is the first child
+        const nameCount = declaration?.isType(parser.PddlTokenType.OpenBracketOperator) ? 0 : 1;
+        parameters = declaration ? parseTypedList(declaration.getNonWhitespaceNonCommentChildren().slice(nameCount), OBJECT) : [];
+        parametersCache.set(variable, parameters);
+    }
+    return parameters;
+}
+
+/**
+ * Parses the typed list section e.g. `(:objects a b - t1 c - (either t2 t3) d)` or `(:functions (f1) (f2 ?a) - number)`.
+ * Names without a declared type are of the default type (`object`, or `number` in the `:functions` section).
+ */
+export function getTypedNames(syntaxTree: parser.PddlSyntaxTree, sectionName: string): TypedName[] {
+    const sectionNode = syntaxTree.getDefineNode()?.getFirstOpenBracket(sectionName);
+    if (!sectionNode) { return []; }
+
+    return parseTypedList(sectionNode.getNonWhitespaceNonCommentChildren(), sectionName === ':functions' ? NUMBER : OBJECT);
+}
+
+function parseTypedList(nodes: parser.PddlSyntaxNode[], defaultType: string): TypedName[] {
+    const typedNames: TypedName[] = [];
+    let untypedNames: parser.PddlSyntaxNode[] = [];
+    let expectingType = false;
+
+    const assignType = (types: string[], typeNode?: parser.PddlSyntaxNode): void => {
+        untypedNames.forEach(node => typedNames.push({ name: getName(node), node, types, typeNode }));
+        untypedNames = [];
+        expectingType = false;
+    };
+
+    nodes.forEach(child => {
+        if (child.isType(parser.PddlTokenType.Dash)) {
+            expectingType = true;
+        }
+        else if (expectingType && child.isType(parser.PddlTokenType.Other)) {
+            assignType([child.getToken().tokenText], child);
+        }
+        else if (expectingType && child.isType(parser.PddlTokenType.OpenBracket)) {
+            // (either t1 t2)
+            assignType(child.getNonWhitespaceNonCommentChildren()
+                .filter(typeNode => typeNode.isType(parser.PddlTokenType.Other))
+                .map(typeNode => typeNode.getToken().tokenText)
+                .filter(typeName => typeName.toLowerCase() !== 'either'), child);
+        }
+        else if (child.isType(parser.PddlTokenType.Other) || child.isType(parser.PddlTokenType.Parameter) || child.isType(parser.PddlTokenType.OpenBracket)) {
+            untypedNames.push(child);
+        }
+    });
+
+    assignType([defaultType]);
+    return typedNames;
+}
+
+/**
+ * @returns name of the declared object or parameter, or of the function e.g. `(fuel ?t - truck)`
+ */
+function getName(node: parser.PddlSyntaxNode): string {
+    return node.isType(parser.PddlTokenType.OpenBracket) ?
+        node.getNonWhitespaceNonCommentChildren()[0]?.getToken().tokenText ?? '' :
+        node.getToken().tokenText;
+}
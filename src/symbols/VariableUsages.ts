@@ -0,0 +1,172 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { DomainInfo, ProblemInfo, Variable, Action, PddlDomainConstruct, ModelHierarchy, VariableReferenceKind, parser } from 'pddl-workspace';
+
+export type VariableUsageKind = 'action' | 'durative-action' | 'process' | 'event' | 'problem';
+
+/** Access to a predicate or function by one action, process, event or problem. */
+export interface VariableUsage {
+    /** Domain file (for actions, processes and events) or problem file. */
+    fileInfo: DomainInfo | ProblemInfo;
+    /** Name of the action, process, event or problem. */
+    name: string;
+    kind: VariableUsageKind;
+    references: VariableUsageReference[];
+}
+
+export interface VariableUsageReference {
+    /** Bracket node referencing the variable e.g. `(at ?t ?l)`. */
+    node: parser.PddlSyntaxNode;
+    /** Part of the action or problem e.g. `at start condition`, `effect`, `init` or `goal`. */
+    part: string;
+    /** Condition, effect or initial value, where the variable is referenced. */
+    code: string;
+}
+
+export interface VariableUsages {
+    /** Actions, processes and events that modify the variable in their effects and problems that initialize it. */
+    writers: VariableUsage[];
+    /** Actions, processes and events that read the variable and problems that refer to it in goals, constraints or metric. */
+    readers: VariableUsage[];
+}
+
+/** Problem file sections, where the variable is either initialized (written), or read. */
+const PROBLEM_SECTIONS: { section: string; part: string; isWrite: boolean }[] = [
+    { section: ':init', part: 'init', isWrite: true },
+    { section: ':goal', part: 'goal', isWrite: false },
+    { section: ':constraints', part: 'constraints', isWrite: false },
+    { section: ':metric', part: 'metric', isWrite: false },
+];
+
+/**
+ * Finds actions, processes and events that read or write the given variable and the problem files that initialize it or refer to it.
+ * @param domainInfo domain declaring the variable
+ * @param problemFiles problem files associated with the domain
+ * @param variable predicate or function
+ */
+export function findVariableUsages(domainInfo: DomainInfo, problemFiles: ProblemInfo[], variable: Variable): VariableUsages {
+    const writers = new Map<PddlDomainConstruct | ProblemInfo, VariableUsage>();
+    const readers = new Map<PddlDomainConstruct | ProblemInfo, VariableUsage>();
+
+    const addReference = (usages: Map<PddlDomainConstruct | ProblemInfo, VariableUsage>, owner: PddlDomainConstruct | ProblemInfo,
+        createUsage: () => VariableUsage, reference: VariableUsageReference): void => {
+        let usage = usages.get(owner);
+        if (!usage) {
+            usages.set(owner, usage = createUsage());
+        }
+        usage.references.push(reference);
+    };
+
+    const modelHierarchy = new ModelHierarchy(domainInfo);
+    findReferenceNodes(domainInfo.syntaxTree.getDefineNode(), variable).forEach(node => {
+        const referenceInfo = modelHierarchy.getReferenceInfo(variable, node.getStart() + 1);
+        if (referenceInfo.kind === VariableReferenceKind.UNRECOGNIZED) { return; }
+
+        const structure = referenceInfo.structure;
+        const createUsage = (): VariableUsage => ({
+            fileInfo: domainInfo, name: structure.getNameOrEmpty(), kind: getStructureKind(domainInfo, structure), references: []
+        });
+        const reference: VariableUsageReference = {
+            node,
+            part: `${referenceInfo.getTimeQualifier()} ${referenceInfo.part}`.trim(),
+            code: referenceInfo.relevantCode ?? node.getText()
+        };
+
+        const kind = getReferenceKind(referenceInfo.kind, referenceInfo.part, node);
+        if (kind !== VariableReferenceKind.READ) {
+            addReference(writers, structure, createUsage, reference);
+        }
+        if (kind !== VariableReferenceKind.WRITE) {
+            addReference(readers, structure, createUsage, reference);
+        }
+    });
+
+    problemFiles.forEach(problemInfo => {
+        const createUsage = (): VariableUsage => ({ fileInfo: problemInfo, name: problemInfo.name, kind: 'problem', references: [] });
+
+        PROBLEM_SECTIONS.forEach(({ section, part, isWrite }) => {
+            const sectionNode = problemInfo.syntaxTree.getDefineNode()?.getFirstOpenBracket(section);
+            if (!sectionNode) { return; }
+
+            findReferenceNodes(sectionNode, variable).forEach(node => {
+                // the initial value e.g. `(= (f) 1)` or `(at 10 (p))` rather than just the `(f)` or `(p)`
+                const code = isWrite ? getTopLevelElement(node, sectionNode).getText() : node.getText();
+                addReference(isWrite ? writers : readers, problemInfo, createUsage, { node, part, code });
+            });
+        });
+    });
+
+    return { writers: [...writers.values()], readers: [...readers.values()] };
+}
+
+/**
+ * @returns predicate, function or derived predicate/function with the given name
+ */
+export function findVariable(domainInfo: DomainInfo, name: string): Variable | undefined {
+    return domainInfo.getPredicates().concat(domainInfo.getFunctions(), domainInfo.getDerived())
+        .find(variable => variable.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * @returns brackets nodes, whose first name is the variable name e.g. `(truck-at ?t ?l)`
+ */
+function findReferenceNodes(scope: parser.PddlSyntaxNode | undefined, variable: Variable): parser.PddlSyntaxNode[] {
+    const nodes: parser.PddlSyntaxNode[] = [];
+    scope?.getChildrenRecursively(node => getHeadName(node) === variable.name.toLowerCase(), node => nodes.push(node));
+    return nodes;
+}
+
+/**
+ * @returns lower-case name of the predicate or function referenced by the bracket node;
+ * the `(at` of predicates named `at` is tokenized as an operator, unless it is a timed initial literal e.g. `(at 10 (p))`
+ */
+function getHeadName(node: parser.PddlSyntaxNode): string | undefined {
+    if (node.isType(parser.PddlTokenType.OpenBracketOperator)) {
+        const firstArgument = node.getNonWhitespaceNonCommentChildren()[0];
+        if (firstArgument?.isType(parser.PddlTokenType.Other) && !isNaN(Number(firstArgument.getToken().tokenText))) { return undefined; }
+        return node.getToken().tokenText.substring(1).trim().replace(/\s+/g, ' ').toLowerCase();
+    }
+    else if (node.isType(parser.PddlTokenType.OpenBracket)) {
+        const nameNode = node.getNonWhitespaceNonCommentChildren()[0];
+        return nameNode?.isType(parser.PddlTokenType.Other) ? nameNode.getToken().tokenText.toLowerCase() : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * The effect parser does not recognize predicates named `at`, because their `(at` is tokenized as an operator,
+ * so they are classified as written in effects, unless they are part of the `when` condition.
+ */
+function getReferenceKind(kind: VariableReferenceKind, part: string, node: parser.PddlSyntaxNode): VariableReferenceKind {
+    if (!node.isType(parser.PddlTokenType.OpenBracketOperator) || part !== 'effect') {
+        return kind;
+    }
+    const whenNode = node.findAncestor(parser.PddlTokenType.OpenBracketOperator, /^\(\s*when$/i);
+    const conditionNode = whenNode?.getNonWhitespaceNonCommentChildren()[0];
+    const isWhenCondition = conditionNode !== undefined && conditionNode.getStart() <= node.getStart() && node.getEnd() <= conditionNode.getEnd();
+    return isWhenCondition ? VariableReferenceKind.READ : VariableReferenceKind.WRITE;
+}
+
+function getTopLevelElement(node: parser.PddlSyntaxNode, sectionNode: parser.PddlSyntaxNode): parser.PddlSyntaxNode {
+    let element = node;
+    let parent = node.getParent();
+    while (parent && parent !== sectionNode) {
+        element = parent;
+        parent = parent.getParent();
+    }
+    return element;
+}
+
+function getStructureKind(domainInfo: DomainInfo, structure: PddlDomainConstruct): VariableUsageKind {
+    if (domainInfo.getProcesses()?.some(process => process === structure)) {
+        return 'process';
+    }
+    else if (domainInfo.getEvents()?.some(event => event === structure)) {
+        return 'event';
+    }
+    return (structure as Action).isDurative() ? 'durative-action' : 'action';
+}
@@ -0,0 +1,168 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import {
+    ExtensionContext, TreeDataProvider, EventEmitter, Event, TreeItem, TreeItemCollapsibleState, TreeView, ThemeIcon, Command, Uri, window, commands, Disposable
+} from 'vscode';
+import { instrumentOperationAsVsCodeCommand } from 'vscode-extension-telemetry-wrapper';
+import { PddlWorkspace, FileInfo, DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../workspace/CodePddlWorkspace';
+import { SymbolUtils, VariableInfo } from './SymbolUtils';
+import { findVariable, findVariableUsages, VariableUsage, VariableUsageReference, VariableUsageKind } from './VariableUsages';
+import { isPddl } from '../workspace/workspaceUtils';
+import { showError, toRange, toUri } from '../utils';
+
+const COMMAND_SHOW_VARIABLE_USAGES = 'pddl.showVariableUsages';
+
+/** Predicate or function displayed in the view. */
+interface DisplayedVariable {
+    domainUri: Uri;
+    name: string;
+}
+
+type VariableUsagesNode =
+    { kind: 'group'; label: string; usages: VariableUsage[] } |
+    { kind: 'usage'; usage: VariableUsage } |
+    { kind: 'reference'; usage: VariableUsage; reference: VariableUsageReference };
+
+/**
+ * Tree view listing the actions, processes, events and problems that write (modify or initialize) and read the selected predicate or function.
+ */
+export class VariableUsagesView implements Disposable {
+
+    public static readonly VIEW = 'pddl.variableUsages';
+
+    private readonly dataProvider: VariableUsagesDataProvider;
+    private readonly treeView: TreeView<VariableUsagesNode>;
+    private readonly symbolUtils: SymbolUtils;
+
+    private readonly onFileUpdated = (fileInfo: FileInfo): void => {
+        if (fileInfo.isDomain() || fileInfo.isProblem()) {
+            this.dataProvider.refresh();
+        }
+    };
+
+    constructor(context: ExtensionContext, private readonly pddlWorkspace: CodePddlWorkspace) {
+        this.symbolUtils = new SymbolUtils(pddlWorkspace);
+        this.dataProvider = new VariableUsagesDataProvider(pddlWorkspace);
+        this.treeView = window.createTreeView(VariableUsagesView.VIEW, { treeDataProvider: this.dataProvider, showCollapseAll: true });
+        context.subscriptions.push(this.treeView);
+
+        context.subscriptions.push(instrumentOperationAsVsCodeCommand(COMMAND_SHOW_VARIABLE_USAGES,
+            () => this.showActiveEditorVariable().catch(showError)));
+
+        pddlWorkspace.pddlWorkspace.on(PddlWorkspace.UPDATED, this.onFileUpdated);
+    }
+
+    dispose(): void {
+        this.pddlWorkspace.pddlWorkspace.removeListener(PddlWorkspace.UPDATED, this.onFileUpdated);
+    }
+
+    private async showActiveEditorVariable(): Promise<void> {
+        const editor = window.activeTextEditor;
+        if (!editor || !isPddl(editor.document)) {
+            window.showInformationMessage('Open a PDDL domain or problem file and place the cursor on a predicate or function name.');
+            return;
+        }
+
+        await this.symbolUtils.assertFileParsed(editor.document);
+        const symbolInfo = this.symbolUtils.getSymbolInfo(editor.document, editor.selection.active);
+        if (!(symbolInfo instanceof VariableInfo)) {
+            window.showInformationMessage('Place the cursor on a predicate or function name.');
+            return;
+        }
+
+        this.dataProvider.show({ domainUri: symbolInfo.location.uri, name: symbolInfo.variable.name });
+        this.treeView.description = symbolInfo.variable.declaredName;
+        await commands.executeCommand(`${VariableUsagesView.VIEW}.focus`);
+    }
+}
+
+class VariableUsagesDataProvider implements TreeDataProvider<VariableUsagesNode> {
+
+    private _onDidChangeTreeData = new EventEmitter<VariableUsagesNode | undefined>();
+    readonly onDidChangeTreeData: Event<VariableUsagesNode | undefined> = this._onDidChangeTreeData.event;
+
+    private variable: DisplayedVariable | undefined;
+
+    constructor(private readonly pddlWorkspace: CodePddlWorkspace) {
+    }
+
+    show(variable: DisplayedVariable): void {
+        this.variable = variable;
+        this.refresh();
+    }
+
+    refresh(): void {
+        if (this.variable) {
+            this._onDidChangeTreeData.fire(undefined);
+        }
+    }
+
+    getChildren(element?: VariableUsagesNode): VariableUsagesNode[] {
+        if (!element) {
+            const domainInfo = this.variable && this.pddlWorkspace.getFileInfoByUri<DomainInfo>(this.variable.domainUri);
+            const variable = this.variable && domainInfo && findVariable(domainInfo, this.variable.name);
+            if (!domainInfo || !variable) { return []; }
+
+            const usages = findVariableUsages(domainInfo, this.pddlWorkspace.pddlWorkspace.getProblemFiles(domainInfo), variable);
+            return [
+                { kind: 'group', label: 'Written by', usages: usages.writers },
+                { kind: 'group', label: 'Read by', usages: usages.readers }
+            ];
+        }
+        else if (element.kind === 'group') {
+            return element.usages.map(usage => ({ kind: 'usage', usage }));
+        }
+        else if (element.kind === 'usage') {
+            return element.usage.references.map(reference => ({ kind: 'reference', usage: element.usage, reference }));
+        }
+        return [];
+    }
+
+    getTreeItem(element: VariableUsagesNode): TreeItem {
+        switch (element.kind) {
+            case 'group':
+                return {
+                    label: element.label,
+                    description: `${element.usages.length}`,
+                    collapsibleState: element.usages.length ? TreeItemCollapsibleState.Expanded : TreeItemCollapsibleState.None
+                };
+            case 'usage':
+                return {
+                    label: element.usage.name,
+                    description: element.usage.kind.replace('-', ' '),
+                    iconPath: new ThemeIcon(USAGE_ICONS[element.usage.kind]),
+                    collapsibleState: TreeItemCollapsibleState.Collapsed,
+                    resourceUri: toUri(element.usage.fileInfo.fileUri),
+                    tooltip: element.usage.fileInfo.fileUri.fsPath
+                };
+            case 'reference':
+                return {
+                    label: element.reference.code.replace(/\s+/g, ' '),
+                    description: element.reference.part,
+                    command: createRevealCommand(element.usage.fileInfo, element.reference)
+                };
+        }
+    }
+}
+
+const USAGE_ICONS: { [kind in VariableUsageKind]: string } = {
+    'action': 'symbol-module',
+    'durative-action': 'symbol-module',
+    'process': 'symbol-struct',
+    'event': 'symbol-event',
+    'problem': 'file'
+};
+
+function createRevealCommand(fileInfo: DomainInfo | ProblemInfo, reference: VariableUsageReference): Command {
+    const range = toRange(fileInfo.getDocumentPositionResolver().nodeToRange(reference.node));
+    return {
+        title: 'Show reference',
+        command: 'vscode.open',
+        arguments: [toUri(fileInfo.fileUri), { selection: range }]
+    };
+}
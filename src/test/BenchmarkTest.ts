@@ -0,0 +1,82 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { Benchmark } from '../ptest/Benchmark';
+
+describe('Benchmark', () => {
+
+    function createBenchmark(): Benchmark {
+        const benchmark = new Benchmark(['A', 'B']);
+        benchmark.add({ planner: 'A', manifest: 'm.ptest.json', testCase: 'p1', outcome: 'SUCCESS', solved: true, makespan: 10, cost: 20, elapsedTimeMs: 1000 });
+        benchmark.add({ planner: 'A', manifest: 'm.ptest.json', testCase: 'p2', outcome: 'TIMEOUT', solved: false, elapsedTimeMs: 5000, error: 'Timeout, "really"' });
+        benchmark.add({ planner: 'B', manifest: 'm.ptest.json', testCase: 'p1', outcome: 'SUCCESS', solved: true, makespan: 8, cost: 10, statesEvaluated: 42, elapsedTimeMs: 500 });
+        benchmark.add({ planner: 'B', manifest: 'm.ptest.json', testCase: 'p2', outcome: 'SUCCESS', solved: true, makespan: 3, elapsedTimeMs: 1500 });
+        return benchmark;
+    }
+
+    describe('#getIpcScore', () => {
+        it('scores relative to the best plan', () => {
+            // given
+            const benchmark = createBenchmark();
+            const p1 = { manifest: 'm.ptest.json', testCase: 'p1' };
+            const p2 = { manifest: 'm.ptest.json', testCase: 'p2' };
+
+            // when
+
+            // then
+            expect(benchmark.getIpcScore(p1, 'A')).to.equal(0.5);
+            expect(benchmark.getIpcScore(p1, 'B')).to.equal(1);
+            expect(benchmark.getIpcScore(p2, 'A')).to.equal(0, 'unsolved');
+            expect(benchmark.getIpcScore(p2, 'B')).to.equal(1, 'makespan used, where cost is not available');
+        });
+
+        it('compares all planners by the same quality measure', () => {
+            // given planner B did not report the cost
+            const benchmark = new Benchmark(['A', 'B']);
+            benchmark.add({ planner: 'A', manifest: 'm.ptest.json', testCase: 'p1', outcome: 'SUCCESS', solved: true, makespan: 10, cost: 2 });
+            benchmark.add({ planner: 'B', manifest: 'm.ptest.json', testCase: 'p1', outcome: 'SUCCESS', solved: true, makespan: 5 });
+            const p1 = { manifest: 'm.ptest.json', testCase: 'p1' };
+
+            // when
+
+            // then makespan is compared, rather than cost of A to the makespan of B
+            expect(benchmark.getIpcScore(p1, 'A')).to.equal(0.5);
+            expect(benchmark.getIpcScore(p1, 'B')).to.equal(1);
+        });
+    });
+
+    describe('#getSummary', () => {
+        it('sums coverage, score and time of solved problems', () => {
+            // given
+            const benchmark = createBenchmark();
+
+            // when
+            const summaryA = benchmark.getSummary('A');
+            const summaryB = benchmark.getSummary('B');
+
+            // then
+            expect(summaryA).to.deep.equal({ planner: 'A', coverage: 1, ipcScore: 0.5, totalTimeMs: 1000 });
+            expect(summaryB).to.deep.equal({ planner: 'B', coverage: 2, ipcScore: 2, totalTimeMs: 2000 });
+        });
+    });
+
+    describe('#toCsv', () => {
+        it('outputs one line per problem and planner', () => {
+            // given
+            const benchmark = createBenchmark();
+
+            // when
+            const lines = benchmark.toCsv().trim().split('\n');
+
+            // then
+            expect(lines).to.have.length(5);
+            expect(lines[0]).to.equal('manifest,testCase,planner,outcome,solved,makespan,cost,statesEvaluated,elapsedTimeMs,ipcScore,error');
+            expect(lines[1]).to.equal('m.ptest.json,p1,A,SUCCESS,true,10,20,,1000,0.500,');
+            expect(lines[3]).to.equal('m.ptest.json,p2,A,TIMEOUT,false,,,,5000,0,"Timeout, ""really"""');
+        });
+    });
+});
@@ -0,0 +1,117 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { CatalogIndex, countObjects, parseQuery, parseRequirements } from '../catalog/CatalogIndex';
+import { PlanningDomains } from '../catalog/PlanningDomains';
+import { CatalogFetcher } from '../catalog/CatalogFetcher';
+
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+describe('CatalogIndex', () => {
+
+    const url = 'http://catalog/';
+
+    /** In-memory catalog with one IPC collection and two domains. */
+    const responses = new Map<string, any>([
+        [url + 'collections', [{ "collection_id": 1, "collection_name": 'IPC-2002', "description": '', "domain_set": '[10, 20]', "ipc": '2002' }]],
+        [url + 'domains/1', [{ "domain_id": 10, "domain_name": 'depots', "description": '' }, { "domain_id": 20, "domain_name": 'rovers-time', "description": '' }]],
+        [url + 'problems/10', [{ "problem_id": 100, "problem": 'p01.pddl', "domain_url": 'depots/domain.pddl', "problem_url": 'depots/p01.pddl' }]],
+        [url + 'problems/20', [
+            { "problem_id": 200, "problem": 'p01.pddl', "domain_url": 'rovers/domain.pddl', "problem_url": 'rovers/p01.pddl' },
+            { "problem_id": 201, "problem": 'p02.pddl', "domain_url": 'rovers/domain.pddl', "problem_url": 'rovers/p02.pddl' }
+        ]],
+        ['depots/domain.pddl', '(define (domain depots) (:requirements :typing))'],
+        ['rovers/domain.pddl', '(define (domain rovers) (:requirements :typing :durative-actions :numeric-fluents))'],
+        ['rovers/p01.pddl', '(define (problem p01) (:objects r1 r2 - rover w1 - waypoint))'],
+        ['rovers/p02.pddl', '(define (problem p02) (:objects r1 r2 r3 r4 - rover ; comment )\n w1 w2 - waypoint))']
+    ]);
+
+    const fetcher: CatalogFetcher = {
+        getJson: async (jsonUrl: string): Promise<any> => ({ error: false, result: responses.get(jsonUrl) }),
+        getText: async (textUrl: string): Promise<string> => {
+            if (!responses.has(textUrl)) { throw new Error('Not found: ' + textUrl); }
+            return responses.get(textUrl);
+        }
+    };
+
+    async function buildIndex(): Promise<CatalogIndex> {
+        const planningDomains = new PlanningDomains(fetcher, url);
+        return CatalogIndex.build(planningDomains, problem => fetcher.getText(problem.problem_url));
+    }
+
+    describe('#build', () => {
+        it('indexes all problems with metadata', async () => {
+            // given
+
+            // when
+            const index = await buildIndex();
+
+            // then
+            expect(index.items).to.have.length(3);
+            const depots = index.items.find(item => item.domain.label === 'depots');
+            expect(depots?.ipc).to.equal('2002');
+            expect(depots?.requirements).to.deep.equal([':typing']);
+            expect(depots?.objectCount).to.be.undefined;
+        });
+    });
+
+    describe('#search', () => {
+        it('filters by name, requirements and size', async () => {
+            // given
+            const index = await buildIndex();
+
+            // when
+            const rovers = index.search('rovers');
+            const durative = index.search(':durative-actions ipc:2002');
+            const small = index.search(':typing size<5');
+
+            // then
+            expect(rovers.map(item => item.problem.id)).to.deep.equal([200, 201]);
+            expect(durative.map(item => item.problem.id)).to.deep.equal([200, 201]);
+            expect(small.map(item => item.problem.id)).to.deep.equal([200]);
+            expect(index.search('ipc:2008')).to.have.length(0);
+        });
+
+        it('counts problems excluded from size search, because their size is not known', async () => {
+            // given depots problem file is not available
+            const index = await buildIndex();
+
+            // when
+            const unknownSizeCount = index.countUnknownSize(':typing size<5');
+
+            // then
+            expect(unknownSizeCount).to.equal(1);
+            expect(index.countUnknownSize('rovers size<5')).to.equal(0);
+            expect(index.countUnknownSize(':typing')).to.equal(0, 'no size filter');
+        });
+    });
+
+    describe('#parseQuery', () => {
+        it('parses words, requirements, IPC year and size', () => {
+            // given
+            const query = 'Rovers :Numeric-Fluents ipc-2002 size>=3 size<10';
+
+            // when
+            const parsed = parseQuery(query);
+
+            // then
+            expect(parsed).to.deep.equal({ words: ['rovers'], requirements: [':numeric-fluents'], ipc: '2002', minSize: 3, maxSize: 9 });
+        });
+    });
+
+    describe('#parseRequirements', () => {
+        it('returns no requirements when not declared', () => {
+            expect(parseRequirements('(define (domain d) (:predicates (p)))')).to.deep.equal([]);
+        });
+    });
+
+    describe('#countObjects', () => {
+        it('skips types and comments', () => {
+            expect(countObjects('(define (problem p) (:objects a b - t1 ; c d\n e))')).to.equal(3);
+        });
+    });
+});
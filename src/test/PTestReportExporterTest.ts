@@ -0,0 +1,72 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { ExportedTestResult, toJson, toJUnitXml } from '../ptest/PTestReportExporter';
+
+describe('PTestReportExporter', () => {
+
+    const timestamp = new Date(Date.UTC(2020, 0, 1));
+
+    const results: ExportedTestResult[] = [
+        { label: 'case 1', manifest: 'domain.ptest.json', outcome: 'SUCCESS', elapsedTimeMs: 1500, planner: 'planner <A>' },
+        { label: 'case 2', manifest: 'domain.ptest.json', outcome: 'FAILED', elapsedTimeMs: 500, error: 'No plan found.' },
+        { label: 'case 3', manifest: 'other.ptest.json', outcome: 'SKIPPED', error: 'Killed by the user.' }
+    ];
+
+    describe('#toJUnitXml', () => {
+        it('creates one testsuite per manifest', () => {
+            // given
+
+            // when
+            const xml = toJUnitXml(results, timestamp);
+
+            // then
+            expect(xml.match(/<testsuite /g)).to.have.length(2);
+            expect(xml).to.contain('<testsuites name="PDDL tests" tests="3" failures="1" errors="0" skipped="1" time="2.000">');
+        });
+
+        it('outputs failure, skipped and planner', () => {
+            // given
+
+            // when
+            const xml = toJUnitXml(results, timestamp);
+
+            // then
+            expect(xml).to.contain('<testcase name="case 1" classname="domain.ptest.json" time="1.500">');
+            expect(xml).to.contain('<property name="planner" value="planner &lt;A&gt;"/>');
+            expect(xml).to.contain('<failure message="No plan found."/>');
+            expect(xml).to.contain('<skipped message="Killed by the user."/>');
+        });
+
+        it('reports timeout as failure', () => {
+            // given
+            const timedOut: ExportedTestResult[] = [
+                { label: 'case 4', manifest: 'domain.ptest.json', outcome: 'TIMEOUT', elapsedTimeMs: 1000, error: 'Planner did not finish within 1000ms.' }
+            ];
+
+            // when
+            const xml = toJUnitXml(timedOut, timestamp);
+
+            // then
+            expect(xml).to.contain('<failure message="Planner did not finish within 1000ms."/>');
+            expect(xml).to.contain('failures="1" errors="0" skipped="0"');
+        });
+    });
+
+    describe('#toJson', () => {
+        it('round-trips the results', () => {
+            // given
+
+            // when
+            const json = JSON.parse(toJson(results, timestamp));
+
+            // then
+            expect(json.timestamp).to.equal('2020-01-01T00:00:00.000Z');
+            expect(json.tests).to.deep.equal(results);
+        });
+    });
+});
@@ -0,0 +1,120 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { PddlFormatter, PddlFormatterOptions, FormattedRange } from '../formatting/PddlFormatter';
+
+describe('PddlFormatter', () => {
+
+    const options: PddlFormatterOptions = {
+        indent: '    ',
+        tabSize: 4,
+        maxLineWidth: 100,
+        oneAtomPerLineInInit: true,
+        keywordCase: 'preserve'
+    };
+
+    function apply(text: string, edits: FormattedRange[]): string {
+        return edits.reduceRight((result, edit) => result.substring(0, edit.start) + edit.newText + result.substring(edit.end), text);
+    }
+
+    describe('#format', () => {
+        it('indents sections and breaks the action', () => {
+            // given
+            const text = `(define (domain d) (:predicates (p ?x)) (:action a :parameters (?x) :precondition (p ?x) :effect (and (q ?x) (not (p ?x)))))`;
+
+            // when
+            const formattedText = new PddlFormatter(options).format(text);
+
+            // then
+            expect(formattedText).to.equal(`(define (domain d)
+    (:predicates
+        (p ?x)
+    )
+    (:action a
+        :parameters (?x)
+        :precondition (p ?x)
+        :effect (and
+            (q ?x)
+            (not (p ?x))
+        )
+    )
+)`);
+        });
+
+        it('changes keyword case', () => {
+            const formattedText = new PddlFormatter(Object.assign({}, options, { keywordCase: 'uppercase' })).format('(define (domain d) (:requirements :strips))');
+
+            expect(formattedText).to.equal(`(define (domain d)
+    (:REQUIREMENTS :STRIPS)
+)`);
+        });
+
+        it('does not format unbalanced brackets', () => {
+            expect(new PddlFormatter(options).format('(define (domain d) (:predicates (p)')).to.be.undefined;
+        });
+    });
+
+    describe('#formatEdits', () => {
+        it('replaces only the changed whitespace', () => {
+            // given
+            const text = `(define (domain d)
+(:requirements   :strips))`;
+
+            // when
+            const edits = new PddlFormatter(options).formatEdits(text) ?? [];
+
+            // then
+            expect(edits).to.deep.equal([
+                { start: 19, end: 19, newText: '    ' },
+                { start: 34, end: 36, newText: '' },
+                { start: 44, end: 44, newText: '\n' },
+            ]);
+            expect(apply(text, edits)).to.equal(new PddlFormatter(options).format(text));
+        });
+
+        it('replaces words with changed keyword case', () => {
+            // given
+            const text = '(define (domain d) (:REQUIREMENTS :strips))';
+            const formatter = new PddlFormatter(Object.assign({}, options, { keywordCase: 'lowercase' }));
+
+            // when
+            const edits = formatter.formatEdits(text) ?? [];
+
+            // then
+            expect(edits.map(edit => edit.newText)).to.include('requirements');
+            expect(apply(text, edits)).to.equal(formatter.format(text));
+        });
+
+        it('returns no edits for formatted document', () => {
+            const text = new PddlFormatter(options).format('(define (problem p) (:domain d) (:init (p a)) (:goal (p a)))') ?? '';
+
+            expect(new PddlFormatter(options).formatEdits(text)).to.deep.equal([]);
+        });
+    });
+
+    describe('#formatSections', () => {
+        it('formats only the section intersecting the range', () => {
+            // given
+            const text = `(define (domain d)
+(:predicates (p)     (q))
+(:action a :parameters () :effect (p)))`;
+            const actionStart = text.indexOf(':action');
+
+            // when
+            const edits = new PddlFormatter(options).formatSections(text, actionStart, actionStart + 1) ?? [];
+
+            // then
+            expect(edits.every(edit => edit.start >= text.indexOf('(:action'))).to.equal(true, 'predicates are not touched');
+            expect(apply(text, edits)).to.equal(`(define (domain d)
+(:predicates (p)     (q))
+    (:action a
+        :parameters ()
+        :effect (p)
+    ))`);
+        });
+    });
+});
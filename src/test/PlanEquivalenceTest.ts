@@ -0,0 +1,98 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver, Plan, PlanStep, DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { PlanEquivalence, FinalState } from '../ptest/PlanEquivalence';
+
+describe('PlanEquivalence', () => {
+
+    const domainText = `(define (domain logistics)
+    (:requirements :strips :typing :numeric-fluents)
+    (:predicates (at ?t ?l) (loaded ?t))
+    (:functions (fuel ?t))
+)`;
+
+    async function parse(problemText: string): Promise<{ domain: DomainInfo; problem: ProblemInfo }> {
+        const pddlWorkspace = new PddlWorkspace(1e-3);
+        const domain = await pddlWorkspace.upsertAndParseFile(URI.file('/equivalence/domain.pddl'), PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText)) as DomainInfo;
+        const problem = await pddlWorkspace.upsertAndParseFile(URI.file('/equivalence/problem.pddl'), PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText)) as ProblemInfo;
+        return { domain, problem };
+    }
+
+    function createProblemText(metric: string): string {
+        return `(define (problem delivery) (:domain logistics)
+    (:objects truck1 depot market)
+    (:init (at truck1 depot) (= (fuel truck1) 10))
+    (:goal (and (at truck1 market) (not (loaded truck1)) (>= (fuel truck1) 2)))
+    ${metric}
+)`;
+    }
+
+    /**
+     * @returns plan with the given cost, whose final state is given by the step action name
+     */
+    function createPlan(actionName: string, cost: number, domain?: DomainInfo, problem?: ProblemInfo): Plan {
+        const plan = new Plan([new PlanStep(0, actionName, false, undefined, 0)], domain, problem);
+        plan.cost = cost;
+        return plan;
+    }
+
+    /** Final states keyed by the action name of the single plan step. */
+    const FINAL_STATES: { [actionName: string]: FinalState } = {
+        'drive': new Map<string, number | boolean>().set('at truck1 market', true).set('fuel truck1', 4),
+        'drive-round-off': new Map<string, number | boolean>().set('at truck1 market', true).set('fuel truck1', 4.0000001),
+        'drive-economically': new Map<string, number | boolean>().set('at truck1 market', true).set('fuel truck1', 6),
+        'drive-and-load': new Map<string, number | boolean>().set('at truck1 market', true).set('loaded truck1', true).set('fuel truck1', 4),
+        'drive-out-of-fuel': new Map<string, number | boolean>().set('at truck1 market', true).set('fuel truck1', 1),
+        'stay': new Map<string, number | boolean>().set('at truck1 depot', true).set('fuel truck1', 10),
+    };
+
+    function createEquivalence(): PlanEquivalence {
+        return new PlanEquivalence(async plan => FINAL_STATES[plan.steps[0].getActionName()], 1e-3);
+    }
+
+    async function compare(actualActionName: string, actualCost: number, expectedActionName: string, expectedCost: number, metric = ''): Promise<string | undefined> {
+        const { domain, problem } = await parse(createProblemText(metric));
+        const comparison = await createEquivalence().compare(
+            createPlan(actualActionName, actualCost, domain, problem), createPlan(expectedActionName, expectedCost));
+        return comparison.matches ? undefined : comparison.reason;
+    }
+
+    describe('#compare', () => {
+        it('matches plans reaching the same final state', async () => {
+            expect(await compare('drive', 10, 'drive', 20)).to.be.undefined;
+        });
+
+        it('tolerates numeric round-off in the final state', async () => {
+            expect(await compare('drive-round-off', 10, 'drive', 10)).to.be.undefined;
+        });
+
+        it('rejects actual plan not reaching the goal', async () => {
+            expect(await compare('stay', 0, 'drive', 10)).to.equal('Actual plan does not reach the goal (at truck1 market).');
+            expect(await compare('drive-and-load', 10, 'drive', 10)).to.equal('Actual plan does not reach the goal (not (loaded truck1)).');
+            expect(await compare('drive-out-of-fuel', 10, 'drive', 10)).to.equal('Actual plan does not reach the goal (>= (fuel truck1) 2).');
+        });
+
+        it('rejects expected plan not reaching the goal', async () => {
+            expect(await compare('drive', 10, 'stay', 0)).to.equal('Expected plan does not reach the goal (at truck1 market).');
+        });
+
+        it('accepts different final state with lower cost, when minimizing', async () => {
+            expect(await compare('drive-economically', 5, 'drive', 10, '(:metric minimize (total-cost))')).to.be.undefined;
+            expect(await compare('drive-economically', 5, 'drive', 10)).to.be.undefined;
+            expect(await compare('drive-economically', 15, 'drive', 10, '(:metric minimize (total-cost))'))
+                .to.equal('Final state differs in fuel truck1: expected 4, actual 6.');
+        });
+
+        it('accepts different final state with higher metric, when maximizing', async () => {
+            expect(await compare('drive-economically', 15, 'drive', 10, '(:metric maximize (fuel truck1))')).to.be.undefined;
+            expect(await compare('drive-economically', 5, 'drive', 10, '(:metric maximize (fuel truck1))'))
+                .to.equal('Final state differs in fuel truck1: expected 4, actual 6.');
+        });
+    });
+});
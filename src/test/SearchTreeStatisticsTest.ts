@@ -0,0 +1,48 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { State } from '../searchDebugger/State';
+import { SearchTreeStatistics } from '../searchDebugger/SearchTreeStatistics';
+
+describe('SearchTreeStatistics', () => {
+
+    /**
+     * @returns search tree 0 -> (1 drive, 2 load -> (3 drive, 4 unload, 5 drive)), where 2 was visited, 3 is a dead-end and 5 was not evaluated
+     */
+    function createStates(): State[] {
+        const state0 = State.createInitial().evaluate(3, 3, [], []);
+        const state1 = new State(1, "1", 1, 1, [], 0, 0, "drive├").evaluate(2, 3, [], []);
+        const state2 = new State(2, "2", 1, 0.5, [], 0, 0, "load├").evaluate(2, 4, [], []).setVisitedOrIsWorse();
+        const state3 = new State(3, "3", 2, 2, [], 0, 2, "drive├").setDeadEnd();
+        const state4 = new State(4, "4", 2, 1.5, [], 0, 2, "unload├").evaluate(1, 4, [], []);
+        const state5 = new State(5, "5", 2, 2, [], 0, 2, "drive├");
+        return [state0, state1, state2, state3, state4, state5];
+    }
+
+    describe('#getHeuristicByExpansionOrder', () => {
+        it('lists heuristic values in the order of expansion', () => {
+            const statistics = new SearchTreeStatistics(createStates());
+
+            expect(statistics.getHeuristicByExpansionOrder()).to.deep.equal([
+                { expansion: 1, stateId: 0, h: 3 },
+                { expansion: 2, stateId: 2, h: 2 },
+            ]);
+        });
+    });
+
+    describe('#getBranchingFactorByDepth', () => {
+        it('calculates branching factor per depth', () => {
+            const statistics = new SearchTreeStatistics(createStates());
+
+            expect(statistics.getBranchingFactorByDepth()).to.deep.equal([
+                { depth: 0, states: 1, expanded: 1, branchingFactor: 2 },
+                { depth: 1, states: 2, expanded: 1, branchingFactor: 3 },
+                { depth: 2, states: 3, expanded: 0, branchingFactor: 0 },
+            ]);
+        });
+    });
+});
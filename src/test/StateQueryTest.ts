@@ -0,0 +1,66 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { State } from '../searchDebugger/State';
+import { StateQuery } from '../searchDebugger/StateQuery';
+
+describe('StateQuery', () => {
+
+    /**
+     * @returns search tree 0 -> (1 drive, 2 load -> (3 drive, 4 unload, 5 drive)), where 2 was visited, 3 is a dead-end and 5 was not evaluated
+     */
+    function createStates(): State[] {
+        const state0 = State.createInitial().evaluate(3, 3, [], []);
+        const state1 = new State(1, "1", 1, 1, [], 0, 0, "drive├").evaluate(2, 3, [], []);
+        const state2 = new State(2, "2", 1, 0.5, [], 0, 0, "load├").evaluate(2, 4, [], []).setVisitedOrIsWorse();
+        const state3 = new State(3, "3", 2, 2, [], 0, 2, "drive├").setDeadEnd();
+        const state4 = new State(4, "4", 2, 1.5, [], 0, 2, "unload├").evaluate(1, 4, [], []);
+        const state5 = new State(5, "5", 2, 2, [], 0, 2, "drive├");
+        return [state0, state1, state2, state3, state4, state5];
+    }
+
+    function query(text: string): number[] {
+        return StateQuery.parse(text).filter(createStates()).map(state => state.id);
+    }
+
+    describe('#filter', () => {
+        it('compares numeric fields', () => {
+            expect(query('h<=2')).to.deep.equal([1, 2, 4]);
+            expect(query('g=2')).to.deep.equal([3, 4, 5]);
+            expect(query('earliestTime>1.5')).to.deep.equal([3, 5]);
+            expect(query('depth!=1')).to.deep.equal([0, 3, 4, 5]);
+        });
+
+        it('does not match dead-ends and states not evaluated by heuristic conditions', () => {
+            expect(query('h>=0 depth=2')).to.deep.equal([4]);
+        });
+
+        it('matches flags and their negations', () => {
+            expect(query('isDeadEnd')).to.deep.equal([3]);
+            expect(query('wasVisitedOrIsWorse')).to.deep.equal([2]);
+            expect(query('!isDeadEnd and !wasVisitedOrIsWorse && depth>0')).to.deep.equal([1, 4, 5]);
+        });
+
+        it('matches action name by regular expression', () => {
+            expect(query('action~^drive')).to.deep.equal([1, 3, 5]);
+            expect(query('action~load')).to.deep.equal([2, 4]);
+        });
+
+        it('matches all states by empty query', () => {
+            expect(StateQuery.parse(' ').isEmpty()).to.equal(true);
+            expect(query('')).to.deep.equal([0, 1, 2, 3, 4, 5]);
+        });
+    });
+
+    describe('#parse', () => {
+        it('rejects unknown fields and conditions', () => {
+            expect(() => StateQuery.parse('cost<3')).to.throw(/Unknown state field 'cost'/);
+            expect(() => StateQuery.parse('isGoal')).to.throw(/Unexpected query condition 'isGoal'/);
+            expect(() => StateQuery.parse('action~(')).to.throw(/Invalid action name regular expression/);
+        });
+    });
+});
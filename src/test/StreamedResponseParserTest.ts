@@ -0,0 +1,55 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { StreamedResponseParser, StreamedMessage, isStreamedResponse } from '../planning/StreamedResponseParser';
+
+describe('StreamedResponseParser', () => {
+
+    describe('#isStreamedResponse', () => {
+        it('recognizes streamed content types', () => {
+            expect(isStreamedResponse('text/event-stream; charset=utf-8')).to.equal(true);
+            expect(isStreamedResponse('application/x-ndjson')).to.equal(true);
+            expect(isStreamedResponse('application/json')).to.equal(false);
+            expect(isStreamedResponse(undefined)).to.equal(false);
+        });
+    });
+
+    describe('#append', () => {
+        it('parses Server-Sent Events split across chunks', () => {
+            // given
+            const messages: StreamedMessage[] = [];
+            const parser = new StreamedResponseParser('text/event-stream', message => messages.push(message));
+
+            // when
+            parser.append(': keep-alive\n\nevent: output\ndata: Parsing domain');
+            parser.append('\n\nevent: plan\ndata: {"plan": [\ndata: {"name": "(a)"}]}\n\n');
+            parser.append('data: {"type": "end"}\n\n');
+
+            // then
+            expect(messages).to.deep.equal([
+                { type: 'output', data: 'Parsing domain' },
+                { type: 'plan', data: { plan: [{ name: '(a)' }] } },
+                { type: 'end', data: { type: 'end' } }
+            ]);
+        });
+
+        it('parses newline-delimited JSON', () => {
+            // given
+            const messages: StreamedMessage[] = [];
+            const parser = new StreamedResponseParser('application/x-ndjson', message => messages.push(message));
+
+            // when
+            parser.append('{"type": "output", "text": "Searching"}\r\n{"type": "pl');
+            parser.append('an", "plan": []}');
+            parser.end();
+
+            // then
+            expect(messages.map(m => m.type)).to.deep.equal(['output', 'plan']);
+            expect(messages[0].data.text).to.equal('Searching');
+        });
+    });
+});
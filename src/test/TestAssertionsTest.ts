@@ -0,0 +1,97 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { Plan, PlanStep } from 'pddl-workspace';
+import { TestAssertions, AssertionResult } from '../ptest/TestAssertions';
+import { FinalState } from '../ptest/PlanEquivalence';
+
+describe('TestAssertions', () => {
+
+    const EPSILON = 1e-3;
+
+    /**
+     * @returns plan `drive truck1 depot market` (0..10), `unload truck1 market` (10..12) with cost 15
+     */
+    function createPlan(): Plan {
+        const plan = new Plan([
+            new PlanStep(0, 'drive truck1 depot market', true, 10, 0),
+            new PlanStep(10, 'unload truck1 market', true, 2, 1),
+        ]);
+        plan.cost = 15;
+        return plan;
+    }
+
+    function evaluate(json: unknown, plans: Plan[], finalState?: FinalState): AssertionResult[] {
+        return TestAssertions.fromJSON(json).evaluate({ plans, elapsedTime: 1000 }, finalState, EPSILON);
+    }
+
+    function passed(results: AssertionResult[]): boolean[] {
+        return results.map(result => result.passed);
+    }
+
+    describe('#fromJSON', () => {
+        it('round-trips the assertions', () => {
+            const json = { maxMakespan: 12, mustContainAction: ['drive'], finalState: { '(at truck1 market)': true } };
+
+            expect(TestAssertions.fromJSON(json).toJSON()).to.deep.equal(json);
+            expect(TestAssertions.fromJSON({ mustContainAction: 'drive' }).mustContainAction).to.deep.equal(['drive']);
+            expect(TestAssertions.fromJSON({}).isEmpty()).to.equal(true);
+        });
+    });
+
+    describe('#evaluate', () => {
+        it('checks makespan, cost, number of plans and elapsed time', () => {
+            expect(passed(evaluate({ maxMakespan: 12, maxCost: 15, minPlans: 1, maxElapsedTimeMs: 1000 }, [createPlan()])))
+                .to.deep.equal([true, true, true, true]);
+
+            const results = evaluate({ maxMakespan: 11, maxCost: 14, minPlans: 2, maxElapsedTimeMs: 999 }, [createPlan()]);
+            expect(passed(results)).to.deep.equal([false, false, false, false]);
+            expect(results.map(result => result.message)).to.deep.equal([
+                '1 plan(s) found, expected at least 2.',
+                'Elapsed 1000ms, expected at most 999ms.',
+                'Makespan 12, expected at most 11.',
+                'Cost 15, expected at most 14.',
+            ]);
+        });
+
+        it('matches actions by name or by full name', () => {
+            expect(passed(evaluate({ mustContainAction: ['drive', 'unload truck1 market'], mustNotContainAction: ['load'] }, [createPlan()])))
+                .to.deep.equal([true, true, true]);
+            expect(passed(evaluate({ mustContainAction: 'drive truck1 market depot', mustNotContainAction: 'UNLOAD' }, [createPlan()])))
+                .to.deep.equal([false, false]);
+        });
+
+        it('fails plan assertions, when no plan is found', () => {
+            const results = evaluate({ maxCost: 10, expectUnsolvable: false }, []);
+
+            expect(passed(results)).to.deep.equal([false, false]);
+            expect(results[1].message).to.equal('No plan found.');
+            expect(passed(evaluate({ expectUnsolvable: true }, []))).to.deep.equal([true]);
+        });
+
+        it('compares final state values within epsilon', () => {
+            // given
+            const finalState: FinalState = new Map<string, number | boolean>()
+                .set('at truck1 market', true)
+                .set('fuel truck1', 0.1 + 0.2);
+            const json = { finalState: { '(at truck1 market)': true, '(fuel truck1)': 0.3, '(at truck1 depot)': false } };
+
+            // when
+            const results = evaluate(json, [createPlan()], finalState);
+
+            // then
+            expect(passed(results)).to.deep.equal([true, true, true]);
+            expect(passed(evaluate({ finalState: { '(fuel truck1)': 0.31 } }, [createPlan()], finalState))).to.deep.equal([false]);
+        });
+
+        it('fails final state assertions, when the final state was not evaluated', () => {
+            const results = evaluate({ finalState: { '(at truck1 market)': true } }, [createPlan()]);
+
+            expect(results[0].message).to.equal('Final state was not evaluated.');
+        });
+    });
+});
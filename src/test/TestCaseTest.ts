@@ -0,0 +1,36 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { PddlExtensionContext } from 'pddl-workspace';
+import { Test, PlanAssertionMode } from '../ptest/Test';
+
+describe('Test', () => {
+
+    const context = { subscriptions: [], extensionPath: '.' } as unknown as PddlExtensionContext;
+
+    describe('#fromJSON', () => {
+        it('reads the plan assertion mode', () => {
+            const test = Test.fromJSON({ problem: 'pfile1', planAssertion: 'equivalent' }, context);
+
+            expect(test.getPlanAssertionMode()).to.equal(PlanAssertionMode.EQUIVALENT);
+            expect(test.getDefinitionError()).to.be.undefined;
+            expect(Test.fromJSON({ problem: 'pfile1' }, context).getPlanAssertionMode()).to.equal(PlanAssertionMode.EXACT);
+        });
+
+        it('reports unsupported plan assertion mode as invalid definition', () => {
+            // given
+            const json = { problem: 'pfile1', planAssertion: 'equivalnet' };
+
+            // when
+            const test = Test.fromJSON(json, context);
+
+            // then
+            expect(test.getDefinitionError()).to.equal(`Unsupported planAssertion 'equivalnet'. Supported values: exact, equivalent.`);
+            expect(test.toJSON()).to.deep.equal(json);
+        });
+    });
+});
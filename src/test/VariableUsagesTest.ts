@@ -0,0 +1,83 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+import { expect } from 'chai';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver, DomainInfo, ProblemInfo } from 'pddl-workspace';
+import { findVariableUsages, findVariable, VariableUsage } from '../symbols/VariableUsages';
+
+describe('VariableUsages', () => {
+
+    const domainText = `(define (domain logistics)
+    (:requirements :durative-actions :timed-initial-literals :conditional-effects)
+    (:types truck location)
+    (:predicates (at ?t - truck ?l - location) (open ?l - location))
+    (:durative-action drive :parameters (?t - truck ?from ?to - location)
+        :duration (= ?duration 1)
+        :condition (and (at start (at ?t ?from)) (over all (open ?to)))
+        :effect (and (at start (not (at ?t ?from))) (at end (at ?t ?to))
+            (at end (when (at ?t ?to) (not (open ?to))))))
+)`;
+
+    const problemText = `(define (problem delivery) (:domain logistics)
+    (:objects truck1 - truck depot store - location)
+    (:init (at truck1 depot) (at 10 (open store)))
+    (:goal (at truck1 store))
+)`;
+
+    async function parse(): Promise<{ domain: DomainInfo; problem: ProblemInfo }> {
+        const pddlWorkspace = new PddlWorkspace(1e-3);
+        const domain = await pddlWorkspace.upsertAndParseFile(URI.file('/usages/domain.pddl'), PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText)) as DomainInfo;
+        const problem = await pddlWorkspace.upsertAndParseFile(URI.file('/usages/problem.pddl'), PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText)) as ProblemInfo;
+        return { domain, problem };
+    }
+
+    /** @returns `name:part=code` of every reference */
+    function summarize(usages: VariableUsage[]): string[] {
+        return usages
+            .map(usage => usage.references.map(reference => `${usage.name}:${reference.part}=${reference.code}`))
+            .reduce((all, references) => all.concat(references), []);
+    }
+
+    describe('#findVariableUsages', () => {
+        it('finds predicate named `at`', async () => {
+            // given
+            const { domain, problem } = await parse();
+            const variable = findVariable(domain, 'at');
+            expect(variable).to.not.be.undefined;
+
+            // when
+            const usages = findVariableUsages(domain, [problem], variable!);
+
+            // then
+            expect(summarize(usages.writers)).to.deep.equal([
+                'drive:at start effect=(not (at ?t ?from))',
+                'drive:at end effect=(at ?t ?to)',
+                'delivery:init=(at truck1 depot)',
+            ]);
+            expect(summarize(usages.readers)).to.deep.equal([
+                'drive:at start condition=(at ?t ?from)',
+                'drive:at end effect=(when (at ?t ?to) (not (open ?to)))',
+                'delivery:goal=(at truck1 store)',
+            ]);
+        });
+
+        it('does not confuse timed initial literal with predicate named `at`', async () => {
+            // given
+            const { domain, problem } = await parse();
+
+            // when
+            const usages = findVariableUsages(domain, [problem], findVariable(domain, 'open')!);
+
+            // then
+            expect(summarize(usages.writers)).to.deep.equal([
+                'drive:at end effect=(not (open ?to))',
+                'delivery:init=(at 10 (open store))',
+            ]);
+            expect(summarize(usages.readers)).to.deep.equal(['drive:over all condition=(open ?to)']);
+        });
+    });
+});
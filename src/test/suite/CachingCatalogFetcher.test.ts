@@ -0,0 +1,97 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { expect } from 'chai';
+import { CatalogFetcher } from '../../catalog/CatalogFetcher';
+import { CachingCatalogFetcher } from '../../catalog/CachingCatalogFetcher';
+
+/** Stand-in for the HTTP fetcher, which counts the requests and may go offline. */
+class MockFetcher implements CatalogFetcher {
+    readonly requestedUrls: string[] = [];
+    offline = false;
+    content = 'content1';
+
+    async getJson(url: string): Promise<unknown> {
+        return { result: await this.getText(url) };
+    }
+
+    async getText(url: string): Promise<string> {
+        if (this.offline) { throw new Error('getaddrinfo ENOTFOUND api.planning.domains'); }
+        this.requestedUrls.push(url);
+        return this.content;
+    }
+}
+
+suite('Caching catalog fetcher', () => {
+
+    const url = 'https://api.planning.domains/json/classical/collections';
+    let cacheFolder: string;
+
+    setup(() => {
+        cacheFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-cache-'));
+    });
+
+    test('serves fresh response from the cache', async () => {
+        // GIVEN
+        const mockFetcher = new MockFetcher();
+        await new CachingCatalogFetcher(mockFetcher, cacheFolder, () => 60000).getText(url);
+        mockFetcher.content = 'content2';
+
+        // WHEN
+        const text = await new CachingCatalogFetcher(mockFetcher, cacheFolder, () => 60000).getText(url);
+
+        // THEN
+        expect(text).to.equal('content1');
+        expect(mockFetcher.requestedUrls).to.deep.equal([url]);
+    });
+
+    test('re-fetches stale and refreshed responses', async () => {
+        // GIVEN
+        const mockFetcher = new MockFetcher();
+        const fetcher = new CachingCatalogFetcher(mockFetcher, cacheFolder, () => 60000);
+        await fetcher.getJson(url);
+        mockFetcher.content = 'content2';
+
+        // WHEN
+        fetcher.refresh();
+        const json = await fetcher.getJson(url);
+
+        // THEN
+        expect(json).to.deep.equal({ result: 'content2' });
+        expect(mockFetcher.requestedUrls).to.deep.equal([url, url]);
+    });
+
+    test('serves stale response when offline', async () => {
+        // GIVEN
+        const mockFetcher = new MockFetcher();
+        const offlineUrls: string[] = [];
+        const fetcher = new CachingCatalogFetcher(mockFetcher, cacheFolder, () => 0, offlineUrl => offlineUrls.push(offlineUrl));
+        await fetcher.getText(url);
+        mockFetcher.offline = true;
+
+        // WHEN
+        const text = await fetcher.getText(url);
+
+        // THEN
+        expect(text).to.equal('content1');
+        expect(offlineUrls).to.deep.equal([url]);
+    });
+
+    test('fails when offline and not cached', async () => {
+        // GIVEN
+        const mockFetcher = new MockFetcher();
+        mockFetcher.offline = true;
+        const fetcher = new CachingCatalogFetcher(mockFetcher, cacheFolder, () => 60000);
+
+        // WHEN
+        let error: Error | undefined;
+        try {
+            await fetcher.getText(url);
+        } catch (err) {
+            error = err;
+        }
+
+        // THEN
+        expect(error?.message).to.contain('ENOTFOUND');
+    });
+});
@@ -0,0 +1,111 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { expect } from 'chai';
+import { PlanningDomains } from '../../catalog/PlanningDomains';
+import { HttpCatalogFetcher } from '../../catalog/CatalogFetcher';
+import { CatalogDownloader, getPlanCost } from '../../catalog/CatalogDownloader';
+import { Domain } from '../../catalog/CatalogEntry';
+
+suite('Catalog downloader', () => {
+
+    let server: http.Server;
+    let baseUrl: string;
+    let targetFolder: string;
+
+    /** Stand-in for the api.planning.domains service. */
+    function createResponses(): Map<string, string> {
+        const json = (result: unknown): string => JSON.stringify({ error: false, result });
+        return new Map([
+            ['/json/classical/problems/1', json([
+                { "problem_id": 11, "problem": 'p01.pddl', "domain_url": `${baseUrl}/raw/blocks/domain.pddl`, "problem_url": `${baseUrl}/raw/blocks/p01.pddl` },
+                { "problem_id": 12, "problem": 'p02.pddl', "domain_url": `${baseUrl}/raw/blocks/domain.pddl`, "problem_url": `${baseUrl}/raw/blocks/p02.pddl`, "upper_bound": 6 }
+            ])],
+            ['/json/classical/plan/11', json({ plan: '(pick-up a)\n(stack a b)\n; cost = 2 (unit cost)\n' })],
+            ['/json/classical/plan/12', json({ plan: null })],
+            ['/raw/blocks/domain.pddl', '(define (domain blocks))'],
+            ['/raw/blocks/p01.pddl', '(define (problem p01) (:domain blocks))'],
+            ['/raw/blocks/p02.pddl', '(define (problem p02) (:domain blocks))'],
+            ['/json/classical/problems/2', json([
+                { "problem_id": 21, "problem": 'p01.pddl', "domain_url": `${baseUrl}/raw/rovers/p01/domain.pddl`, "problem_url": `${baseUrl}/raw/rovers/p01/problem.pddl` },
+                { "problem_id": 22, "problem": 'p02.pddl', "domain_url": `${baseUrl}/raw/rovers/p02/domain.pddl`, "problem_url": `${baseUrl}/raw/rovers/p02/problem.pddl` }
+            ])],
+            ['/json/classical/plan/21', json({ plan: null })],
+            ['/json/classical/plan/22', json({ plan: null })],
+            ['/raw/rovers/p01/domain.pddl', '(define (domain rovers1))'],
+            ['/raw/rovers/p01/problem.pddl', '(define (problem p01) (:domain rovers1))'],
+            ['/raw/rovers/p02/domain.pddl', '(define (domain rovers2))'],
+            ['/raw/rovers/p02/problem.pddl', '(define (problem p02) (:domain rovers2))']
+        ]);
+    }
+
+    suiteSetup(done => {
+        targetFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-'));
+        server = http.createServer((request, response) => {
+            const body = createResponses().get(request.url ?? '');
+            response.writeHead(body !== undefined ? 200 : 404);
+            response.end(body);
+        });
+        server.listen(0, '127.0.0.1', () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            done();
+        });
+    });
+
+    suiteTeardown(done => {
+        server.close(() => done());
+    });
+
+    test('downloads domain, problems and reference plans', async () => {
+        // GIVEN
+        const planningDomains = new PlanningDomains(new HttpCatalogFetcher(), `${baseUrl}/json/classical/`);
+        const downloader = new CatalogDownloader(planningDomains);
+
+        // WHEN
+        const downloadedDomain = await downloader.downloadDomain(new Domain(1, 'blocks', 'Blocks world'), targetFolder);
+
+        // THEN
+        expect(downloadedDomain.folder).to.equal(path.join(targetFolder, 'blocks-1'));
+        expect(downloadedDomain.problems).to.have.lengthOf(2);
+        const [p01, p02] = downloadedDomain.problems;
+        expect(p01.domainPath).to.equal(path.join(targetFolder, 'blocks-1', 'domain.pddl'));
+        expect(p02.domainPath).to.equal(p01.domainPath);
+        expect(p01.problemPath).to.equal(path.join(targetFolder, 'blocks-1', 'p01-11.pddl'));
+        expect(fs.readFileSync(p01.problemPath, { encoding: 'utf8' })).to.contain('(problem p01)');
+        expect(p01.planPath).to.equal(path.join(targetFolder, 'blocks-1', 'p01-11.plan'));
+        expect(p01.planCost).to.equal(2);
+        expect(p02.planPath).to.be.undefined;
+        expect(p02.planCost).to.equal(6, 'upper bound is used where no plan is available');
+    });
+
+    test('does not overwrite problems and domains with the same file name', async () => {
+        // GIVEN each problem is in its own catalog folder with its own domain
+        const planningDomains = new PlanningDomains(new HttpCatalogFetcher(), `${baseUrl}/json/classical/`);
+        const downloader = new CatalogDownloader(planningDomains);
+
+        // WHEN
+        const downloadedDomain = await downloader.downloadDomain(new Domain(2, 'rovers', 'Rovers'), targetFolder);
+
+        // THEN
+        const [p01, p02] = downloadedDomain.problems;
+        expect(p01.problemPath).to.not.equal(p02.problemPath);
+        expect(p01.domainPath).to.equal(path.join(targetFolder, 'rovers-2', 'domain-21.pddl'));
+        expect(fs.readFileSync(p01.domainPath, { encoding: 'utf8' })).to.contain('(domain rovers1)');
+        expect(fs.readFileSync(p02.domainPath, { encoding: 'utf8' })).to.contain('(domain rovers2)');
+        expect(fs.readFileSync(p02.problemPath, { encoding: 'utf8' })).to.contain('(problem p02)');
+    });
+
+    test('extracts plan cost from the plan comment', () => {
+        // GIVEN
+        const planText = '(a)\n(b)\n; cost = 12.5 (general cost)\n';
+
+        // WHEN
+        const cost = getPlanCost(planText);
+
+        // THEN
+        expect(cost).to.equal(12.5);
+        expect(getPlanCost('(a)\n')).to.be.undefined;
+    });
+});
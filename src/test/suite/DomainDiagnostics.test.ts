@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver, DomainInfo } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { DomainDiagnostics } from '../../diagnostics/DomainDiagnostics';
+
+suite('Domain diagnostics Test Suite', () => {
+
+	let pddlWorkspace: PddlWorkspace;
+	let domainDiagnostics: DomainDiagnostics;
+	let folderIndex = 0;
+
+	before(() => {
+		pddlWorkspace = new PddlWorkspace(1e-3);
+		const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+		domainDiagnostics = new DomainDiagnostics(context, CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+	});
+
+	/**
+	 * @returns diagnostics formatted as `code:line:character`
+	 */
+	async function validate(domainText: string, problemText?: string): Promise<string[]> {
+		// every domain is placed to its own folder, so the problem files do not get associated to the other domains
+		const folder = `/domain-diagnostics/${folderIndex++}`;
+		const domainUri = URI.file(folder + '/domain.pddl');
+		const domainInfo = await pddlWorkspace.upsertAndParseFile(domainUri, PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText));
+		if (problemText) {
+			await pddlWorkspace.upsertAndParseFile(URI.file(folder + '/problem.pddl'), PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText));
+		}
+
+		domainDiagnostics.validateDomain(domainInfo as DomainInfo);
+		return (domainDiagnostics.diagnosticCollection.get(vscode.Uri.file(domainUri.fsPath)) ?? [])
+			.map(diagnostic => `${diagnostic.code}:${diagnostic.range.start.line}:${diagnostic.range.start.character}`);
+	}
+
+	const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot store - location)
+	(:init (at truck1 depot) (road depot store))
+	(:goal (at truck1 store))
+)`;
+
+	test('accepts a domain without lint problems', async () => {
+		// GIVEN the static predicate `road` is initialized in the problem
+		const domainText = `(define (domain logistics)
+	(:requirements :typing :negative-preconditions)
+	(:types truck location)
+	(:predicates (at ?t - truck ?l - location) (road ?from ?to - location))
+	(:action drive
+		:parameters (?t - truck ?from ?to - location)
+		:precondition (and (at ?t ?from) (road ?from ?to) (not (at ?t ?to)))
+		:effect (and (not (at ?t ?from)) (at ?t ?to))
+	)
+)`;
+
+		// WHEN
+		const diagnostics = await validate(domainText, problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, []);
+	});
+
+	test('reports atoms added and deleted by the same effect and at end conditions deleted at start', async () => {
+		// GIVEN
+		const domainText = `(define (domain logistics)
+	(:requirements :typing :durative-actions)
+	(:types truck location)
+	(:predicates (at ?t - truck ?l - location) (free ?l - location))
+	(:action wait
+		:parameters (?t - truck ?l - location)
+		:precondition (at ?t ?l)
+		:effect (and (not (at ?t ?l)) (at ?t ?l))
+	)
+	(:durative-action load
+		:parameters (?t - truck ?l - location)
+		:duration (= ?duration 1)
+		:condition (and (at start (free ?l)) (at end (free ?l)) (over all (at ?t ?l)))
+		:effect (and (at start (not (free ?l))) (at end (free ?l)))
+	)
+)`;
+
+		// WHEN
+		const diagnostics = await validate(domainText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, ['add-delete-same-atom:7:20', 'at-end-condition-deleted-at-start:12:47']);
+	});
+
+	test('reports preconditions never made true and unused parameters', async () => {
+		// GIVEN no action opens the location and the problem does not initialize it open
+		const domainText = `(define (domain logistics)
+	(:requirements :typing)
+	(:types truck location)
+	(:predicates (at ?t - truck ?l - location) (road ?from ?to - location) (open ?l - location))
+	(:action drive
+		:parameters (?t - truck ?from ?to ?via - location)
+		:precondition (and (at ?t ?from) (road ?from ?to) (open ?to))
+		:effect (and (not (at ?t ?from)) (at ?t ?to))
+	)
+)`;
+
+		// WHEN
+		const diagnostics = await validate(domainText, problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, ['never-true-precondition:6:52', 'unused-parameter:5:36']);
+	});
+
+	test('reports unused types and unneeded requirements', async () => {
+		// GIVEN the `truck` type is only used in the problem
+		const domainText = `(define (domain logistics)
+	(:requirements :strips :typing :conditional-effects :negative-preconditions)
+	(:types truck boat - vehicle location)
+	(:predicates (at ?v - vehicle ?l - location) (road ?from ?to - location))
+	(:action drive
+		:parameters (?v - vehicle ?from ?to - location)
+		:precondition (and (at ?v ?from) (road ?from ?to))
+		:effect (and (not (at ?v ?from)) (at ?v ?to))
+	)
+)`;
+
+		// WHEN
+		const diagnostics = await validate(domainText, problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, ['unused-type:2:15', 'unneeded-requirement:1:32', 'unneeded-requirement:1:53']);
+	});
+
+	test('suppresses the rules disabled by comments', async () => {
+		// GIVEN
+		const domainText = `(define (domain logistics) ; pddl-lint-disable unneeded-requirement
+	(:requirements :typing :conditional-effects)
+	(:types truck location)
+	(:predicates (at ?t - truck ?l - location) (visited ?l - location))
+	(:action drive
+		; pddl-lint-disable-next-line
+		:parameters (?t - truck ?from ?to ?via - location)
+		:precondition (at ?t ?from)
+		:effect (and (not (at ?t ?from)) (at ?t ?to))
+	)
+)`;
+
+		// WHEN
+		const diagnostics = await validate(domainText);
+
+		// THEN only the unused predicate is reported
+		assert.deepStrictEqual(diagnostics, ['unused-predicate:3:44']);
+	});
+
+	test('re-validates the domain once, after several problem files are updated', async () => {
+		// GIVEN
+		const otherWorkspace = new PddlWorkspace(1e-3);
+		const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+		const otherDiagnostics = new DomainDiagnostics(context, CodePddlWorkspace.getInstanceForTestingOnly(otherWorkspace));
+		const domainText = `(define (domain logistics) (:predicates (at ?t ?l)))`;
+		await otherWorkspace.upsertAndParseFile(URI.file('/domain-diagnostics/debounced/domain.pddl'), PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText));
+		let validationCount = 0;
+		otherDiagnostics.validateDomain = (): void => { validationCount++; };
+
+		// WHEN
+		for (let index = 0; index < 3; index++) {
+			await otherWorkspace.upsertAndParseFile(URI.file(`/domain-diagnostics/debounced/problem${index}.pddl`), PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText));
+		}
+
+		// THEN
+		assert.strictEqual(validationCount, 0, 'validations right after the updates');
+		await new Promise(resolve => setTimeout(resolve, DomainDiagnostics.PROBLEM_UPDATE_DELAY_MS + 100));
+		assert.strictEqual(validationCount, 1, 'validations after the delay');
+	});
+});
@@ -0,0 +1,131 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { expect } from 'chai';
+import { PddlExtensionContext } from 'pddl-workspace';
+import { HeadlessTestRunner, allPassed, createExecutablePlannerFactory } from '../../ptest/HeadlessTestRunner';
+import { TestsManifest } from '../../ptest/TestsManifest';
+import { TestOutcome } from '../../ptest/Test';
+
+suite('Headless test runner', () => {
+
+    const planningFolder = path.resolve(__dirname, path.join('..', '..', '..', 'src', 'test', 'planning'));
+    const mockPlannerPath = path.join(planningFolder, 'mock-planner.js');
+
+    let manifestFolder: string;
+    let context: PddlExtensionContext;
+    let runner: HeadlessTestRunner;
+    let manifestCount = 0;
+
+    suiteSetup(() => {
+        manifestFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'ptest-'));
+        ['domain.pddl', 'problem.pddl', 'problem.plan'].forEach(fileName =>
+            fs.copyFileSync(path.join(planningFolder, fileName), path.join(manifestFolder, fileName)));
+
+        context = {
+            extensionPath: path.resolve(__dirname, '..', '..', '..'),
+            asAbsolutePath: (relativePath: string): string => relativePath,
+            pythonPath: (): string => 'python',
+            storagePath: undefined,
+            subscriptions: []
+        };
+
+        runner = new HeadlessTestRunner(context, {
+            createPlanner: createExecutablePlannerFactory({
+                kind: 'mock',
+                title: 'Mock planner',
+                path: 'node',
+                syntax: `$(planner) "${mockPlannerPath}" $(options) $(domain) $(problem)`,
+                canConfigure: false
+            }),
+            epsilon: 1e-3,
+            workerPoolSize: 2,
+            output: (): void => { return; }
+        });
+    });
+
+    function createManifest(cases: unknown[]): string {
+        const manifestPath = path.join(manifestFolder, `test${++manifestCount}.ptest.json`);
+        fs.writeFileSync(manifestPath, JSON.stringify({ defaultDomain: 'domain.pddl', defaultProblem: 'problem.pddl', defaultOptions: 'problem.plan', cases }));
+        return manifestPath;
+    }
+
+    test('passes test with matching expected plan', async () => {
+        // GIVEN
+        const manifestPath = createManifest([{ label: 'case1', expectedPlans: ['problem.plan'] }]);
+        const manifest = TestsManifest.load(manifestPath, context);
+
+        // WHEN
+        const results = await runner.runManifest(manifest);
+
+        // THEN
+        expect(results).to.have.lengthOf(1);
+        expect(results[0].evaluation.outcome).to.equal(TestOutcome.SUCCESS, results[0].evaluation.error);
+        expect(results[0].plannerTitle).to.equal('Mock planner');
+        expect(allPassed(results)).to.equal(true);
+    });
+
+    test('fails test with failing assertion', async () => {
+        // GIVEN
+        const manifestPath = createManifest([{ label: 'case1', assertions: { mustContainAction: 'b' } }]);
+        const manifest = TestsManifest.load(manifestPath, context);
+
+        // WHEN
+        const results = await runner.runManifest(manifest);
+
+        // THEN
+        expect(results[0].evaluation.outcome).to.equal(TestOutcome.FAILED);
+        expect(results[0].evaluation.error).to.contain(`Plan does not contain 'b'.`);
+        expect(allPassed(results)).to.equal(false);
+    });
+
+    test('fails test with missing problem file', async () => {
+        // GIVEN
+        const manifestPath = createManifest([{ label: 'case1', problem: 'missing.pddl' }]);
+        const manifest = TestsManifest.load(manifestPath, context);
+
+        // WHEN
+        const results = await runner.runManifest(manifest);
+
+        // THEN
+        expect(results[0].evaluation.outcome).to.equal(TestOutcome.FAILED);
+        expect(results[0].evaluation.error).to.contain('Problem file not found');
+    });
+
+    test('runs test cases in parallel and keeps their order', async () => {
+        // GIVEN
+        const manifestPath = createManifest([{ label: 'case1' }, { label: 'case2' }, { label: 'case3' }]);
+        const manifest = TestsManifest.load(manifestPath, context);
+
+        // WHEN
+        const results = await runner.runManifest(manifest);
+
+        // THEN
+        expect(results.map(result => result.test.getLabel())).to.deep.equal(['case1', 'case2', 'case3']);
+        expect(allPassed(results)).to.equal(true);
+    });
+
+    test('stops planner after timeout', async () => {
+        // GIVEN
+        const hangingPlannerRunner = new HeadlessTestRunner(context, {
+            createPlanner: createExecutablePlannerFactory({
+                kind: 'mock',
+                title: 'Hanging planner',
+                path: 'node',
+                syntax: `$(planner) -e "setTimeout(() => {}, 60000)"`,
+                canConfigure: false
+            }),
+            epsilon: 1e-3,
+            output: (): void => { return; }
+        });
+        const manifestPath = createManifest([{ label: 'case1', timeoutMs: 500 }]);
+        const manifest = TestsManifest.load(manifestPath, context);
+
+        // WHEN
+        const results = await hangingPlannerRunner.runManifest(manifest);
+
+        // THEN
+        expect(results[0].evaluation.outcome).to.equal(TestOutcome.TIMEOUT);
+        expect(results[0].elapsedTime).to.be.lessThan(60000);
+    });
+});
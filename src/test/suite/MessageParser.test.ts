@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+
+import { MessageParser, NdJsonLineSplitter } from '../../searchDebugger/MessageParser';
+import { Search } from '../../searchDebugger/Search';
+import { SearchTrace, SearchTraceEventType } from '../../searchDebugger/SearchTrace';
+
+suite('Search debugger message parser Test Suite', () => {
+
+	const driveStart = { actionName: 'drive', earliestTime: 0, shotCounter: 0, iterations: 1, kind: 'START' };
+	const driveEnd = { actionName: 'drive', earliestTime: 2, shotCounter: 0, iterations: 1, kind: 'END' };
+
+	test('parses and applies a batch of messages', () => {
+		// GIVEN
+		const search = new Search();
+		const messageParser = new MessageParser(search, /^(\d+)$/);
+		const batch = [
+			{ type: 'state/initial', body: { id: '0', g: 0, earliestTime: 0, satisfiedLandmarks: 0 } },
+			{ type: 'state', body: { id: '1', parentId: '0', g: 1, earliestTime: 0, satisfiedLandmarks: 0, appliedAction: driveStart, planHead: [driveStart] } },
+			{ type: 'state/heuristic', body: { id: '1', h: 1, totalMakespan: 2, helpfulActions: [{ actionName: 'drive', kind: 'END' }], relaxedPlan: [driveEnd] } },
+		];
+
+		// WHEN
+		const messages = messageParser.parseBatch(batch);
+		messages.forEach(message => SearchTrace.apply(message.type, message.body, search, messageParser));
+
+		// THEN
+		assert.deepStrictEqual(messages.map(message => message.type), [SearchTraceEventType.INITIAL_STATE, SearchTraceEventType.STATE, SearchTraceEventType.HEURISTIC]);
+		assert.deepStrictEqual(search.getStates().map(state => state.id), [0, 1]);
+		assert.strictEqual(search.getState(1)?.h, 1);
+	});
+
+	test('rejects batches that are not arrays and messages of unknown type', () => {
+		const messageParser = new MessageParser(new Search(), /^(\d+)$/);
+
+		assert.throws(() => messageParser.parseBatch({ type: 'state' }), /must be a JSON array/);
+		assert.throws(() => messageParser.parseBatch([{ type: 'state/deleted', body: {} }]), /Unexpected message type: state\/deleted/);
+	});
+
+	test('parses stream lines and skips blank lines', () => {
+		const messageParser = new MessageParser(new Search(), /^(\d+)$/);
+
+		assert.strictEqual(messageParser.parseStreamLine('  '), undefined);
+		assert.deepStrictEqual(messageParser.parseStreamLine('{"type": "plan", "body": {"id": "2"}}'), { type: SearchTraceEventType.PLAN, body: { id: '2' } });
+	});
+
+	test('splits stream chunks to complete lines', () => {
+		// GIVEN
+		const lineSplitter = new NdJsonLineSplitter();
+
+		// WHEN a line is split across chunks and the stream does not end with a new line
+		const lines = lineSplitter.push('{"a": 1}\n{"b"')
+			.concat(lineSplitter.push(': 2}\r\n{"c": 3}'))
+			.concat(lineSplitter.end());
+
+		// THEN
+		assert.deepStrictEqual(lines, ['{"a": 1}', '{"b": 2}', '{"c": 3}']);
+	});
+});
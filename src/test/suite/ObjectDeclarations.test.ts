@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver } from 'pddl-workspace';
+import { ObjectDeclarations } from '../../symbols/ObjectDeclarations';
+
+suite('Object declarations Test Suite', () => {
+
+	/**
+	 * Opens the problem text and creates the object declarations for it.
+	 */
+	async function open(problemText: string): Promise<{ doc: vscode.TextDocument; objectDeclarations: ObjectDeclarations }> {
+		// we do not want the extension to actually load (it takes too much time), so use a fake language
+		const doc = await vscode.workspace.openTextDocument({ language: 'pddl-do-not-load-extension', content: problemText });
+		const fileInfo = await new PddlWorkspace(1e-3).upsertAndParseFile(URI.file('/object-declarations/problem.pddl'), PddlLanguage.PDDL, 1,
+			problemText, new SimpleDocumentPositionResolver(problemText));
+		return { doc, objectDeclarations: new ObjectDeclarations(fileInfo) };
+	}
+
+	async function apply(doc: vscode.TextDocument, edit: vscode.WorkspaceEdit | undefined): Promise<string> {
+		assert.ok(edit, 'edit should be created');
+		assert.ok(await vscode.workspace.applyEdit(edit), 'edit should be applied');
+		return doc.getText();
+	}
+
+	/** @returns diagnostic at the n-th occurrence of the object name */
+	function diagnosticAt(doc: vscode.TextDocument, objectName: string, occurrence: number): vscode.Diagnostic {
+		let offset = -1;
+		for (let i = 0; i < occurrence; i++) {
+			offset = doc.getText().indexOf(objectName, offset + 1);
+		}
+		const range = new vscode.Range(doc.positionAt(offset), doc.positionAt(offset + objectName.length));
+		return new vscode.Diagnostic(range, `Duplicate object ${objectName}`);
+	}
+
+	test('parses the undeclared object diagnostic', async () => {
+		// GIVEN
+		const { objectDeclarations } = await open('(define (problem delivery) (:domain logistics))');
+
+		// WHEN
+		const undeclaredObject = objectDeclarations.getUndeclaredObject('Undeclared object: truck2. Expected type: truck');
+
+		// THEN
+		assert.deepStrictEqual(undeclaredObject, { objectName: 'truck2', type: 'truck' });
+	});
+
+	test('declares object in existing objects section', async () => {
+		// GIVEN
+		const { doc, objectDeclarations } = await open(`(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot)
+)`);
+
+		// WHEN
+		const textAfter = await apply(doc, objectDeclarations.createDeclarationEdit(doc, 'truck2', 'truck'));
+
+		// THEN the trailing untyped object remains of the `object` type
+		assert.strictEqual(textAfter, `(define (problem delivery) (:domain logistics)
+	(:objects truck2 - truck truck1 - truck depot)
+)`);
+	});
+
+	test('declares object in new objects section', async () => {
+		// GIVEN
+		const { doc, objectDeclarations } = await open(`(define (problem delivery) (:domain logistics)
+	(:init)
+)`);
+
+		// WHEN
+		const textAfter = await apply(doc, objectDeclarations.createDeclarationEdit(doc, 'truck2', 'truck'));
+
+		// THEN
+		assert.ok(/^\(define \(problem delivery\) \(:domain logistics\)\n\s+\(:objects truck2 - truck\)\n\t\(:init\)/.test(textAfter), textAfter);
+	});
+
+	test('removes duplicate object sharing the type with other objects', async () => {
+		// GIVEN
+		const { doc, objectDeclarations } = await open(`(define (problem delivery) (:domain logistics)
+	(:objects truck1 truck1 - truck depot - location)
+)`);
+
+		// WHEN
+		const textAfter = await apply(doc, objectDeclarations.createRemovalEdit(doc, diagnosticAt(doc, 'truck1', 2)));
+
+		// THEN
+		assert.strictEqual(textAfter, `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot - location)
+)`);
+	});
+
+	test('removes duplicate object incl. its type', async () => {
+		// GIVEN
+		const { doc, objectDeclarations } = await open(`(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck truck1 - vehicle depot - location)
+)`);
+
+		// WHEN
+		const textAfter = await apply(doc, objectDeclarations.createRemovalEdit(doc, diagnosticAt(doc, 'truck1', 2)));
+
+		// THEN
+		assert.strictEqual(textAfter, `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot - location)
+)`);
+	});
+
+	test('does not remove anything, if the diagnostic is not at an object declaration', async () => {
+		// GIVEN
+		const { doc, objectDeclarations } = await open(`(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck)
+	(:init (truck-at truck1 depot))
+)`);
+
+		// WHEN
+		const edit = objectDeclarations.createRemovalEdit(doc, diagnosticAt(doc, 'truck1', 2));
+
+		// THEN
+		assert.strictEqual(edit, undefined);
+	});
+});
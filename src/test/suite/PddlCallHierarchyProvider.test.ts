@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { PddlCallHierarchyProvider } from '../../symbols/PddlCallHierarchyProvider';
+
+suite('PDDL call hierarchy Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+	let provider: PddlCallHierarchyProvider;
+
+	const domainText = `(define (domain logistics)
+	(:types truck location)
+	(:predicates (truck-at ?t - truck ?l - location))
+	(:functions (fuel ?t - truck))
+	(:action drive :parameters (?t - truck ?from ?to - location)
+		:precondition (and (truck-at ?t ?from) (> (fuel ?t) 1))
+		:effect (and (not (truck-at ?t ?from)) (truck-at ?t ?to) (decrease (fuel ?t) 1)))
+	(:process leak :parameters (?t - truck)
+		:precondition (> (fuel ?t) 0)
+		:effect (decrease (fuel ?t) (* #t 0.1)))
+)`;
+
+	before(async () => {
+		tokenSource = new vscode.CancellationTokenSource();
+		const pddlWorkspace = new PddlWorkspace(1e-3);
+		provider = new PddlCallHierarchyProvider(CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+
+		await pddlWorkspace.upsertAndParseFile(URI.file('/call-hierarchy/domain.pddl'), PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText));
+		const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot - location)
+	(:init (truck-at truck1 depot) (= (fuel truck1) 10))
+	(:goal (truck-at truck1 depot))
+	(:metric minimize (fuel truck1))
+)`;
+		await pddlWorkspace.upsertAndParseFile(URI.file('/call-hierarchy/problem.pddl'), PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText));
+	});
+
+	function createItem(name: string, kind: vscode.SymbolKind): vscode.CallHierarchyItem {
+		const range = new vscode.Range(0, 0, 0, 0);
+		return new vscode.CallHierarchyItem(kind, name, '', vscode.Uri.file('/call-hierarchy/domain.pddl'), range, range);
+	}
+
+	const summarize = (items: vscode.CallHierarchyItem[], ranges: vscode.Range[][]): string[] =>
+		items.map((item, index) => `${item.name}:${vscode.SymbolKind[item.kind]}:${ranges[index].length}`);
+
+	test('incoming calls are the writers', () => {
+		// GIVEN
+		const fuelItem = createItem('fuel', vscode.SymbolKind.Function);
+
+		// WHEN
+		const calls = provider.provideCallHierarchyIncomingCalls(fuelItem, tokenSource.token) ?? [];
+
+		// THEN
+		assert.deepStrictEqual(summarize(calls.map(c => c.from), calls.map(c => c.fromRanges)),
+			['drive:Module:1', 'leak:Struct:1', 'delivery:File:1']);
+		assert.strictEqual(calls[2].from.detail, 'init');
+	});
+
+	test('outgoing calls are the readers', () => {
+		// GIVEN
+		const truckAtItem = createItem('truck-at', vscode.SymbolKind.Boolean);
+
+		// WHEN
+		const calls = provider.provideCallHierarchyOutgoingCalls(truckAtItem, tokenSource.token) ?? [];
+
+		// THEN
+		assert.deepStrictEqual(calls.map(c => `${c.to.name}:${c.to.detail}`), ['drive:condition', 'delivery:goal']);
+	});
+
+	test('actions are not expanded', () => {
+		// GIVEN
+		const actionItem = createItem('drive', vscode.SymbolKind.Module);
+
+		// WHEN
+		const calls = provider.provideCallHierarchyIncomingCalls(actionItem, tokenSource.token);
+
+		// THEN
+		assert.strictEqual(calls, undefined);
+	});
+});
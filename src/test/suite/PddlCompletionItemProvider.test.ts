@@ -27,7 +27,7 @@ suite('PDDL Completion Item Provider', () => {
 
         // THEN
         assert.strictEqual(items.length, 2, 'there should be N completion items');
-        items.forEach(item => assert.ok(item.label.startsWith('(define')));
+        items.forEach(item => assert.ok(getLabel(item).startsWith('(define')));
     });
 
     test('should offer to declare pre-parsing meta data instruction', async () => {
@@ -41,7 +41,7 @@ suite('PDDL Completion Item Provider', () => {
 
         // THEN
         assert.strictEqual(items.length, 3, 'there should be N completion items');
-        items.forEach(item => assert.ok(item.label.startsWith(';;')));
+        items.forEach(item => assert.ok(getLabel(item).startsWith(';;')));
     });
 
     /* Domain keywords */
@@ -459,6 +459,10 @@ function assertSnippetIncludes(items: vscode.CompletionItem[], filterText: strin
     assert.ok(snippet.value.includes(needle), `snippet '${snippet.value}' should include ${needle}`);
 }
 
+function getLabel(item: vscode.CompletionItem): string {
+    return typeof item.label === 'string' ? item.label : item.label.label;
+}
+
 async function testProvider(inputTextHead: string, ch: string, inputTextTail: string, context: vscode.CompletionContext): Promise<vscode.CompletionItem[]> {
     const initialText = inputTextHead + ch + inputTextTail;
 
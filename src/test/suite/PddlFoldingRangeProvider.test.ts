@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { PddlFoldingRangeProvider } from '../../symbols/PddlFoldingRangeProvider';
+
+suite('PDDL folding Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+
+	before(() => {
+		tokenSource = new vscode.CancellationTokenSource();
+	});
+
+	async function fold(content: string): Promise<string[]> {
+		const doc = await vscode.workspace.openTextDocument({ language: 'pddl-do-not-load-extension', content });
+		return (new PddlFoldingRangeProvider().provideFoldingRanges(doc, {}, tokenSource.token) ?? [])
+			.map(r => `${r.start}-${r.end}${r.kind ? ':' + vscode.FoldingRangeKind[r.kind] : ''}`);
+	}
+
+	test('folds multi-line brackets regardless of indentation', async () => {
+		// GIVEN
+		const content = `(define (domain d)
+(:action a :parameters ()
+:precondition (and (p)
+(q))
+:effect (r))
+(:action b :parameters () :effect (r))
+)`;
+
+		// WHEN
+		const ranges = await fold(content);
+
+		// THEN
+		assert.deepStrictEqual(ranges, ['0-5', '1-4', '2-3']);
+	});
+
+	test('folds comment blocks and regions', async () => {
+		// GIVEN
+		const content = `; line 1
+; line 2
+(define (problem p)
+;;( objects
+(:objects a b)
+;;)
+)`;
+
+		// WHEN
+		const ranges = await fold(content);
+
+		// THEN
+		assert.deepStrictEqual(ranges, ['2-5', '0-1:Comment', '3-5:Region']);
+	});
+});
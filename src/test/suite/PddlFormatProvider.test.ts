@@ -4,7 +4,7 @@ import { before } from 'mocha';
 // You can import and use all API from the 'vscode' module
 // as well as import your extension to test it
 import * as vscode from 'vscode';
-import { PddlFormatProvider } from '../../formatting/PddlFormatProvider';
+import { PddlFormatProvider, PddlFormattingStyle } from '../../formatting/PddlFormatProvider';
 
 let formatProvider: PddlFormatProvider;
 
@@ -16,7 +16,7 @@ suite('Domain formatter Test Suite', () => {
         formatProvider = new PddlFormatProvider();
     });
 
-    test.skip('Indents requirements', async () => {
+    test('Indents requirements', async () => {
         // GIVEN
         const inputText = `(define (domain domain_name)
 (:requirements                                          :strips)
@@ -29,12 +29,12 @@ suite('Domain formatter Test Suite', () => {
         await testFormatter(inputText, expectedText, { insertSpaces: true, tabSize: 4 });
     });
 
-    test.skip('Formats types', async () => {
+    test('Formats types', async () => {
         // GIVEN
         const inputText = `(define (domain domain_name)(:types child11 child12))`;
 
         const expectedText = `(define (domain domain_name)
-    (:types 
+    (:types
         child11 child12
     )
 )`;
@@ -42,12 +42,12 @@ suite('Domain formatter Test Suite', () => {
         await testFormatter(inputText, expectedText, { insertSpaces: true, tabSize: 4 });
     });
 
-    test.skip('Formats types with inheritance', async () => {
+    test('Formats types with inheritance', async () => {
         // GIVEN
         const inputText = `(define (domain domain_name)(:types child11 child12 - parent1 child21 child22 - parent2))`;
 
         const expectedText = `(define (domain domain_name)
-    (:types 
+    (:types
         child11 child12 - parent1
         child21 child22 - parent2
     )
@@ -56,24 +56,132 @@ suite('Domain formatter Test Suite', () => {
         await testFormatter(inputText, expectedText, { insertSpaces: true, tabSize: 4 });
     });
 
-    test.skip('Removes trailing whitespace', async () => {
-        assert.fail('Not implemented yet');
+    test('Removes trailing whitespace', async () => {
+        // GIVEN
+        const inputText = '(define (domain domain_name)   \n\n\n\n   (:predicates (p)   ; comment   \n  (q))    \n)';
+
+        const expectedText = `(define (domain domain_name)
+
+    (:predicates
+        (p) ; comment
+        (q)
+    )
+)`;
+
+        await testFormatter(inputText, expectedText, { insertSpaces: true, tabSize: 4 });
+    });
+
+    test('Formats action', async () => {
+        // GIVEN
+        const inputText = `(define (domain d) (:action a :parameters (?x - t) :precondition (p ?x) :effect (and (q ?x) (not (p ?x)))))`;
+
+        const expectedText = `(define (domain d)
+\t(:action a
+\t\t:parameters (?x - t)
+\t\t:precondition (p ?x)
+\t\t:effect (and
+\t\t\t(q ?x)
+\t\t\t(not (p ?x))
+\t\t)
+\t)
+)`;
+
+        await testFormatter(inputText, expectedText, { insertSpaces: false, tabSize: 4 });
+    });
+
+    test('Formats init and goal', async () => {
+        // GIVEN
+        const inputText = `(define (problem p) (:domain d) (:init (p a) (p b)) (:goal (and (q a) (q b))))`;
+
+        const expectedText = `(define (problem p)
+    (:domain d)
+    (:init
+        (p a)
+        (p b)
+    )
+    (:goal (and
+        (q a)
+        (q b)
+    ))
+)`;
+
+        await testFormatter(inputText, expectedText, { insertSpaces: true, tabSize: 4 });
+    });
+
+    test('Wraps init atoms', async () => {
+        // GIVEN
+        const inputText = `(define (problem p) (:domain d) (:init (p a) (p b) (q a) (q b) (r a) (r b)))`;
+
+        const expectedText = `(define (problem p)
+  (:domain d)
+  (:init
+    (p a) (p b) (q a) (q b)
+    (r a) (r b)
+  )
+)`;
+
+        await testFormatter(inputText, expectedText, { insertSpaces: true, tabSize: 4 }, { indentWidth: 2, maxLineWidth: 30, oneAtomPerLineInInit: false });
+    });
+
+    test('Changes keyword case', async () => {
+        // GIVEN
+        const inputText = `(define (domain d) (:REQUIREMENTS :STRIPS :Typing))`;
+
+        const expectedText = `(define (domain d)
+    (:requirements :strips :typing)
+)`;
+
+        await testFormatter(inputText, expectedText, { insertSpaces: true, tabSize: 4 }, { keywordCase: 'lowercase' });
+    });
+
+    test('Does not format unbalanced brackets', async () => {
+        // GIVEN
+        const inputText = `(define (domain d) (:predicates (p)`;
+
+        await testFormatter(inputText, inputText, { insertSpaces: true, tabSize: 4 });
+    });
+
+    test('Formats selected section', async () => {
+        // GIVEN
+        const inputText = `(define (domain d)
+(:predicates (p)     (q))
+(:action a :parameters () :effect (p)))`;
+
+        const expectedText = `(define (domain d)
+(:predicates (p)     (q))
+    (:action a
+        :parameters ()
+        :effect (p)
+    ))`;
+
+        const doc = await vscode.workspace.openTextDocument({ language: 'pddl-do-not-load-extension', content: inputText });
+        const editor = await vscode.window.showTextDocument(doc);
+        const actionPosition = doc.positionAt(inputText.indexOf(':action'));
+
+        // WHEN
+        const edits = await new PddlFormatProvider().provideDocumentRangeFormattingEdits(doc, new vscode.Range(actionPosition, actionPosition.translate(0, 1)),
+            { insertSpaces: true, tabSize: 4 }, new vscode.CancellationTokenSource().token);
+        await editor.edit(builder => edits?.forEach(edit => reBuild(builder, edit)));
+
+        // THEN
+        assert.strictEqual(doc.getText(), expectedText, "only the action should be formatted");
     });
 });
 
-async function testFormatter(initialText: string, expectedText: string, options: vscode.FormattingOptions): Promise<void> {
+async function testFormatter(initialText: string, expectedText: string, options: vscode.FormattingOptions, style?: Partial<PddlFormattingStyle>): Promise<void> {
     // we do not want the extension to actually load (it takes too much time), so use a fake language
     const doc = await vscode.workspace.openTextDocument({ language: 'pddl-do-not-load-extension', content: initialText });
     const editor = await vscode.window.showTextDocument(doc);
-    const startSelectionBefore = editor.selection.start;
 
     // move the cursor into the text
     await vscode.commands.executeCommand("cursorMove", { to: 'right' });
+    const startSelectionBefore = editor.selection.start;
 
     // WHEN
-    const edits = await formatProvider.provideDocumentFormattingEdits(doc, options, new vscode.CancellationTokenSource().token);
+    const provider = style ? new PddlFormatProvider(style) : formatProvider;
+    const edits = await provider.provideDocumentFormattingEdits(doc, options, new vscode.CancellationTokenSource().token);
     if (edits) {
-        await Promise.all(edits.map(edit => editor.edit(builder => reBuild(builder, edit))));
+        await editor.edit(builder => edits.forEach(edit => reBuild(builder, edit)));
     }
     else {
         assert.fail('no edits returned');
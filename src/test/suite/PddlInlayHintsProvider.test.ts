@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { PddlInlayHintsProvider } from '../../symbols/PddlInlayHintsProvider';
+
+suite('PDDL inlay hints Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+	let provider: PddlInlayHintsProvider;
+	let folder: string;
+
+	const domainText = `(define (domain logistics)
+	(:types truck location)
+	(:predicates (truck-at ?t - truck ?l - location) (at ?t - truck ?l - location))
+	(:functions (fuel ?t - truck))
+	(:action drive :parameters (?t - truck ?from ?to - location))
+)`;
+
+	const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot store - location)
+	(:init (truck-at truck1 depot) (= (fuel truck1) 10))
+	(:goal (forall (?t - truck) (truck-at ?t store)))
+)`;
+
+	const atProblemText = `(define (problem delivery-at) (:domain logistics)
+	(:objects truck1 - truck depot store - location)
+	(:init (at truck1 depot) (at 10 (at truck1 store)))
+	(:goal (at truck1 store))
+)`;
+
+	const planText = `;;!domain: logistics
+;;!problem: delivery
+
+0.001: (drive truck1 depot store) [1]
+`;
+
+	async function addFile(fileName: string, language: PddlLanguage, text: string, pddlWorkspace: PddlWorkspace): Promise<void> {
+		// the provider parses the opened documents, so they must be files with the PDDL and plan file extensions
+		const filePath = path.join(folder, fileName);
+		fs.writeFileSync(filePath, text);
+		await pddlWorkspace.upsertAndParseFile(URI.file(filePath), language, 1, text, new SimpleDocumentPositionResolver(text));
+	}
+
+	before(async () => {
+		tokenSource = new vscode.CancellationTokenSource();
+		const pddlWorkspace = new PddlWorkspace(1e-3);
+		const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+		provider = new PddlInlayHintsProvider(context, CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+
+		folder = fs.mkdtempSync(path.join(os.tmpdir(), 'inlay-hints-'));
+		await addFile('domain.pddl', PddlLanguage.PDDL, domainText, pddlWorkspace);
+		await addFile('problem.pddl', PddlLanguage.PDDL, problemText, pddlWorkspace);
+		await addFile('problem-at.pddl', PddlLanguage.PDDL, atProblemText, pddlWorkspace);
+		await addFile('problem.plan', PddlLanguage.PLAN, planText, pddlWorkspace);
+	});
+
+	suiteTeardown(() => {
+		fs.readdirSync(folder).forEach(fileName => fs.unlinkSync(path.join(folder, fileName)));
+		fs.rmdirSync(folder);
+	});
+
+	/**
+	 * @returns hint labels preceded by the text they annotate e.g. `?t:truck1`
+	 */
+	async function provideHints(fileName: string): Promise<string[] | undefined> {
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(folder, fileName)));
+		const fullRange = new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length));
+		const hints = await provider.provideInlayHints(doc, fullRange, tokenSource.token);
+		return hints?.map(hint => hint.label + doc.getText(doc.getWordRangeAtPosition(hint.position, /[\w-]+/)));
+	}
+
+	test('annotates the init and goal atoms in problem files', async () => {
+		// GIVEN the problem declares the initial state and goal
+
+		// WHEN
+		const hints = await provideHints('problem.pddl');
+
+		// THEN the goal parameter `?t` matching the parameter name is not annotated
+		assert.deepStrictEqual(hints, ['?t:truck1', '?l:depot', '?t:truck1', '?l:store']);
+	});
+
+	test('annotates predicate named `at`, but not the timed initial literal', async () => {
+		// GIVEN the `(at` of the predicate is tokenized as an operator, same as the timed initial literal `(at 10`
+
+		// WHEN
+		const hints = await provideHints('problem-at.pddl');
+
+		// THEN
+		assert.deepStrictEqual(hints, ['?t:truck1', '?l:depot', '?t:truck1', '?l:store', '?t:truck1', '?l:store']);
+	});
+
+	test('annotates the action arguments in plan files', async () => {
+		// GIVEN the plan is associated to the problem and domain via the meta-data comments
+
+		// WHEN
+		const hints = await provideHints('problem.plan');
+
+		// THEN
+		assert.deepStrictEqual(hints, ['?t:truck1', '?from:depot', '?to:store']);
+	});
+
+	test('does not annotate domain files', async () => {
+		// GIVEN the domain declares the predicates and actions
+
+		// WHEN
+		const hints = await provideHints('domain.pddl');
+
+		// THEN
+		assert.strictEqual(hints, undefined);
+	});
+
+	test('stops listening to the workspace, when disposed', () => {
+		// GIVEN
+		const otherWorkspace = new PddlWorkspace(1e-3);
+		const listenerCount = otherWorkspace.listenerCount(PddlWorkspace.UPDATED);
+		const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+		const otherProvider = new PddlInlayHintsProvider(context, CodePddlWorkspace.getInstanceForTestingOnly(otherWorkspace));
+		assert.strictEqual(otherWorkspace.listenerCount(PddlWorkspace.UPDATED), listenerCount + 1);
+
+		// WHEN
+		otherProvider.dispose();
+
+		// THEN
+		assert.strictEqual(otherWorkspace.listenerCount(PddlWorkspace.UPDATED), listenerCount);
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { PddlSelectionRangeProvider } from '../../symbols/PddlSelectionRangeProvider';
+
+suite('PDDL selection range Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+
+	before(() => {
+		tokenSource = new vscode.CancellationTokenSource();
+	});
+
+	test('expands selection along the syntax tree', async () => {
+		// GIVEN
+		const content = `(define (domain d)
+	(:action a
+		:parameters (?x)
+		:effect (and (p ?x) (q)))
+)`;
+		const doc = await vscode.workspace.openTextDocument({ language: 'pddl-do-not-load-extension', content });
+		const position = doc.positionAt(content.indexOf('?x)') + 1);
+
+		// WHEN
+		const selectionRanges = new PddlSelectionRangeProvider().provideSelectionRanges(doc, [position], tokenSource.token) ?? [];
+
+		// THEN
+		const selectedTexts: string[] = [];
+		for (let selection: vscode.SelectionRange | undefined = selectionRanges[0]; selection; selection = selection.parent) {
+			selectedTexts.push(doc.getText(selection.range));
+		}
+		assert.deepStrictEqual(selectedTexts.slice(0, 4), ['?x', '(?x)', ':parameters (?x)', `:action a
+		:parameters (?x)
+		:effect (and (p ?x) (q))`]);
+		assert.strictEqual(selectedTexts[selectedTexts.length - 1], content, 'outermost selection should be the whole document');
+	});
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { PddlSemanticTokensProvider, PDDL_SEMANTIC_TOKENS_LEGEND } from '../../symbols/PddlSemanticTokensProvider';
+
+suite('PDDL semantic tokens Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+	let folder: string;
+
+	before(async () => {
+		tokenSource = new vscode.CancellationTokenSource();
+		folder = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-tokens-'));
+	});
+
+	suiteTeardown(() => {
+		fs.readdirSync(folder).forEach(fileName => fs.unlinkSync(path.join(folder, fileName)));
+		fs.rmdirSync(folder);
+	});
+
+	/** Decodes the semantic tokens to `name:type` strings, where declarations are marked by `*`. */
+	async function getTokens(text: string): Promise<string[]> {
+		// we do not want the extension to actually load (it takes too much time), so use a fake language
+		const doc = await vscode.workspace.openTextDocument({ language: 'pddl-do-not-load-extension', content: text });
+		return decodeTokens(doc, new PddlWorkspace(1e-3));
+	}
+
+	async function decodeTokens(doc: vscode.TextDocument, pddlWorkspace: PddlWorkspace): Promise<string[]> {
+		const provider = new PddlSemanticTokensProvider(CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+
+		const tokens = await provider.provideDocumentSemanticTokens(doc, tokenSource.token);
+		assert.ok(tokens, 'tokens should be returned');
+
+		const decoded: string[] = [];
+		let line = 0;
+		let character = 0;
+		for (let i = 0; i < tokens.data.length; i += 5) {
+			const [deltaLine, deltaStart, length, tokenType, modifiers] = tokens.data.slice(i, i + 5);
+			character = deltaLine > 0 ? deltaStart : character + deltaStart;
+			line += deltaLine;
+			const name = doc.getText(new vscode.Range(line, character, line, character + length));
+			decoded.push(`${name}:${PDDL_SEMANTIC_TOKENS_LEGEND.tokenTypes[tokenType]}${modifiers ? '*' : ''}`);
+		}
+		provider.dispose();
+		return decoded;
+	}
+
+	async function addFile(fileName: string, text: string, pddlWorkspace: PddlWorkspace): Promise<string> {
+		// problem files are only associated with domain files in the same folder
+		const filePath = path.join(folder, fileName);
+		fs.writeFileSync(filePath, text);
+		await pddlWorkspace.upsertAndParseFile(URI.file(filePath), PddlLanguage.PDDL, 1, text, new SimpleDocumentPositionResolver(text));
+		return filePath;
+	}
+
+	test('classifies domain declarations and references', async () => {
+		// GIVEN
+		const domainText = `(define (domain d)
+	(:types robot location)
+	(:constants depot - location)
+	(:predicates (at ?r - robot ?l - location))
+	(:functions (cost))
+	(:action move
+		:parameters (?r - robot)
+		:precondition (unknown ?r)
+		:effect (and (at ?r depot) (increase (cost) 1))
+	)
+)`;
+
+		// WHEN
+		const tokens = await getTokens(domainText);
+
+		// THEN
+		assert.deepStrictEqual(tokens, [
+			'robot:type*', 'location:type*',
+			'depot:constant*', 'location:type',
+			'at:predicate*', '?r:parameter', 'robot:type', '?l:parameter', 'location:type',
+			'cost:numericFunction*',
+			'move:action*',
+			'?r:parameter', 'robot:type',
+			'unknown:undeclared', '?r:parameter',
+			'at:predicate', '?r:parameter', 'depot:constant', 'cost:numericFunction'
+		]);
+	});
+
+	test('classifies problem objects using the domain declarations', async () => {
+		// GIVEN
+		const pddlWorkspace = new PddlWorkspace(1e-3);
+		await addFile('domain.pddl', `(define (domain d)
+	(:types robot location)
+	(:constants depot - location)
+	(:predicates (robot-at ?r - robot ?l - location))
+)`, pddlWorkspace);
+		const problemPath = await addFile('problem.pddl', `(define (problem p) (:domain d)
+	(:objects r1 - robot store - location)
+	(:init (robot-at r1 depot) (robot-at r2 store))
+)`, pddlWorkspace);
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(problemPath));
+
+		// WHEN
+		const tokens = await decodeTokens(doc, pddlWorkspace);
+
+		// THEN
+		assert.deepStrictEqual(tokens, [
+			'r1:object*', 'robot:type', 'store:object*', 'location:type',
+			'robot-at:predicate', 'r1:object', 'depot:constant',
+			'robot-at:predicate', 'r2:undeclared', 'store:object'
+		]);
+	});
+
+	test('stops listening to the workspace, when disposed', () => {
+		// GIVEN
+		const pddlWorkspace = new PddlWorkspace(1e-3);
+		const listenerCount = pddlWorkspace.listenerCount(PddlWorkspace.UPDATED);
+		const provider = new PddlSemanticTokensProvider(CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+		assert.strictEqual(pddlWorkspace.listenerCount(PddlWorkspace.UPDATED), listenerCount + 1);
+
+		// WHEN
+		provider.dispose();
+
+		// THEN
+		assert.strictEqual(pddlWorkspace.listenerCount(PddlWorkspace.UPDATED), listenerCount);
+	});
+});
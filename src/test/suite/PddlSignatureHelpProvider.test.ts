@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { PddlSignatureHelpProvider } from '../../completion/PddlSignatureHelpProvider';
+
+suite('PDDL signature help Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+	let provider: PddlSignatureHelpProvider;
+	let folder: string;
+
+	const domainText = `(define (domain logistics)
+	(:types truck location)
+	(:predicates (truck-at ?t - truck ?l - location) (at ?t - truck ?l - location))
+	(:functions (fuel ?t - truck))
+	(:action drive :parameters (?t - truck ?from ?to - location)
+		:precondition (and (truck-at ?t ?from) (> (fuel ?t) 1))
+		:effect (and (not (truck-at ?t ?from)) (truck-at ?t ?to)))
+)`;
+
+	const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot store - location)
+	(:init (truck-at truck1 depot) (at truck1 depot) (= (fuel truck1) 10))
+	(:goal (truck-at truck1 store))
+)`;
+
+	const planText = `;;!domain: logistics
+;;!problem: delivery
+
+0.001: (drive truck1 depot store)
+`;
+
+	async function addFile(fileName: string, language: PddlLanguage, text: string, pddlWorkspace: PddlWorkspace): Promise<void> {
+		// the provider parses the opened documents, so they must be files with the PDDL, plan and happenings file extensions
+		const filePath = path.join(folder, fileName);
+		fs.writeFileSync(filePath, text);
+		await pddlWorkspace.upsertAndParseFile(URI.file(filePath), language, 1, text, new SimpleDocumentPositionResolver(text));
+	}
+
+	before(async () => {
+		tokenSource = new vscode.CancellationTokenSource();
+		const pddlWorkspace = new PddlWorkspace(1e-3);
+		provider = new PddlSignatureHelpProvider(CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+
+		folder = fs.mkdtempSync(path.join(os.tmpdir(), 'signature-help-'));
+		await addFile('domain.pddl', PddlLanguage.PDDL, domainText, pddlWorkspace);
+		await addFile('problem.pddl', PddlLanguage.PDDL, problemText, pddlWorkspace);
+		await addFile('problem.plan', PddlLanguage.PLAN, planText, pddlWorkspace);
+	});
+
+	suiteTeardown(() => {
+		fs.readdirSync(folder).forEach(fileName => fs.unlinkSync(path.join(folder, fileName)));
+		fs.rmdirSync(folder);
+	});
+
+	/**
+	 * @returns signature label and the label of the active parameter
+	 */
+	async function signatureHelpAfter(fileName: string, text: string, textBeforeCursor: string): Promise<string[] | undefined> {
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(folder, fileName)));
+		const position = doc.positionAt(text.indexOf(textBeforeCursor) + textBeforeCursor.length);
+		const signatureHelp = await provider.provideSignatureHelp(doc, position, tokenSource.token);
+		if (!signatureHelp) { return undefined; }
+
+		const signature = signatureHelp.signatures[signatureHelp.activeSignature];
+		const parameterLabel = signature.parameters[signatureHelp.activeParameter].label;
+		assert.ok(Array.isArray(parameterLabel), 'parameter label should be the offsets within the signature label');
+		return [signature.label, signature.label.substring(parameterLabel[0], parameterLabel[1])];
+	}
+
+	test('highlights the predicate parameter in the domain', async () => {
+		// GIVEN the cursor is at the first argument of the precondition
+
+		// WHEN
+		const signature = await signatureHelpAfter('domain.pddl', domainText, ':precondition (and (truck-at ');
+
+		// THEN
+		assert.deepStrictEqual(signature, ['(truck-at ?t - truck ?l - location)', '?t - truck']);
+	});
+
+	test('highlights the predicate parameter in the problem', async () => {
+		// GIVEN the cursor is at the second argument of the initial state
+
+		// WHEN
+		const signature = await signatureHelpAfter('problem.pddl', problemText, '(:init (truck-at truck1 ');
+
+		// THEN
+		assert.deepStrictEqual(signature, ['(truck-at ?t - truck ?l - location)', '?l - location']);
+	});
+
+	test('highlights the parameter of predicate named `at`', async () => {
+		// GIVEN the `(at` of the predicate is tokenized as an operator
+
+		// WHEN
+		const signature = await signatureHelpAfter('problem.pddl', problemText, '(at truck1 ');
+
+		// THEN
+		assert.deepStrictEqual(signature, ['(at ?t - truck ?l - location)', '?l - location']);
+	});
+
+	test('highlights the function parameter in the problem', async () => {
+		// GIVEN the cursor is inside the function nested in the `=` operator
+
+		// WHEN
+		const signature = await signatureHelpAfter('problem.pddl', problemText, '(= (fuel ');
+
+		// THEN
+		assert.deepStrictEqual(signature, ['(fuel ?t - truck)', '?t - truck']);
+	});
+
+	test('highlights the action parameter in the plan', async () => {
+		// GIVEN the cursor is at the third action argument
+
+		// WHEN
+		const signature = await signatureHelpAfter('problem.plan', planText, '(drive truck1 depot ');
+
+		// THEN
+		assert.deepStrictEqual(signature, ['(drive ?t - truck ?from - location ?to - location)', '?to - location']);
+	});
+
+	test('does not help with operators', async () => {
+		// GIVEN the cursor is in the `and` arguments
+
+		// WHEN
+		const signature = await signatureHelpAfter('domain.pddl', domainText, ':effect (and ');
+
+		// THEN
+		assert.strictEqual(signature, undefined);
+	});
+});
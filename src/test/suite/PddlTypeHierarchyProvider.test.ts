@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { PddlTypeHierarchyProvider } from '../../symbols/PddlTypeHierarchyProvider';
+
+suite('PDDL type hierarchy Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+	let pddlWorkspace: PddlWorkspace;
+	let provider: PddlTypeHierarchyProvider;
+	let domainPath: string;
+
+	const domainText = `(define (domain logistics)
+	(:types truck plane - vehicle
+		vehicle location - object
+		amphibian - (either truck boat))
+	(:constants hq - location)
+)`;
+
+	before(async () => {
+		tokenSource = new vscode.CancellationTokenSource();
+		pddlWorkspace = new PddlWorkspace(1e-3);
+		provider = new PddlTypeHierarchyProvider(CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+
+		// the provider parses the opened document, so it must be a .pddl file in the same folder as the problem
+		const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'type-hierarchy-'));
+		domainPath = path.join(folder, 'domain.pddl');
+		fs.writeFileSync(domainPath, domainText);
+		await pddlWorkspace.upsertAndParseFile(URI.file(domainPath), PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText));
+		const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot - location)
+)`;
+		await pddlWorkspace.upsertAndParseFile(URI.file(path.join(folder, 'problem.pddl')), PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText));
+	});
+
+	async function prepare(word: string): Promise<vscode.TypeHierarchyItem> {
+		const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(domainPath));
+		const item = await provider.prepareTypeHierarchy(doc, doc.positionAt(domainText.indexOf(word) + 1), tokenSource.token);
+		assert.ok(item, `type hierarchy item for ${word}`);
+		return item;
+	}
+
+	const names = (items: vscode.TypeHierarchyItem[] | undefined): string[] => (items ?? []).map(i => `${i.name}:${vscode.SymbolKind[i.kind]}`).sort();
+
+	test('provides supertypes', async () => {
+		// GIVEN
+		const truck = await prepare('truck');
+
+		// WHEN
+		const supertypes = provider.provideTypeHierarchySupertypes(truck, tokenSource.token);
+
+		// THEN
+		assert.deepStrictEqual(names(supertypes), ['vehicle:Class']);
+	});
+
+	test('provides either types as supertypes', async () => {
+		// GIVEN
+		const amphibian = await prepare('amphibian');
+
+		// WHEN
+		const supertypes = provider.provideTypeHierarchySupertypes(amphibian, tokenSource.token);
+
+		// THEN
+		assert.deepStrictEqual(names(supertypes), ['boat:Class', 'truck:Class']);
+	});
+
+	test('provides subtypes, constants and objects', async () => {
+		// GIVEN
+		const location = await prepare('location');
+		const truck = await prepare('truck');
+
+		// WHEN
+		const locationSubtypes = provider.provideTypeHierarchySubtypes(location, tokenSource.token);
+		const truckSubtypes = provider.provideTypeHierarchySubtypes(truck, tokenSource.token);
+
+		// THEN
+		assert.deepStrictEqual(names(locationSubtypes), ['depot:Object', 'hq:Constant']);
+		assert.deepStrictEqual(names(truckSubtypes), ['amphibian:Class', 'truck1:Object']);
+	});
+});
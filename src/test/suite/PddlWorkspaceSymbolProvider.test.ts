@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { PddlWorkspaceSymbolProvider } from '../../symbols/PddlWorkspaceSymbolProvider';
+
+suite('PDDL workspace symbols Test Suite', () => {
+
+	let tokenSource: vscode.CancellationTokenSource;
+	let pddlWorkspace: PddlWorkspace;
+	let provider: PddlWorkspaceSymbolProvider;
+
+	async function upsert(fileName: string, version: number, text: string): Promise<void> {
+		await pddlWorkspace.upsertAndParseFile(URI.file('/workspace-symbols/' + fileName), PddlLanguage.PDDL, version, text, new SimpleDocumentPositionResolver(text));
+	}
+
+	before(async () => {
+		tokenSource = new vscode.CancellationTokenSource();
+		pddlWorkspace = new PddlWorkspace(1e-3);
+		provider = new PddlWorkspaceSymbolProvider(CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+
+		await upsert('domain.pddl', 1, `(define (domain logistics)
+	(:types truck location)
+	(:predicates (truck-at ?t - truck ?l - location))
+	(:functions (fuel ?t - truck))
+	(:action drive-truck :parameters (?t - truck))
+)`);
+		await upsert('problem.pddl', 1, `(define (problem delivery) (:domain logistics)
+	(:objects truck1 truck2 - truck depot - location)
+)`);
+	});
+
+	test('finds domain and problem symbols with their container', async () => {
+		// GIVEN the domain and problem are indexed
+
+		// WHEN
+		const find = (query: string): string[] => (provider.provideWorkspaceSymbols(query, tokenSource.token) ?? [])
+			.map(s => `${s.name}@${s.containerName}:${vscode.SymbolKind[s.kind]}`);
+
+		// THEN
+		assert.deepStrictEqual(find('drive'), ['drive-truck@logistics:Module']);
+		assert.deepStrictEqual(find('tr1'), ['truck1@delivery:Object']);
+		assert.ok(find('location').includes('location@logistics:Class'), 'type should be found');
+		assert.ok(find('fuel').some(symbol => symbol.endsWith('@logistics:Function')), 'function should be found');
+	});
+
+	test('re-indexes updated file', async () => {
+		// GIVEN
+		await upsert('problem.pddl', 2, `(define (problem delivery) (:domain logistics)
+	(:objects van1 - truck)
+)`);
+
+		// WHEN
+		const removedSymbols = provider.provideWorkspaceSymbols('tr1', tokenSource.token) ?? [];
+		const addedSymbols = provider.provideWorkspaceSymbols('van', tokenSource.token) ?? [];
+
+		// THEN
+		assert.deepStrictEqual(removedSymbols.map(s => s.name), [], 'removed object should not be found');
+		assert.deepStrictEqual(addedSymbols.map(s => s.name), ['van1']);
+	});
+
+	test('stops listening to the workspace, when disposed', () => {
+		// GIVEN
+		const otherWorkspace = new PddlWorkspace(1e-3);
+		const updatedListenerCount = otherWorkspace.listenerCount(PddlWorkspace.UPDATED);
+		const removingListenerCount = otherWorkspace.listenerCount(PddlWorkspace.REMOVING);
+		const otherProvider = new PddlWorkspaceSymbolProvider(CodePddlWorkspace.getInstanceForTestingOnly(otherWorkspace));
+
+		// WHEN
+		otherProvider.dispose();
+
+		// THEN
+		assert.strictEqual(otherWorkspace.listenerCount(PddlWorkspace.UPDATED), updatedListenerCount);
+		assert.strictEqual(otherWorkspace.listenerCount(PddlWorkspace.REMOVING), removingListenerCount);
+	});
+});
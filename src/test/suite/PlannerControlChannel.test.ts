@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import { before, after } from 'mocha';
+
+import * as http from 'http';
+import * as WebSocket from 'ws';
+import { AddressInfo } from 'net';
+import { MessageParser } from '../../searchDebugger/MessageParser';
+import { Search } from '../../searchDebugger/Search';
+import { SearchTrace } from '../../searchDebugger/SearchTrace';
+import { MockControlledSearch } from '../../searchDebugger/MockSearch';
+import { PlannerControlChannel, PlannerStatus } from '../../searchDebugger/PlannerControlChannel';
+
+suite('Planner control channel Test Suite', () => {
+
+	let server: http.Server;
+	let search: Search;
+	let channel: PlannerControlChannel;
+	let planner: MockControlledSearch;
+
+	before(async () => {
+		search = new Search();
+		const messageParser = new MessageParser(search, /^(\d+)$/);
+		server = http.createServer();
+		channel = new PlannerControlChannel(server, messageParser, message => SearchTrace.apply(message.type, message.body, search, messageParser));
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+
+		const connected = waitForStatus(status => status.status === 'paused');
+		planner = new MockControlledSearch((server.address() as AddressInfo).port, { startPaused: true, expansionIntervalMs: 1, initialH: 100 });
+		await planner.connect();
+		await connected;
+	});
+
+	after(() => {
+		planner.close();
+		channel.dispose();
+		server.close();
+	});
+
+	/**
+	 * @returns promise of the first status reported by the planner, which matches the predicate
+	 */
+	function waitForStatus(predicate: (status: PlannerStatus) => boolean): Promise<PlannerStatus> {
+		return new Promise<PlannerStatus>(resolve => {
+			const subscription = channel.onStatusChanged(status => {
+				if (status && predicate(status)) {
+					subscription.dispose();
+					resolve(status);
+				}
+			});
+		});
+	}
+
+	test('planner connects paused and posts the initial state', () => {
+		assert.ok(channel.isConnected());
+		assert.strictEqual(channel.getStatus()?.status, 'paused');
+		assert.strictEqual(search.getStates().length, 1);
+	});
+
+	test('planner status is unknown until the planner reports it', async () => {
+		// GIVEN
+		const otherServer = http.createServer();
+		const otherSearch = new Search();
+		const otherChannel = new PlannerControlChannel(otherServer, new MessageParser(otherSearch, /^(\d+)$/), () => undefined);
+		await new Promise<void>(resolve => otherServer.listen(0, '127.0.0.1', () => resolve()));
+		const connected = new Promise<PlannerStatus | undefined>(resolve => otherChannel.onStatusChanged(status => resolve(status)));
+
+		// WHEN a planner connects, but does not report its status
+		const socket = new WebSocket(`ws://127.0.0.1:${(otherServer.address() as AddressInfo).port}${PlannerControlChannel.PATH}`);
+		try {
+			await new Promise(resolve => socket.once('open', resolve));
+			const status = await connected;
+
+			// THEN
+			assert.strictEqual(status?.status, 'unknown');
+			assert.ok(otherChannel.isConnected());
+		}
+		finally {
+			socket.terminate();
+			otherChannel.dispose();
+			otherServer.close();
+		}
+	});
+
+	test('rejects connections from web pages', async () => {
+		// GIVEN
+		const port = (server.address() as AddressInfo).port;
+
+		// WHEN a web page opens the control channel
+		const socket = new WebSocket(`ws://127.0.0.1:${port}${PlannerControlChannel.PATH}`, { origin: 'https://example.com' });
+		const error = await new Promise<Error>(resolve => socket.once('error', resolve));
+
+		// THEN
+		assert.ok(/401/.test(error.message), error.message);
+		assert.strictEqual(channel.getStatus()?.status, 'paused');
+	});
+
+	test('steps the given number of expansions and pauses', async () => {
+		// GIVEN
+		const paused = waitForStatus(status => status.status === 'paused');
+
+		// WHEN
+		assert.ok(channel.send({ command: 'step', expansions: 2 }));
+		const status = await paused;
+
+		// THEN every expansion generates two states
+		assert.strictEqual(status.expansions, 2);
+		assert.strictEqual(search.getStates().length, 5);
+	});
+
+	test('expands the requested state next', async () => {
+		// GIVEN the most recently generated state
+		const states = search.getStates();
+		const requestedState = states[states.length - 1];
+		const paused = waitForStatus(status => status.status === 'paused');
+
+		// WHEN
+		channel.send({ command: 'expand', stateId: requestedState.origId });
+		await paused;
+
+		// THEN
+		const children = search.getStates().slice(states.length);
+		assert.deepStrictEqual(children.map(child => child.parentId), [requestedState.id, requestedState.id]);
+	});
+
+	test('pauses the running search', async () => {
+		// GIVEN
+		const running = waitForStatus(status => status.status === 'running');
+		channel.send({ command: 'resume' });
+		await running;
+
+		// WHEN
+		const paused = waitForStatus(status => status.status === 'paused');
+		channel.send({ command: 'pause' });
+		const status = await paused;
+
+		// THEN no more states are expanded
+		const stateCount = search.getStates().length;
+		await new Promise(resolve => setTimeout(resolve, 20));
+		assert.strictEqual(search.getStates().length, stateCount);
+		assert.ok((status.expansions ?? 0) >= 3);
+	});
+});
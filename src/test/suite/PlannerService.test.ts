@@ -0,0 +1,113 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as express from 'express';
+import { expect } from 'chai';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver, DomainInfo, ProblemInfo, Plan, parser, planner } from 'pddl-workspace';
+import { PlannerSyncService } from '../../planning/PlannerSyncService';
+
+suite('Planner service streaming', () => {
+
+    let server: http.Server;
+    let serviceUrl: string;
+    let domain: DomainInfo;
+    let problem: ProblemInfo;
+
+    /** Stand-in for a `/solve` planning service streaming its output and two plans. */
+    function createStandInService(): express.Application {
+        const app = express();
+        app.post('/solve', (req, res) => {
+            const streamingFormat = req.query['format'];
+            const messages = [
+                { type: 'output', text: 'Searching...' },
+                { type: 'plan', plan: [{ name: '(a)' }, { name: '(a)' }] },
+                { type: 'output', text: 'Searching for a better plan...' },
+                { type: 'progress', expanded: 42 },
+                { type: 'plan', plan: [{ name: '(a)' }] },
+                { type: 'end' }
+            ];
+
+            if (streamingFormat === 'sse') {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                messages.forEach(m => res.write(`event: ${m.type}\ndata: ${JSON.stringify(m)}\n\n`));
+            }
+            else if (streamingFormat === 'ndjson') {
+                res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+                messages.forEach(m => res.write(JSON.stringify(m) + '\n'));
+            }
+            else {
+                res.status(200).json({ status: 'ok', result: { output: 'Done.', plan: [{ name: '(a)' }] } });
+                return;
+            }
+            res.end();
+        });
+        return app;
+    }
+
+    suiteSetup(async () => {
+        const pddlWorkspace = new PddlWorkspace(1e-3);
+        const domainText = '(define (domain d) (:action a :parameters () :precondition (and) :effect (and)))';
+        const problemText = '(define (problem p) (:domain d))';
+        domain = await pddlWorkspace.upsertFile(URI.file('/planner-service-test/domain.pddl'), PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText)) as DomainInfo;
+        problem = await pddlWorkspace.upsertFile(URI.file('/planner-service-test/problem.pddl'), PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText)) as ProblemInfo;
+
+        await new Promise<void>(resolve => {
+            server = createStandInService().listen(0, '127.0.0.1', () => resolve());
+        });
+        serviceUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/solve`;
+    });
+
+    suiteTeardown(done => {
+        server.close(() => done());
+    });
+
+    async function plan(format: string): Promise<{ output: string; planCounts: number[]; planLengths: number[] }> {
+        let output = '';
+        const planCounts: number[] = [];
+        const planParser = new parser.PddlPlannerOutputParser(domain, problem, { epsilon: 1e-3 }, (plans: Plan[]) => planCounts.push(plans.length));
+        const callbacks: planner.PlannerResponseHandler = {
+            handleOutput: (text: string): void => { output += text; },
+            handlePlan: (): void => { return; },
+            providePlannerOptions: (): string[] => []
+        };
+
+        const plans = await new PlannerSyncService(serviceUrl, `format=${format}`).plan(domain, problem, planParser, callbacks);
+        return { output, planCounts, planLengths: plans.map(p => p.steps.length) };
+    }
+
+    test('streams Server-Sent Events', async () => {
+        // GIVEN the stand-in service streams Server-Sent Events
+
+        // WHEN
+        const { output, planCounts, planLengths } = await plan('sse');
+
+        // THEN
+        expect(output).to.contain('Searching...\n');
+        expect(output).to.contain('Searching for a better plan...\n');
+        expect(planLengths).to.deep.equal([2, 1]);
+        expect(planCounts).to.include(1, 'first plan is reported before the second one arrives');
+    });
+
+    test('streams newline-delimited JSON', async () => {
+        // GIVEN the stand-in service streams newline-delimited JSON
+
+        // WHEN
+        const { output, planLengths } = await plan('ndjson');
+
+        // THEN
+        expect(output).to.contain('Searching for a better plan...\n');
+        expect(output).to.contain('Ignoring planning service message of type progress.\n', 'unknown message type is reported to the planner output');
+        expect(planLengths).to.deep.equal([2, 1]);
+    });
+
+    test('still supports non-streamed response', async () => {
+        // GIVEN the stand-in service responds with a single JSON body
+
+        // WHEN
+        const { output, planLengths } = await plan('json');
+
+        // THEN
+        expect(output).to.contain('Done.');
+        expect(planLengths).to.deep.equal([1]);
+    });
+});
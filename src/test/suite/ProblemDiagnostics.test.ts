@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { before } from 'mocha';
+
+import * as vscode from 'vscode';
+import { URI } from 'vscode-uri';
+import { PddlWorkspace, PddlLanguage, SimpleDocumentPositionResolver, ProblemInfo } from 'pddl-workspace';
+import { CodePddlWorkspace } from '../../workspace/CodePddlWorkspace';
+import { ProblemDiagnostics, UNDECLARED_OBJECT, DUPLICATE_OBJECT, TYPE_MISMATCH, WRONG_ARITY, NON_NUMERIC_VALUE } from '../../diagnostics/ProblemDiagnostics';
+
+suite('Problem diagnostics Test Suite', () => {
+
+	let pddlWorkspace: PddlWorkspace;
+	let problemDiagnostics: ProblemDiagnostics;
+
+	const domainText = `(define (domain logistics)
+	(:types truck boat - vehicle location - object amphibian - (either truck boat))
+	(:constants hq - location)
+	(:predicates (truck-at ?t - truck ?l - location) (vehicle-at ?v - vehicle ?l) (at ?v - vehicle ?l - location))
+	(:functions (fuel ?t - truck) - number (driver ?t - truck) - object)
+)`;
+
+	before(async () => {
+		pddlWorkspace = new PddlWorkspace(1e-3);
+		problemDiagnostics = new ProblemDiagnostics(CodePddlWorkspace.getInstanceForTestingOnly(pddlWorkspace));
+		await pddlWorkspace.upsertAndParseFile(URI.file('/problem-diagnostics/domain.pddl'), PddlLanguage.PDDL, 1, domainText, new SimpleDocumentPositionResolver(domainText));
+	});
+
+	async function validate(problemText: string): Promise<string[]> {
+		const fileUri = URI.file('/problem-diagnostics/problem.pddl');
+		const problemInfo = await pddlWorkspace.upsertAndParseFile(fileUri, PddlLanguage.PDDL, 1, problemText, new SimpleDocumentPositionResolver(problemText));
+		problemDiagnostics.validateProblem(problemInfo as ProblemInfo);
+		return (problemDiagnostics.diagnosticCollection.get(vscode.Uri.file(fileUri.fsPath)) ?? [])
+			.map(diagnostic => `${diagnostic.code}:${diagnostic.range.start.line}:${diagnostic.range.start.character}`);
+	}
+
+	test('accepts a valid problem', async () => {
+		// GIVEN the amphibian inherits from truck and boat and the constant `hq` is declared in the domain
+		const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck amph1 - amphibian depot - location)
+	(:init (truck-at truck1 depot) (vehicle-at amph1 hq) (at 10 (truck-at truck1 hq)) (= (fuel truck1) 10) (= (driver truck1) amph1))
+	(:goal (forall (?t - truck) (truck-at ?t hq)))
+)`;
+
+		// WHEN
+		const diagnostics = await validate(problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, []);
+	});
+
+	test('reports undeclared and duplicate objects', async () => {
+		// GIVEN
+		const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck hq truck1 - location)
+	(:init (truck-at truck1 nowhere))
+)`;
+
+		// WHEN
+		const diagnostics = await validate(problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, [`${DUPLICATE_OBJECT}:1:26`, `${DUPLICATE_OBJECT}:1:29`, `${UNDECLARED_OBJECT}:2:25`]);
+	});
+
+	test('reports argument types and count', async () => {
+		// GIVEN
+		const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot - location)
+	(:init (truck-at depot truck1) (truck-at truck1))
+	(:goal (vehicle-at depot depot))
+)`;
+
+		// WHEN
+		const diagnostics = await validate(problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, [`${TYPE_MISMATCH}:2:18`, `${TYPE_MISMATCH}:2:24`, `${WRONG_ARITY}:2:32`, `${TYPE_MISMATCH}:3:20`]);
+	});
+
+	test('validates predicate named `at`, but not the timed initial literal', async () => {
+		// GIVEN the `(at` of the predicate is tokenized as an operator, same as the timed initial literal `(at 10`
+		const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck depot - location)
+	(:init (at truck1 nowhere) (at 10 (at depot truck1)))
+	(:goal (at truck1))
+)`;
+
+		// WHEN
+		const diagnostics = await validate(problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, [`${UNDECLARED_OBJECT}:2:19`, `${TYPE_MISMATCH}:2:39`, `${TYPE_MISMATCH}:2:45`, `${WRONG_ARITY}:3:8`]);
+	});
+
+	test('reports numeric fluents initialized with non-numbers', async () => {
+		// GIVEN
+		const problemText = `(define (problem delivery) (:domain logistics)
+	(:objects truck1 - truck)
+	(:init (= (fuel truck1) full))
+)`;
+
+		// WHEN
+		const diagnostics = await validate(problemText);
+
+		// THEN
+		assert.deepStrictEqual(diagnostics, [`${NON_NUMERIC_VALUE}:2:25`]);
+	});
+
+	test('stops listening to the workspace, when disposed', () => {
+		// GIVEN
+		const otherWorkspace = new PddlWorkspace(1e-3);
+		const listenerCount = otherWorkspace.listenerCount(PddlWorkspace.UPDATED);
+		const otherDiagnostics = new ProblemDiagnostics(CodePddlWorkspace.getInstanceForTestingOnly(otherWorkspace));
+		assert.strictEqual(otherWorkspace.listenerCount(PddlWorkspace.UPDATED), listenerCount + 1);
+
+		// WHEN
+		otherDiagnostics.dispose();
+
+		// THEN
+		assert.strictEqual(otherWorkspace.listenerCount(PddlWorkspace.UPDATED), listenerCount);
+	});
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+
+import { SearchTrace, SearchTraceEventType } from '../../searchDebugger/SearchTrace';
+import { SearchComparison } from '../../searchDebugger/SearchComparison';
+
+suite('Search comparison Test Suite', () => {
+
+	const driveStart = { actionName: 'drive', earliestTime: 0, shotCounter: 0, iterations: 1, kind: 'START' };
+	const driveEnd = { actionName: 'drive', earliestTime: 2, shotCounter: 0, iterations: 1, kind: 'END' };
+	const flyStart = { actionName: 'fly', earliestTime: 0, shotCounter: 0, iterations: 1, kind: 'START' };
+
+	/**
+	 * @returns trace of a search, which expands the initial state to the `drive` and `fly` successors
+	 * @param flyH heuristic value of the `fly` successor, dead-end if undefined
+	 * @param planFound the `drive` successor is expanded to a plan
+	 */
+	function createTrace(flyH: number | undefined, planFound: boolean): SearchTrace {
+		const trace = new SearchTrace(/^(\d+)$/);
+		trace.record(SearchTraceEventType.INITIAL_STATE, { id: '0', g: 0, earliestTime: 0, satisfiedLandmarks: 0 }, 1000);
+		trace.record(SearchTraceEventType.HEURISTIC, { id: '0', h: 2, totalMakespan: 2, helpfulActions: [], relaxedPlan: [] }, 1010);
+		trace.record(SearchTraceEventType.STATE, { id: '1', parentId: '0', g: 1, earliestTime: 0, satisfiedLandmarks: 0, appliedAction: driveStart, planHead: [driveStart] }, 1020);
+		trace.record(SearchTraceEventType.HEURISTIC, { id: '1', h: 1, totalMakespan: 2, helpfulActions: [], relaxedPlan: [] }, 1030);
+		trace.record(SearchTraceEventType.STATE, { id: '2', parentId: '0', g: 1, earliestTime: 0, satisfiedLandmarks: 0, appliedAction: flyStart, planHead: [flyStart] }, 1040);
+		// dead-ends are reported without the heuristic value
+		trace.record(SearchTraceEventType.HEURISTIC, flyH !== undefined ? { id: '2', h: flyH, totalMakespan: 2, helpfulActions: [], relaxedPlan: [] } : { id: '2' }, 1050);
+		if (planFound) {
+			trace.record(SearchTraceEventType.PLAN, { id: '3', parentId: '1', g: 2, earliestTime: 2, satisfiedLandmarks: 0, appliedAction: driveEnd, planHead: [driveStart, driveEnd] }, 1060);
+		}
+		return trace;
+	}
+
+	test('computes search statistics', () => {
+		// GIVEN
+		const trace = createTrace(undefined, true);
+
+		// WHEN
+		const comparison = new SearchComparison(trace, createTrace(3, false));
+
+		// THEN
+		const statistics = comparison.leftStatistics;
+		assert.strictEqual(statistics.generated, 4);
+		assert.strictEqual(statistics.expanded, 2);
+		assert.strictEqual(statistics.evaluated, 4); // incl. the goal state
+		assert.strictEqual(statistics.deadEnds, 1);
+		assert.strictEqual(statistics.planLength, 2);
+		assert.strictEqual(statistics.bestH, 0);
+		assert.deepStrictEqual(statistics.bestHProgress.map(progress => `${progress.time}:${progress.h}`), ['10:2', '30:1', '60:0']);
+	});
+
+	test('aligns states by plan head and reports divergences', () => {
+		// GIVEN the `fly` successor is a dead-end in the first search, but evaluated in the second, which did not find the plan yet
+		const left = createTrace(undefined, true);
+		const right = createTrace(3, false);
+
+		// WHEN
+		const comparison = new SearchComparison(left, right);
+
+		// THEN
+		assert.deepStrictEqual(comparison.getDivergentStates().map(state => ({
+			key: state.key, left: state.left?.id, right: state.right?.id,
+			hDiffers: state.hDiffers, deadEndDiffers: state.deadEndDiffers, branchesDiverge: state.branchesDiverge
+		})), [
+			{ key: 'drive[0]:START', left: 1, right: 1, hDiffers: false, deadEndDiffers: false, branchesDiverge: true },
+			{ key: 'fly[0]:START', left: 2, right: 2, hDiffers: false, deadEndDiffers: true, branchesDiverge: false },
+			{ key: 'drive[0]:START, drive[0]:END', left: 3, right: undefined, hDiffers: false, deadEndDiffers: false, branchesDiverge: false },
+		]);
+	});
+
+	test('finds no divergence in identical searches', () => {
+		// GIVEN
+		const trace = createTrace(3, true);
+
+		// WHEN
+		const comparison = new SearchComparison(trace, SearchTrace.fromJson(trace.toJson()));
+
+		// THEN
+		assert.strictEqual(comparison.alignedStates.length, 4);
+		assert.deepStrictEqual(comparison.getDivergentStates(), []);
+	});
+});
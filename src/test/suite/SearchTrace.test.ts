@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+
+import { SearchTrace, SearchTraceReplay, SearchTraceEventType } from '../../searchDebugger/SearchTrace';
+
+suite('Search trace Test Suite', () => {
+
+	const driveStart = { actionName: 'drive', earliestTime: 0, shotCounter: 0, iterations: 1, kind: 'START' };
+	const driveEnd = { actionName: 'drive', earliestTime: 2, shotCounter: 0, iterations: 1, kind: 'END' };
+
+	/**
+	 * @returns trace of a search, which expands the initial state, evaluates the successor and finds a plan
+	 */
+	function createTrace(): SearchTrace {
+		const trace = new SearchTrace(/^(\d+)$/);
+		trace.record(SearchTraceEventType.INITIAL_STATE, { id: '0', g: 0, earliestTime: 0, satisfiedLandmarks: 0 });
+		trace.record(SearchTraceEventType.HEURISTIC, { id: '0', h: 2, totalMakespan: 2, helpfulActions: [{ actionName: 'drive', kind: 'START' }], relaxedPlan: [driveStart, driveEnd] });
+		trace.record(SearchTraceEventType.STATE, { id: '1', parentId: '0', g: 1, earliestTime: 0, satisfiedLandmarks: 0, appliedAction: driveStart, planHead: [driveStart] });
+		trace.record(SearchTraceEventType.HEURISTIC, { id: '1', h: 1, totalMakespan: 2, helpfulActions: [{ actionName: 'drive', kind: 'END' }], relaxedPlan: [driveEnd] });
+		trace.record(SearchTraceEventType.PLAN, { id: '2', parentId: '1', g: 2, earliestTime: 2, satisfiedLandmarks: 0, appliedAction: driveEnd, planHead: [driveStart, driveEnd] });
+		return trace;
+	}
+
+	test('replays all recorded messages', () => {
+		// GIVEN
+		const trace = createTrace();
+
+		// WHEN
+		const search = trace.replay();
+
+		// THEN
+		assert.deepStrictEqual(search.getStates().map(state => state.id), [0, 1, 2]);
+		assert.deepStrictEqual(search.getState(1)?.relaxedPlan?.map(happening => happening.actionName), ['drive']);
+		assert.deepStrictEqual(search.getPlan()?.map(state => state.id), [2, 1, 0]);
+	});
+
+	test('replays the search progression step by step', () => {
+		// GIVEN
+		const trace = createTrace();
+
+		// WHEN the successor state is added, but not evaluated yet
+		const search = trace.replay(3);
+
+		// THEN
+		assert.deepStrictEqual(search.getStates().map(state => state.id), [0, 1]);
+		assert.strictEqual(search.getState(0)?.h, 2);
+		assert.strictEqual(search.getState(1)?.isEvaluated, false);
+		assert.strictEqual(search.getPlan(), undefined);
+	});
+
+	test('seeks forward incrementally and backwards from the first message', () => {
+		// GIVEN
+		const replay = new SearchTraceReplay(createTrace());
+		const addedStateIds: number[] = [];
+		replay.search.onStateAdded(state => addedStateIds.push(state.id));
+
+		// WHEN
+		replay.seek(2);
+		const search = replay.seek(4);
+
+		// THEN
+		assert.strictEqual(search, replay.search);
+		assert.strictEqual(replay.currentStep, 4);
+		assert.deepStrictEqual(addedStateIds, [0, 1]);
+		assert.strictEqual(search.getState(1)?.h, 1);
+
+		// WHEN seeking back before the successor was added
+		replay.seek(1);
+
+		// THEN
+		assert.deepStrictEqual(search.getStates().map(state => state.id), [0]);
+		assert.strictEqual(search.getState(0)?.isEvaluated, false);
+
+		// WHEN seeking beyond the end
+		replay.seek(100);
+
+		// THEN
+		assert.strictEqual(replay.currentStep, 5);
+		assert.deepStrictEqual(search.getPlan()?.map(state => state.id), [2, 1, 0]);
+	});
+
+	test('stops recording at the maximum length', () => {
+		// GIVEN
+		const trace = new SearchTrace(/^(\d+)$/, 1);
+
+		// WHEN
+		trace.record(SearchTraceEventType.INITIAL_STATE, { id: '0', g: 0, earliestTime: 0, satisfiedLandmarks: 0 });
+		trace.record(SearchTraceEventType.HEURISTIC, { id: '0', h: 2, totalMakespan: 2, helpfulActions: [], relaxedPlan: [] });
+
+		// THEN
+		assert.strictEqual(trace.length, 1);
+		assert.strictEqual(trace.isTruncated, true);
+
+		// WHEN
+		trace.clear();
+
+		// THEN
+		assert.strictEqual(trace.isTruncated, false);
+	});
+
+	test('saves and loads the trace incl. the planner log', () => {
+		// GIVEN
+		const trace = createTrace();
+		trace.plannerLog = 'State 0: h=2\nState 1: h=1';
+
+		// WHEN
+		const loadedTrace = SearchTrace.fromJson(trace.toJson());
+
+		// THEN
+		assert.strictEqual(loadedTrace.length, trace.length);
+		assert.strictEqual(loadedTrace.stateIdPattern.source, trace.stateIdPattern.source);
+		assert.strictEqual(loadedTrace.plannerLog, trace.plannerLog);
+		assert.deepStrictEqual(loadedTrace.getEvents(), trace.getEvents());
+		assert.deepStrictEqual(loadedTrace.replay().getPlan()?.map(state => state.id), [2, 1, 0]);
+	});
+
+	test('rejects files that are not search traces', () => {
+		assert.throws(() => SearchTrace.fromJson('{ "states": [] }'), /Not a search trace file/);
+	});
+});
@@ -3,7 +3,7 @@ import * as path from 'path';
 import * as os from 'os';
 import * as tmp from 'tmp-promise';
 import { PddlExtensionContext, planner } from 'pddl-workspace';
-import { Disposable, workspace, ExtensionContext, Memento, extensions, Event, FileType, Uri, ConfigurationTarget, EnvironmentVariableCollection, EnvironmentVariableMutator, ExtensionMode } from 'vscode';
+import { Disposable, workspace, ExtensionContext, Memento, extensions, Event, FileType, Uri, ConfigurationTarget, EnvironmentVariableCollection, EnvironmentVariableMutator, ExtensionMode, SecretStorage, SecretStorageChangeEvent, EventEmitter } from 'vscode';
 import { assertDefined } from '../../utils';
 import { CONF_PDDL } from '../../configuration/configuration';
 import { CONF_PLANNERS, CONF_SELECTED_PLANNER } from '../../configuration/PlannersConfiguration';
@@ -47,6 +47,12 @@ class MockMemento implements Memento {
     async update(key: string, value: any): Promise<void> {
         this.map.set(key, value);
     }
+    keys(): readonly string[] {
+        return [...this.map.keys()];
+    }
+    setKeysForSync(): void {
+        // keys are not synchronized in tests
+    }
 }
 
 class MockEnvironmentVariableCollection implements EnvironmentVariableCollection {
@@ -78,7 +84,27 @@ class MockEnvironmentVariableCollection implements EnvironmentVariableCollection
     clear(): void {
         throw new Error('Method not implemented.');
     }
-    
+    [Symbol.iterator](): Iterator<never> {
+        throw new Error('Method not implemented.');
+    }
+}
+
+class MockSecretStorage implements SecretStorage {
+    private readonly secrets = new Map<string, string>();
+    private readonly _onDidChange = new EventEmitter<SecretStorageChangeEvent>();
+    readonly onDidChange = this._onDidChange.event;
+
+    async get(key: string): Promise<string | undefined> {
+        return this.secrets.get(key);
+    }
+    async store(key: string, value: string): Promise<void> {
+        this.secrets.set(key, value);
+        this._onDidChange.fire({ key });
+    }
+    async delete(key: string): Promise<void> {
+        this.secrets.delete(key);
+        this._onDidChange.fire({ key });
+    }
 }
 
 export async function createTestExtensionContext(): Promise<ExtensionContext> {
@@ -103,6 +129,8 @@ export async function createTestExtensionContext(): Promise<ExtensionContext> {
         environmentVariableCollection: new MockEnvironmentVariableCollection(),
         extensionMode: ExtensionMode.Development,
         extensionUri: Uri.file(process.cwd()),
+        secrets: new MockSecretStorage(),
+        extension: assertDefined(extensions.getExtension("jan-dolejsi.pddl"), `Extension 'jan-dolejsi.pddl' not found`),
     };
 }
 
@@ -0,0 +1,18 @@
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Jan Dolejsi. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+'use strict';
+
+export function throwForUndefined<T>(part: string): T {
+    throw new Error(`No ${part} defined.`);
+}
+
+export function assertDefined<T>(value: T | undefined, message: string): T {
+    if (value === undefined || value === null) {
+        throw new Error("Assertion error: " + message);
+    }
+    else {
+        return value;
+    }
+}
@@ -199,18 +199,7 @@ export function showError(reason: Error): void {
     window.showErrorMessage(reason.message);
 }
 
-export function throwForUndefined<T>(part: string): T {
-    throw new Error(`No ${part} defined.`);
-}
-
-export function assertDefined<T>(value: T | undefined, message: string): T {
-    if (value === undefined || value === null) {
-        throw new Error("Assertion error: " + message);
-    }
-    else {
-        return value;
-    }
-}
+export { throwForUndefined, assertDefined } from './util/Asserts';
 
 /**
  * Absolute path, unless it relied on a %path% location (i.e. there was no dirname). 
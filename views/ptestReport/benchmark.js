@@ -0,0 +1,21 @@
+let vscode = null;
+try {
+    vscode = acquireVsCodeApi();
+} catch (error) {
+    console.error(error);
+    // swallow, so in the script can be tested in a browser
+}
+
+/**
+ * Requests the CSV export of the benchmark results.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function exportCsv() {
+    postMessage({
+        command: 'exportCsv'
+    });
+}
+
+function postMessage(message) {
+    if (vscode) { vscode.postMessage(message); }
+}
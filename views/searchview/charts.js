@@ -164,13 +164,14 @@ const H_COLUMN = 3;
 /**
  * Updates state values on the chart
  * @param {State} state state to re-paint
+ * @param {boolean} batch batch mode on/off
  */
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
-function updateStateOnChart(state) {
+function updateStateOnChart(state, batch) {
     const rowId = stateIdToRowId.get(state.id);
     chartData.setValue(rowId, MAKESPAN_COLUMN, sanitizeNumber(state.totalMakespan));
     chartData.setValue(rowId, H_COLUMN, sanitizeNumber(state.h));
-    reDrawChart();
+    if (!batch) { reDrawChart(); }
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -207,4 +208,47 @@ function navigateChart(offset) {
         }
     }
     return null;
-}
\ No newline at end of file
+}
+
+/**
+ * @typedef {Object} SearchTreeStatistics
+ * @property {{expansion: number, stateId: number, h: number | undefined}[]} heuristicByExpansion heuristic value of states in the order of expansion
+ * @property {{depth: number, states: number, expanded: number, branchingFactor: number}[]} branchingByDepth branching factor at each depth of the search tree
+ */
+
+/**
+ * Draws the heuristic value by expansion order and the branching factor by depth.
+ * @param {SearchTreeStatistics} statistics search tree statistics
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function showStatistics(statistics) {
+    if (!chartDefined || !google.visualization) { return; }
+
+    const heuristicData = new google.visualization.DataTable();
+    heuristicData.addColumn('number', 'Expansion');
+    heuristicData.addColumn('number', 'H');
+    heuristicData.addRows(statistics.heuristicByExpansion.map(expansion => [expansion.expansion, sanitizeNumber(expansion.h)]));
+
+    new google.visualization.LineChart(document.getElementById('heuristicByExpansionChart_div')).draw(heuristicData, {
+        title: 'Heuristic value by expansion order',
+        hAxis: { title: 'Expansion' },
+        vAxis: { title: 'Heuristic value', minValue: 0 },
+        legend: { position: 'none' },
+        colors: ['blue']
+    });
+
+    const branchingData = new google.visualization.DataTable();
+    branchingData.addColumn('string', 'Depth');
+    branchingData.addColumn('number', 'Branching factor');
+    branchingData.addColumn({ type: 'string', role: 'tooltip' });
+    branchingData.addRows(statistics.branchingByDepth.map(depth => [depth.depth.toString(), depth.branchingFactor,
+        `Depth: ${depth.depth}\nStates: ${depth.states}\nExpanded: ${depth.expanded}\nBranching factor: ${depth.branchingFactor.toFixed(2)}`]));
+
+    new google.visualization.ColumnChart(document.getElementById('branchingByDepthChart_div')).draw(branchingData, {
+        title: 'Branching factor by depth',
+        hAxis: { title: 'Depth' },
+        vAxis: { title: 'Branching factor', minValue: 0 },
+        legend: { position: 'none' },
+        colors: ['green']
+    });
+}
@@ -9,6 +9,9 @@ window.addEventListener('message', event => {
         case 'stateUpdated':
             update(message.state, false);
             break;
+        case 'statesChanged':
+            addAndUpdate(message.state.added, message.state.updated);
+            break;
         case 'debuggerState':
             showDebuggerOn(message.state.running === 'on', message.state.port);
             break;
@@ -27,6 +30,18 @@ window.addEventListener('message', event => {
         case 'stateLog':
             showStateLogButton(message.state);
             break;
+        case 'replay':
+            showReplay(message.state);
+            break;
+        case 'plannerStatus':
+            showPlannerStatus(message.state);
+            break;
+        case 'queryResult':
+            showQueryResult(message.state);
+            break;
+        case 'statistics':
+            showStatistics(message.state);
+            break;
         default:
             console.log("Unexpected message: " + message.command);
     }
@@ -176,9 +191,10 @@ function add(newState, batch) {
 /**
  * Updates state on the view
  * @param {State} state state to update
+ * @param {boolean} batch batch-mode on/off
  */
-function update(state) {
-    updateStateOnChart(state);
+function update(state, batch) {
+    updateStateOnChart(state, batch);
     updateStateOnTree(state);
 
     if (selectedStateId === state.id) {
@@ -186,6 +202,22 @@ function update(state) {
     }
 }
 
+/**
+ * Adds and updates states changed since the last update in batch mode
+ * @param {State[]} addedStates states to add
+ * @param {State[]} updatedStates states to update
+ */
+function addAndUpdate(addedStates, updatedStates) {
+    for (const state of addedStates) {
+        add(state, true);
+    }
+    for (const state of updatedStates) {
+        update(state, true);
+    }
+    endChartBatch();
+    if (addedStates.length && nodes.length < 100 && autoFitEnabled) { fitTree(); }
+}
+
 /**
  * Highlight states that belong to plan
  * @param {State[]} states state chain that form a plan
@@ -463,4 +495,146 @@ function showStateLogButton(logFilePath) {
         button.style = "color: red";
         button.title = "State log file synchronization disabled. Click here to re-enable.";
     }
-}
\ No newline at end of file
+}
+
+document.getElementById("saveTraceButton").onclick = () => postCommand('saveTrace');
+document.getElementById("loadTraceButton").onclick = () => postCommand('loadTrace');
+
+/**
+ * @typedef {Object} ReplayState
+ * @property {number} step number of the replayed search trace messages
+ * @property {number} stepCount number of all messages in the search trace
+ */
+
+/**
+ * Shows the replay scrubber, or hides it, when the search trace is no longer replayed.
+ * @param {ReplayState | null} replayState replayed step and step count
+ */
+function showReplay(replayState) {
+    const replayBar = document.getElementById("replayBar");
+    if (!replayState) {
+        replayBar.style.display = 'none';
+        return;
+    }
+
+    replayBar.style.display = 'flex';
+    const slider = document.getElementById("replaySlider");
+    slider.max = replayState.stepCount.toString();
+    slider.value = replayState.step.toString();
+    document.getElementById("replayStep").innerText = `${replayState.step} / ${replayState.stepCount}`;
+}
+
+/**
+ * Requests the search progression after the given number of the search trace messages.
+ * @param {number} step number of messages to replay
+ */
+function replayStep(step) {
+    const slider = document.getElementById("replaySlider");
+    const boundedStep = Math.max(0, Math.min(step, parseInt(slider.max)));
+    document.getElementById("replayStep").innerText = `${boundedStep} / ${slider.max}`;
+    postMessage({ command: 'replayStep', step: boundedStep });
+}
+
+document.getElementById("replaySlider").onchange = (event) => replayStep(parseInt(event.target.value));
+document.getElementById("replayBackButton").onclick = () => replayStep(parseInt(document.getElementById("replaySlider").value) - 1);
+document.getElementById("replayForwardButton").onclick = () => replayStep(parseInt(document.getElementById("replaySlider").value) + 1);
+
+/**
+ * @typedef {Object} PlannerStatus
+ * @property {'unknown' | 'running' | 'paused' | 'finished'} status search status reported by the planner, `unknown` until the first report
+ * @property {number | undefined} expansions number of states expanded so far
+ */
+
+/**
+ * Shows the planner control buttons, or hides them, when no planner is connected via the control channel.
+ * @param {PlannerStatus | null} plannerStatus status reported by the connected planner
+ */
+function showPlannerStatus(plannerStatus) {
+    const plannerControlBar = document.getElementById("plannerControlBar");
+    if (!plannerStatus) {
+        plannerControlBar.style.display = 'none';
+        return;
+    }
+
+    plannerControlBar.style.display = 'flex';
+    const expansions = plannerStatus.expansions !== undefined && plannerStatus.expansions !== null ? ` (${plannerStatus.expansions} expansions)` : '';
+    const status = plannerStatus.status === 'unknown' ? 'connected' : plannerStatus.status;
+    document.getElementById("plannerStatus").innerText = `Planner ${status}${expansions}`;
+}
+
+document.getElementById("pausePlannerButton").onclick = () => postCommand('pausePlanner');
+document.getElementById("resumePlannerButton").onclick = () => postCommand('resumePlanner');
+document.getElementById("stepPlannerButton").onclick = () => {
+    const expansions = Math.max(1, parseInt(document.getElementById("stepExpansions").value) || 1);
+    postMessage({ command: 'stepPlanner', expansions: expansions });
+};
+document.getElementById("expandStateButton").onclick = () => {
+    if (selectedStateId === null) { return; }
+    postMessage({ command: 'expandState', stateId: selectedStateId });
+};
+
+/**
+ * @typedef {Object} QueryResult
+ * @property {number[] | null | undefined} stateIds IDs of states matching the query, or `null` when no query is applied
+ * @property {number | undefined} stateCount number of all states
+ * @property {string | undefined} error query error
+ */
+
+/** IDs of states matching the query. @type {number[]} */
+let queryMatches = [];
+
+/**
+ * Highlights the states matching the query.
+ * @param {QueryResult} queryResult query result
+ */
+function showQueryResult(queryResult) {
+    const queryResultSpan = document.getElementById("queryResult");
+    queryResultSpan.className = queryResult.error ? "queryError" : "";
+    if (queryResult.error) {
+        queryResultSpan.innerText = queryResult.error;
+        queryMatches = [];
+        showQueryOnTree(null);
+        return;
+    }
+
+    queryMatches = queryResult.stateIds || [];
+    queryResultSpan.innerText = queryResult.stateIds ? `${queryMatches.length} / ${queryResult.stateCount} states` : '';
+    showQueryOnTree(queryResult.stateIds);
+}
+
+function applyQuery() {
+    postMessage({ command: 'queryStates', query: document.getElementById("queryInput").value });
+}
+
+/**
+ * Selects the next (or previous) state matching the query.
+ * @param {number} offset 1 for the next, -1 for the previous matching state
+ */
+function navigateQueryMatches(offset) {
+    if (queryMatches.length === 0) { return; }
+    const selectedIndex = queryMatches.indexOf(selectedStateId);
+    const nextIndex = selectedIndex < 0
+        ? (offset > 0 ? 0 : queryMatches.length - 1)
+        : (selectedIndex + offset + queryMatches.length) % queryMatches.length;
+    onStateSelected(queryMatches[nextIndex]);
+}
+
+document.getElementById("queryInput").onkeydown = (event) => {
+    // do not let the tree navigation handle the keys typed into the query
+    event.stopPropagation();
+    if (event.key === 'Enter') { applyQuery(); }
+};
+document.getElementById("applyQueryButton").onclick = () => applyQuery();
+document.getElementById("clearQueryButton").onclick = () => {
+    document.getElementById("queryInput").value = '';
+    applyQuery();
+};
+document.getElementById("previousMatchButton").onclick = () => navigateQueryMatches(-1);
+document.getElementById("nextMatchButton").onclick = () => navigateQueryMatches(+1);
+
+document.getElementById("statisticsButton").onclick = () => {
+    const statisticsPanel = document.getElementById("statisticsPanel");
+    const visible = statisticsPanel.style.display === 'none';
+    statisticsPanel.style.display = visible ? 'block' : 'none';
+    postMessage({ command: 'showStatistics', visible: visible });
+};
@@ -294,7 +294,28 @@ function selectTreeNode(id) {
     }
 }
 
+/** IDs of the states dimmed, because they do not match the query. @type {Set<number>} */
+let dimmedStateIds = new Set();
+
+/**
+ * Dims the states not matching the query.
+ * @param {number[] | null} stateIds IDs of states matching the query, or `null` to show all states
+ */
+function showQueryOnTree(stateIds) {
+    const matchingStateIds = stateIds ? new Set(stateIds) : null;
+    const newDimmedStateIds = new Set(matchingStateIds ? nodes.getIds().filter(id => !matchingStateIds.has(id)) : []);
+
+    // only re-paint the nodes, which started or stopped matching
+    const changedNodes = nodes.getIds()
+        .filter(id => dimmedStateIds.has(id) !== newDimmedStateIds.has(id))
+        .map(id => ({ id: id, opacity: newDimmedStateIds.has(id) ? 0.2 : 1 }));
+
+    dimmedStateIds = newDimmedStateIds;
+    nodes.update(changedNodes);
+}
+
 function clearTree() {
+    dimmedStateIds.clear();
     nodes.clear();
     edges.clear();
 }